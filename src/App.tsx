@@ -1,17 +1,36 @@
-import React from 'react';
 import Calculator from './components/Calculator';
+import CurrencySelector from './components/CurrencySelector';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import { CurrencyProvider } from './currency/CurrencyContext';
+import { I18nProvider, useI18n } from './i18n/I18nContext';
+
+function Header() {
+  const { t } = useI18n();
+
+  return (
+    <header className="bg-hilton-blue text-white py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-walbaum">{t('app.title')}</h1>
+        <div className="flex items-center gap-4">
+          <LanguageSwitcher />
+          <CurrencySelector />
+        </div>
+      </div>
+    </header>
+  );
+}
 
 function App() {
   return (
-    <div className="min-h-screen bg-gray-50">
-      <header className="bg-hilton-blue text-white py-6">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <h1 className="text-3xl font-walbaum">Hilton Honors Travel & Savings</h1>
+    <I18nProvider>
+      <CurrencyProvider>
+        <div className="min-h-screen bg-gray-50">
+          <Header />
+          <Calculator />
         </div>
-      </header>
-      <Calculator />
-    </div>
+      </CurrencyProvider>
+    </I18nProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
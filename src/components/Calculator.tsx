@@ -1,54 +1,189 @@
-import React, { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { expandedHiltonProperties } from '../data/hiltonProperties';
+import { majorAirports } from '../data/travelData';
+import {
+  CategoryCost,
+  CostCategory,
+  EliteTier,
+  PointsCategory,
+  PointsWallet,
+  HotelDetails,
+  HotelRoom,
+  ItineraryLeg,
+  FlightDetails,
+  FlightSegment,
+  PassengerCounts,
+  CarRentalDetails,
+  EntertainmentDetails,
+  RideShareDetails,
+  TripState
+} from '../types';
+import { setWalletBalance, allocatePoints } from '../points/wallet';
+import { optimizeAllocation } from '../points/optimizer';
+import { earningsBySource } from '../points/earnings';
+import { combineCosts, emptyCost } from '../pricing/lineItems';
+import { suggestAirportTransfer } from '../pricing/rideShare';
+import { spreadGuests } from '../pricing/rooms';
+import { countEventTickets, toHotelGuests } from '../pricing/passengers';
+import { createDefaultTrip } from '../trips/tripState';
+import { readTripFromUrl, buildShareUrl } from '../trips/shareLink';
+import { FlexibleDateOption, searchFlexibleDates, shiftFlightDates } from '../trips/flexibleDates';
+import { STOP_CATEGORIES, StopCategory, checkItinerary, createLeg, getPickUpLocation, getStops } from '../trips/itinerary';
+import { daysBetween } from '../utils/dates';
 import HotelSelector from './HotelSelector';
 import FlightSelector from './FlightSelector';
 import CarRentalSelector from './CarRentalSelector';
+import ItineraryPanel from './ItineraryPanel';
 import EntertainmentSelector from './EntertainmentSelector';
+import RideShareSelector from './RideShareSelector';
 import TotalCostSummary from './TotalCostSummary';
 import DiamondBenefits from './DiamondBenefits';
 import PricingSources from './PricingSources';
+import PointsWalletPanel from './PointsWalletPanel';
+import ShareTripButton from './ShareTripButton';
+import SavedTripsSidebar from './SavedTripsSidebar';
+import ScenarioComparison from './ScenarioComparison';
+import ExchangeRatePanel from './ExchangeRatePanel';
+import StatusTracker, { PricedStay } from './StatusTracker';
+import { useI18n } from '../i18n/I18nContext';
 
 export default function Calculator() {
-  const [hotelDetails, setHotelDetails] = useState({
-    brand: '',
-    property: '',
-    checkIn: '',
-    checkOut: '',
-    rooms: 1,
-    points: ''
-  });
+  const { t } = useI18n();
+  const [sharedLink] = useState(() => readTripFromUrl());
+  const [initialTrip] = useState(() => sharedLink?.ok ? sharedLink.trip : createDefaultTrip());
+  const [linkNoticeDismissed, setLinkNoticeDismissed] = useState(false);
 
-  const [flightDetails, setFlightDetails] = useState({
-    origin: '',
-    destination: '',
-    departDate: '',
-    returnDate: '',
-    flightClass: 'economy',
-    passengers: 1,
-    tripType: 'roundTrip' as const,
-    flightType: 'nonStop' as const
-  });
+  // Built at render time so the notice follows language changes
+  const linkNotice = (() => {
+    if (!sharedLink || linkNoticeDismissed) return '';
+    if (!sharedLink.ok) return t(`calculator.linkError.${sharedLink.error}`);
+    return sharedLink.issues.length
+      ? t('calculator.linkReset', { issues: sharedLink.issues.join(', ') })
+      : '';
+  })();
 
-  const [carRental, setCarRental] = useState({
-    company: '',
-    category: '',
-    days: 0
-  });
+  const [hotelDetails, setHotelDetails] = useState<HotelDetails>(initialTrip.hotel);
+  const [wallet, setWallet] = useState<PointsWallet>(initialTrip.wallet);
+  const [flightDetails, setFlightDetails] = useState<FlightDetails>(initialTrip.flight);
+  const [carRental, setCarRental] = useState<CarRentalDetails>(initialTrip.carRental);
+  const [legs, setLegs] = useState<ItineraryLeg[]>(initialTrip.legs);
+  const [entertainment, setEntertainment] = useState<EntertainmentDetails>(initialTrip.entertainment);
+  const [rideShare, setRideShare] = useState<RideShareDetails>(initialTrip.rideShare);
 
-  const [entertainment, setEntertainment] = useState({
-    city: '',
-    selectedEvents: [] as string[],
-    quantity: {} as Record<string, number>
-  });
+  const trip = useMemo<TripState>(() => ({
+    hotel: hotelDetails,
+    flight: flightDetails,
+    carRental,
+    legs,
+    entertainment,
+    rideShare,
+    wallet
+  }), [hotelDetails, flightDetails, carRental, legs, entertainment, rideShare, wallet]);
 
-  const [costs, setCosts] = useState({
-    hotel: { cashPrice: 0, pointsSavings: 0 },
-    flight: { cashPrice: 0, pointsSavings: 0 },
-    carRental: { cashPrice: 0, pointsSavings: 0 },
-    entertainment: { cashPrice: 0, pointsSavings: 0 }
+  // Keep the address bar in sync so the current quote can always be shared or bookmarked
+  useEffect(() => {
+    window.history.replaceState(null, '', buildShareUrl(trip));
+  }, [trip]);
+
+  const [costs, setCosts] = useState<Record<CostCategory, CategoryCost>>({
+    hotel: emptyCost(),
+    flight: emptyCost(),
+    carRental: emptyCost(),
+    entertainment: emptyCost(),
+    rideShare: emptyCost()
   });
 
-  const handleHotelUpdate = useCallback((field: string, value: string | number) => {
+  // Costs of the later stops, by leg ID
+  const [legCosts, setLegCosts] = useState<Record<string, Partial<Record<StopCategory, CategoryCost>>>>({});
+  // Loaded trips reuse leg IDs, so the stops remount on each load and report their costs afresh
+  const [tripLoads, setTripLoads] = useState(0);
+
+  // Each category totalled across every stop, the way the summary and optimizer see the trip
+  const tripCosts = useMemo<Record<CostCategory, CategoryCost>>(() => {
+    const acrossStops = (category: StopCategory) => combineCosts([
+      costs[category],
+      ...legs.map(leg => legCosts[leg.id]?.[category] || emptyCost())
+    ]);
+    return { ...costs, hotel: acrossStops('hotel'), flight: acrossStops('flight'), carRental: acrossStops('carRental') };
+  }, [costs, legs, legCosts]);
+
+  const itineraryIssues = useMemo(() => checkItinerary(getStops(trip)), [trip]);
+
+  const allocationPlan = useMemo(() => optimizeAllocation(wallet.balance, {
+    hotel: tripCosts.hotel.redeemableValue,
+    flight: tripCosts.flight.redeemableValue,
+    carRental: tripCosts.carRental.redeemableValue,
+    entertainment: tripCosts.entertainment.redeemableValue
+  }), [wallet.balance, tripCosts]);
+
+  // In optimized mode the plan replaces the hand-set split; the manual split is kept for switching back
+  const activeWallet = useMemo(() => (
+    wallet.mode === 'optimized' ? { ...wallet, allocations: allocationPlan.allocations } : wallet
+  ), [wallet, allocationPlan]);
+
+  // Rides between the arrival airport and the hotel, offered whenever both are chosen
+  const transferSuggestion = useMemo(() => suggestAirportTransfer(
+    majorAirports.find(a => a.code === flightDetails.destination),
+    expandedHiltonProperties.find(p => p.id === hotelDetails.property),
+    flightDetails.tripType
+  ), [flightDetails.destination, flightDetails.tripType, hotelDetails.property]);
+
+  const carRentalLocation = useMemo(
+    () => getPickUpLocation(hotelDetails, flightDetails),
+    [hotelDetails, flightDetails]
+  );
+
+  // Later stops spend whatever each category's allocation has left after the stops before them
+  const legPoints = useMemo(() => {
+    const remaining = Object.fromEntries(STOP_CATEGORIES.map(category => (
+      [category, activeWallet.allocations[category] - costs[category].pointsUsed]
+    ))) as Record<StopCategory, number>;
+    return Object.fromEntries(legs.map(leg => {
+      const points = Object.fromEntries(STOP_CATEGORIES.map(category => (
+        [category, Math.max(0, remaining[category])]
+      ))) as Record<StopCategory, number>;
+      STOP_CATEGORIES.forEach(category => {
+        remaining[category] -= legCosts[leg.id]?.[category]?.pointsUsed || 0;
+      });
+      return [leg.id, points];
+    }));
+  }, [activeWallet, costs, legs, legCosts]);
+
+  // Cheapest nearby dates for the hotel and flight together, searched only on request
+  const [flexibleDates, setFlexibleDates] = useState(false);
+  const flexibleSearch = useMemo(() => (
+    flexibleDates ? searchFlexibleDates(hotelDetails, flightDetails) : null
+  ), [flexibleDates, hotelDetails, flightDetails]);
+
+  // Every priced hotel stay on the trip, as each would count toward elite status
+  const currentStays = useMemo<PricedStay[]>(() => [
+    { hotel: hotelDetails, cost: costs.hotel },
+    ...legs.map(leg => ({ hotel: leg.hotel, cost: legCosts[leg.id]?.hotel }))
+  ].flatMap(({ hotel, cost }) => {
+    const property = expandedHiltonProperties.find(p => p.id === hotel.property);
+    if (!property) return [];
+    return [{
+      name: property.name,
+      checkIn: hotel.checkIn,
+      checkOut: hotel.checkOut,
+      nights: Math.max(0, daysBetween(hotel.checkIn, hotel.checkOut)),
+      basePoints: (cost && earningsBySource(cost.earnings).base) || 0
+    }];
+  }), [hotelDetails, costs.hotel, legs, legCosts]);
+
+  const loadTrip = useCallback((next: TripState) => {
+    setHotelDetails(next.hotel);
+    setFlightDetails(next.flight);
+    setCarRental(next.carRental);
+    setLegs(next.legs);
+    setLegCosts({});
+    setTripLoads(count => count + 1);
+    setEntertainment(next.entertainment);
+    setRideShare(next.rideShare);
+    setWallet(next.wallet);
+  }, []);
+
+  const handleHotelUpdate = useCallback((field: string, value: string | number | boolean | HotelRoom[]) => {
     setHotelDetails(prev => ({ ...prev, [field]: value }));
     if (field === 'property') {
       const selectedProperty = expandedHiltonProperties.find(p => p.id === value);
@@ -56,43 +191,165 @@ export default function Calculator() {
     }
   }, []);
 
-  const handleFlightUpdate = useCallback((field: string, value: string | number) => {
+  const handleFlightUpdate = useCallback((field: string, value: string | number | FlightSegment[] | PassengerCounts) => {
     setFlightDetails(prev => ({ ...prev, [field]: value }));
+    // The flight's travelers are the hotel's guests
+    if (field === 'passengers') {
+      setHotelDetails(prev => ({ ...prev, rooms: spreadGuests(prev.rooms, toHotelGuests(value as PassengerCounts)) }));
+    }
   }, []);
 
   const handleCarRentalUpdate = useCallback((field: string, value: string | number) => {
     setCarRental(prev => ({ ...prev, [field]: value }));
   }, []);
 
+  const handleAddLeg = useCallback(() => {
+    setLegs(prev => [...prev, createLeg(getStops({ hotel: hotelDetails, flight: flightDetails, carRental, legs: prev }).slice(-1)[0])]);
+  }, [hotelDetails, flightDetails, carRental]);
+
+  const handleLegUpdate = useCallback((
+    id: string,
+    category: StopCategory,
+    field: string,
+    value: string | number | boolean | HotelRoom[] | FlightSegment[] | PassengerCounts
+  ) => {
+    setLegs(prev => prev.map(leg => {
+      if (leg.id !== id || !leg[category]) return leg;
+      const next = { ...leg, [category]: { ...leg[category], [field]: value } };
+      return category === 'flight' && field === 'passengers'
+        ? { ...next, hotel: { ...next.hotel, rooms: spreadGuests(next.hotel.rooms, toHotelGuests(value as PassengerCounts)) } }
+        : next;
+    }));
+  }, []);
+
+  const handleToggleLegCar = useCallback((id: string, enabled: boolean) => {
+    setLegs(prev => prev.map(leg => leg.id === id
+      ? { ...leg, carRental: enabled ? { company: '', category: '', days: 0 } : null }
+      : leg));
+    if (!enabled) setLegCosts(prev => ({ ...prev, [id]: { ...prev[id], carRental: undefined } }));
+  }, []);
+
+  const handleRemoveLeg = useCallback((id: string) => {
+    setLegs(prev => prev.filter(leg => leg.id !== id));
+    setLegCosts(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const handleLegCostUpdate = useCallback((id: string, category: StopCategory, cost: CategoryCost) => {
+    setLegCosts(prev => ({ ...prev, [id]: { ...prev[id], [category]: cost } }));
+  }, []);
+
   const handleEntertainmentUpdate = useCallback((field: string, value: any) => {
     setEntertainment(prev => ({ ...prev, [field]: value }));
   }, []);
 
-  const handleHotelCostUpdate = useCallback((newCost: { cashPrice: number; pointsSavings: number }) => {
+  const handleRideShareUpdate = useCallback((field: string, value: string | number) => {
+    setRideShare(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const handleApplyTransferSuggestion = useCallback(() => {
+    if (!transferSuggestion) return;
+    setRideShare(prev => ({
+      ...prev,
+      estimatedMiles: transferSuggestion.estimatedMiles,
+      estimatedMinutes: transferSuggestion.estimatedMinutes,
+      numberOfRides: transferSuggestion.numberOfRides
+    }));
+  }, [transferSuggestion]);
+
+  const handleApplyFlexibleDates = useCallback((option: FlexibleDateOption) => {
+    setHotelDetails(prev => ({ ...prev, checkIn: option.checkIn, checkOut: option.checkOut }));
+    setFlightDetails(prev => shiftFlightDates(prev, option.shift));
+  }, []);
+
+  const handleBalanceChange = useCallback((balance: number) => {
+    setWallet(prev => setWalletBalance(prev, balance));
+  }, []);
+
+  const handleAllocate = useCallback((category: PointsCategory, points: number) => {
+    setWallet(prev => allocatePoints(prev, category, points));
+  }, []);
+
+  const handleWalletModeChange = useCallback((mode: 'manual' | 'optimized') => {
+    setWallet(prev => ({ ...prev, mode }));
+  }, []);
+
+  const handleTierChange = useCallback((tier: EliteTier) => {
+    setWallet(prev => ({ ...prev, tier }));
+  }, []);
+
+  const handleBaselineChange = useCallback((baselineCents: number) => {
+    setWallet(prev => ({ ...prev, baselineCents: Math.min(10, Math.max(0, baselineCents) || 0) }));
+  }, []);
+
+  const handleHotelCostUpdate = useCallback((newCost: CategoryCost) => {
     setCosts(prev => ({ ...prev, hotel: newCost }));
   }, []);
 
-  const handleFlightCostUpdate = useCallback((newCost: { cashPrice: number; pointsSavings: number }) => {
+  const handleFlightCostUpdate = useCallback((newCost: CategoryCost) => {
     setCosts(prev => ({ ...prev, flight: newCost }));
   }, []);
 
-  const handleCarRentalCostUpdate = useCallback((newCost: { cashPrice: number; pointsSavings: number }) => {
+  const handleCarRentalCostUpdate = useCallback((newCost: CategoryCost) => {
     setCosts(prev => ({ ...prev, carRental: newCost }));
   }, []);
 
-  const handleEntertainmentCostUpdate = useCallback((newCost: { cashPrice: number; pointsSavings: number }) => {
+  const handleEntertainmentCostUpdate = useCallback((newCost: CategoryCost) => {
     setCosts(prev => ({ ...prev, entertainment: newCost }));
   }, []);
 
+  const handleRideShareCostUpdate = useCallback((newCost: CategoryCost) => {
+    setCosts(prev => ({ ...prev, rideShare: newCost }));
+  }, []);
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 grid grid-cols-1 lg:grid-cols-[18rem_minmax(0,1fr)] gap-8 items-start">
+        <SavedTripsSidebar currentTrip={trip} onLoad={loadTrip} />
+
         <div className="space-y-8">
+          {linkNotice && (
+            <div className="flex items-start justify-between gap-4 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg px-4 py-3 text-sm">
+              <span>{linkNotice}</span>
+              <button type="button" className="font-medium hover:underline" onClick={() => setLinkNoticeDismissed(true)}>
+                {t('common.dismiss')}
+              </button>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <ShareTripButton trip={trip} />
+          </div>
+
+          <div className="bg-white rounded-xl p-6 shadow-sm">
+            <PointsWalletPanel
+              wallet={activeWallet}
+              onBalanceChange={handleBalanceChange}
+              onAllocate={handleAllocate}
+              onModeChange={handleWalletModeChange}
+              onTierChange={handleTierChange}
+              onBaselineChange={handleBaselineChange}
+            />
+          </div>
+
+          <div className="bg-white rounded-xl p-6 shadow-sm">
+            <ExchangeRatePanel />
+          </div>
+
           <div className="bg-white rounded-xl p-6 shadow-sm">
             <HotelSelector
               details={hotelDetails}
               onUpdate={handleHotelUpdate}
               onCostUpdate={handleHotelCostUpdate}
+              points={activeWallet.allocations.hotel}
+              tier={wallet.tier}
+              baselineCents={wallet.baselineCents}
+              flexibleDates={flexibleDates}
+              flexibleSearch={flexibleSearch}
+              onFlexibleDatesChange={setFlexibleDates}
+              onApplyFlexibleDates={handleApplyFlexibleDates}
             />
           </div>
 
@@ -101,7 +358,11 @@ export default function Calculator() {
               details={flightDetails}
               onUpdate={handleFlightUpdate}
               onCostUpdate={handleFlightCostUpdate}
-              points={Number(hotelDetails.points) || 0}
+              points={activeWallet.allocations.flight}
+              flexibleDates={flexibleDates}
+              flexibleSearch={flexibleSearch}
+              onFlexibleDatesChange={setFlexibleDates}
+              onApplyFlexibleDates={handleApplyFlexibleDates}
             />
           </div>
 
@@ -110,33 +371,68 @@ export default function Calculator() {
               details={carRental}
               onUpdate={handleCarRentalUpdate}
               onCostUpdate={handleCarRentalCostUpdate}
-              points={Number(hotelDetails.points) || 0}
+              points={activeWallet.allocations.carRental}
+              location={carRentalLocation}
             />
           </div>
 
+          <ItineraryPanel
+            key={tripLoads}
+            legs={legs}
+            issues={itineraryIssues}
+            points={legPoints}
+            tier={wallet.tier}
+            baselineCents={wallet.baselineCents}
+            onAdd={handleAddLeg}
+            onUpdate={handleLegUpdate}
+            onToggleCar={handleToggleLegCar}
+            onRemove={handleRemoveLeg}
+            onCostUpdate={handleLegCostUpdate}
+          />
+
           <div className="bg-white rounded-xl p-6 shadow-sm">
             <EntertainmentSelector
               details={entertainment}
+              defaultQuantity={countEventTickets(flightDetails.passengers)}
               onUpdate={handleEntertainmentUpdate}
               onCostUpdate={handleEntertainmentCostUpdate}
-              points={Number(hotelDetails.points) || 0}
+              points={activeWallet.allocations.entertainment}
+            />
+          </div>
+
+          <div className="bg-white rounded-xl p-6 shadow-sm">
+            <RideShareSelector
+              details={rideShare}
+              onUpdate={handleRideShareUpdate}
+              onCostUpdate={handleRideShareCostUpdate}
+              suggestion={transferSuggestion}
+              onApplySuggestion={handleApplyTransferSuggestion}
             />
           </div>
 
           <TotalCostSummary
-            hotelCost={costs.hotel}
-            flightCost={costs.flight}
-            carRentalCost={costs.carRental}
-            entertainmentCost={costs.entertainment}
+            hotelCost={tripCosts.hotel}
+            flightCost={tripCosts.flight}
+            carRentalCost={tripCosts.carRental}
+            entertainmentCost={tripCosts.entertainment}
+            rideShareCost={tripCosts.rideShare}
+            wallet={activeWallet}
+            allocationPlan={wallet.mode === 'optimized' ? allocationPlan : undefined}
           />
 
+          <ScenarioComparison currentTrip={trip} currentCosts={tripCosts} onLoad={loadTrip} />
+
+          {/* Benefits extend to every room booked, with breakfast for up to two adults in each */}
           <DiamondBenefits
             checkIn={hotelDetails.checkIn}
             checkOut={hotelDetails.checkOut}
-            adults={flightDetails.passengers}
-            points={Number(hotelDetails.points) || 0}
+            rooms={hotelDetails.rooms}
+            points={earningsBySource(costs.hotel.earnings).base || 0}
+            tier={wallet.tier}
           />
 
+          <StatusTracker currentStays={currentStays} />
+
           <PricingSources />
         </div>
       </div>
@@ -1,6 +1,15 @@
 import React, { useEffect, useMemo } from 'react';
 import { Car } from 'lucide-react';
 import { carRentals } from '../data/travelData';
+import { CategoryCost } from '../types';
+import { REDEMPTION_RULES, redeemPoints } from '../points/wallet';
+import { earnCarRentalPoints, sumEarnings } from '../points/earnings';
+import { CarRentalPriceBreakdown, priceCarRental, carRentalLineItems } from '../pricing/carRental';
+import { emptyCost, pointsLineItem, compactLineItems } from '../pricing/lineItems';
+import { TaxLocation } from '../pricing/jurisdictions';
+import TaxJurisdictionNote from './TaxJurisdictionNote';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
 
 interface CarRentalSelectorProps {
   details: {
@@ -9,58 +18,42 @@ interface CarRentalSelectorProps {
     days: number;
   };
   onUpdate: (field: string, value: string | number) => void;
-  onCostUpdate: (cost: { cashPrice: number; pointsSavings: number }) => void;
+  onCostUpdate: (cost: CategoryCost) => void;
   points: number;
+  location?: TaxLocation;
 }
 
-export default function CarRentalSelector({ details, onUpdate, onCostUpdate, points }: CarRentalSelectorProps) {
-  const costs = useMemo(() => {
-    if (!details.company || details.days <= 0) return { cashPrice: 0, pointsSavings: 0 };
+export default function CarRentalSelector({ details, onUpdate, onCostUpdate, points, location }: CarRentalSelectorProps) {
+  const { format } = useCurrency();
+  const { t, formatPoints, formatPercent } = useI18n();
+  const costs = useMemo<CategoryCost & { details?: CarRentalPriceBreakdown }>(() => {
+    if (!details.company || details.days <= 0) return emptyCost();
 
     const rental = carRentals.find(r => r.company === details.company);
-    if (!rental) return { cashPrice: 0, pointsSavings: 0 };
+    if (!rental) return emptyCost();
 
-    const categoryMultiplier = rental.categories[details.category as keyof typeof rental.categories] || 1;
-    const dailyRate = rental.basePrice * categoryMultiplier;
-    const baseRental = dailyRate * details.days;
+    const breakdown = priceCarRental({ rental, category: details.category, days: details.days, location });
+    const cashPrice = breakdown.total;
 
-    // Calculate fees and taxes
-    const insuranceFee = 15 * details.days; // Daily insurance fee
-    const airportFee = 25; // One-time airport fee
-    const vehicleLicenseFee = 8.50;
-    const facilityFee = 12;
-    const totalFees = insuranceFee + airportFee + vehicleLicenseFee + facilityFee;
-
-    // Apply length discounts
-    let discount = 0;
-    if (details.days >= 7) {
-      discount = 0.15; // 15% off for weekly rentals
-    } else if (details.days >= 3) {
-      discount = 0.10; // 10% off for 3+ days
-    }
-
-    const discountedBase = baseRental * (1 - discount);
-    const subtotal = discountedBase + totalFees;
-
-    // Calculate taxes
-    const salesTax = subtotal * 0.0825; // 8.25% sales tax
-    const rentalTax = baseRental * 0.115; // 11.5% rental tax
-    const totalTaxes = salesTax + rentalTax;
-
-    const cashPrice = subtotal + totalTaxes;
-    const pointsSavings = Math.min(points * 0.008, cashPrice * 0.5); // Max 50% of rental cost with points
+    const { rate, maxCoverage } = REDEMPTION_RULES.carRental; // Max 50% of rental cost with points
+    const redemption = redeemPoints(points, rate, cashPrice * maxCoverage);
+    // Partner points are earned on the rental itself, less whatever points covered
+    const earnings = earnCarRentalPoints(rental.honorsPointsPerDollar, breakdown.discountedBase - redemption.savings);
 
     return {
-      cashPrice: Math.round(cashPrice * 100) / 100,
-      pointsSavings: Math.round(pointsSavings * 100) / 100,
-      details: {
-        baseRate: dailyRate,
-        discount,
-        fees: totalFees,
-        taxes: totalTaxes
-      }
+      cashPrice,
+      pointsSavings: redemption.savings,
+      pointsUsed: redemption.pointsUsed,
+      redeemableValue: Math.round(cashPrice * maxCoverage * 100) / 100,
+      pointsEarned: sumEarnings(earnings),
+      lineItems: compactLineItems([
+        ...carRentalLineItems(breakdown),
+        pointsLineItem(redemption.pointsUsed, redemption.savings)
+      ]),
+      earnings,
+      details: breakdown
     };
-  }, [details, points]);
+  }, [details, points, location]);
 
   useEffect(() => {
     onCostUpdate(costs);
@@ -70,20 +63,20 @@ export default function CarRentalSelector({ details, onUpdate, onCostUpdate, poi
     <div className="space-y-4">
       <div className="flex items-center gap-2 mb-4">
         <Car className="w-5 h-5 text-hilton-blue" />
-        <h2 className="text-xl font-semibold text-hilton-blue">Car Rental</h2>
+        <h2 className="text-xl font-semibold text-hilton-blue">{t('car.title')}</h2>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Rental Company
+            {t('car.company')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.company}
             onChange={(e) => onUpdate('company', e.target.value)}
           >
-            <option value="">Select Company</option>
+            <option value="">{t('car.selectCompany')}</option>
             {carRentals.map((rental) => (
               <option key={rental.company} value={rental.company}>
                 {rental.company}
@@ -94,24 +87,24 @@ export default function CarRentalSelector({ details, onUpdate, onCostUpdate, poi
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Car Category
+            {t('car.category')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.category}
             onChange={(e) => onUpdate('category', e.target.value)}
           >
-            <option value="">Select Category</option>
-            <option value="economy">Economy</option>
-            <option value="midsize">Midsize</option>
-            <option value="luxury">Luxury</option>
+            <option value="">{t('car.selectCategory')}</option>
+            <option value="economy">{t('car.economy')}</option>
+            <option value="midsize">{t('car.midsize')}</option>
+            <option value="luxury">{t('car.luxury')}</option>
             <option value="suv">SUV</option>
           </select>
         </div>
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Rental Days
+            {t('car.days')}
           </label>
           <input
             type="number"
@@ -127,59 +120,65 @@ export default function CarRentalSelector({ details, onUpdate, onCostUpdate, poi
         <div className="mt-6 bg-hilton-gray-50 rounded-lg p-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div className="space-y-4">
-              <h3 className="font-medium text-hilton-gray-700">Rate Details</h3>
+              <h3 className="font-medium text-hilton-gray-700">{t('common.rateDetails')}</h3>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span className="text-hilton-gray-600">Base Rate (per day):</span>
-                  <span className="font-medium">${costs.details?.baseRate.toFixed(2)}</span>
+                  <span className="text-hilton-gray-600">{t('car.dailyRate')}</span>
+                  <span className="font-medium">{format(costs.details?.dailyRate ?? 0)}</span>
                 </div>
 
-                {costs.details?.discount > 0 && (
+                {costs.details && costs.details.discount > 0 && (
                   <div className="flex justify-between text-green-600">
-                    <span>Length Discount:</span>
-                    <span className="font-medium">-{(costs.details.discount * 100)}%</span>
+                    <span>{t('car.lengthDiscount')}</span>
+                    <span className="font-medium">-{formatPercent(costs.details.discount)}</span>
                   </div>
                 )}
 
                 <div className="pt-2 border-t">
                   <div className="flex justify-between">
-                    <span className="text-hilton-gray-600">Fees & Surcharges:</span>
-                    <span className="font-medium">${costs.details?.fees.toFixed(2)}</span>
+                    <span className="text-hilton-gray-600">{t('common.feesAndSurcharges')}</span>
+                    <span className="font-medium">{format(costs.details?.fees.total ?? 0)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-hilton-gray-600">Taxes:</span>
-                    <span className="font-medium">${costs.details?.taxes.toFixed(2)}</span>
+                    <span className="text-hilton-gray-600">{t('common.taxes')}</span>
+                    <span className="font-medium">{format(costs.details?.taxes.total ?? 0)}</span>
                   </div>
+                  {costs.details && (
+                    <TaxJurisdictionNote
+                      jurisdiction={costs.details.taxes.jurisdiction}
+                      place={location && [location.city, location.country].filter(Boolean).join(', ')}
+                    />
+                  )}
                 </div>
               </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                <p className="text-sm text-hilton-gray-600 mb-1">Total Cost</p>
+                <p className="text-sm text-hilton-gray-600 mb-1">{t('common.totalCost')}</p>
                 <p className="text-2xl font-bold text-hilton-gray-900">
-                  ${costs.cashPrice.toFixed(2)}
+                  {format(costs.cashPrice)}
                 </p>
                 <p className="text-xs text-hilton-gray-500 mt-1">
-                  All taxes & fees included
+                  {t('common.allTaxesIncluded')}
                 </p>
               </div>
               <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                <p className="text-sm text-hilton-gray-600 mb-1">Points Value</p>
+                <p className="text-sm text-hilton-gray-600 mb-1">{t('common.pointsValue')}</p>
                 <p className="text-2xl font-bold text-purple-600">
-                  ${costs.pointsSavings.toFixed(2)}
+                  {format(costs.pointsSavings)}
                 </p>
                 <p className="text-xs text-hilton-gray-500 mt-1">
-                  Using Hilton Points
+                  {t('common.usingPoints', { points: formatPoints(costs.pointsUsed) })}
                 </p>
               </div>
               <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                <p className="text-sm text-hilton-gray-600 mb-1">Final Cost</p>
+                <p className="text-sm text-hilton-gray-600 mb-1">{t('common.finalCost')}</p>
                 <p className="text-2xl font-bold text-green-600">
-                  ${(costs.cashPrice - costs.pointsSavings).toFixed(2)}
+                  {format(costs.cashPrice - costs.pointsSavings)}
                 </p>
                 <p className="text-xs text-hilton-gray-500 mt-1">
-                  After points savings
+                  {t('common.afterPointsSavings')}
                 </p>
               </div>
             </div>
@@ -0,0 +1,43 @@
+import { LineItem, LineItemLabel } from '../types';
+import { sumLineItems } from '../pricing/lineItems';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface CostBreakdownProps {
+  items: LineItem[];
+  totalLabel?: string;
+}
+
+export default function CostBreakdown({ items, totalLabel }: CostBreakdownProps) {
+  const { format } = useCurrency();
+  const { t, tn, formatNumber } = useI18n();
+
+  // Numbers in a label, like the points redeemed, use the locale's digit grouping
+  const translateLabel = (label: LineItemLabel) => {
+    const params = Object.fromEntries(Object.entries(label.params ?? {}).map(([name, value]) =>
+      [name, typeof value === 'number' ? formatNumber(value) : value]));
+    return 'count' in label ? tn(label.key, label.count, params) : t(label.key, params);
+  };
+
+  if (!items.length) {
+    return <p className="text-sm text-white/70">{t('breakdown.empty')}</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {items.map((item, index) => (
+        <li
+          key={`${item.kind}-${item.label.key}-${index}`}
+          className={`flex justify-between gap-4 ${item.amount < 0 ? 'text-green-300' : 'text-white/90'}`}
+        >
+          <span>{translateLabel(item.label)}</span>
+          <span className="font-medium tabular-nums">{format(item.amount)}</span>
+        </li>
+      ))}
+      <li className="flex justify-between gap-4 pt-1 mt-1 border-t border-white/20 font-semibold">
+        <span>{totalLabel || t('breakdown.netTotal')}</span>
+        <span className="tabular-nums">{format(sumLineItems(items))}</span>
+      </li>
+    </ul>
+  );
+}
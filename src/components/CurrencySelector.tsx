@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { Coins } from 'lucide-react';
+import { CurrencyCode, CURRENCY_CODES, CURRENCY_NAMES, isCurrencyCode } from '../currency/currencies';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+export default function CurrencySelector() {
+  const { displayCurrency, setDisplayCurrency } = useCurrency();
+  const { intlLocale, t } = useI18n();
+
+  // Currency names in the current language, falling back to English where Intl has none
+  const currencyName = useMemo(() => {
+    const names = new Intl.DisplayNames([intlLocale], { type: 'currency' });
+    return (code: CurrencyCode) => names.of(code) || CURRENCY_NAMES[code];
+  }, [intlLocale]);
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm">
+      <Coins className="w-4 h-4" />
+      <span className="sr-only">{t('app.displayCurrency')}</span>
+      <select
+        className="bg-white/10 border border-white/30 rounded-md px-2 py-1 text-white"
+        value={displayCurrency}
+        onChange={(e) => {
+          if (isCurrencyCode(e.target.value)) setDisplayCurrency(e.target.value);
+        }}
+      >
+        {CURRENCY_CODES.map((code) => (
+          <option key={code} value={code} className="text-hilton-gray-900">
+            {code} · {currencyName(code)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
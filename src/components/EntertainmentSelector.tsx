@@ -1,6 +1,11 @@
 import React, { useEffect, useMemo } from 'react';
 import { Ticket, ExternalLink } from 'lucide-react';
 import { entertainmentByCity } from '../data/entertainmentData';
+import { CategoryCost, LineItem } from '../types';
+import { REDEMPTION_RULES, redeemPoints } from '../points/wallet';
+import { emptyCost, pointsLineItem, compactLineItems } from '../pricing/lineItems';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
 
 interface EntertainmentSelectorProps {
   details: {
@@ -8,17 +13,22 @@ interface EntertainmentSelectorProps {
     selectedEvents: string[];
     quantity: Record<string, number>;
   };
+  defaultQuantity?: number; // Tickets per event until the user picks a number, usually the trip's travelers
   onUpdate: (field: string, value: any) => void;
-  onCostUpdate: (cost: { cashPrice: number; pointsSavings: number }) => void;
+  onCostUpdate: (cost: CategoryCost) => void;
   points: number;
 }
 
 export default function EntertainmentSelector({
   details,
+  defaultQuantity = 1,
   onUpdate,
   onCostUpdate,
   points
 }: EntertainmentSelectorProps) {
+  const fallbackQuantity = Math.max(1, defaultQuantity);
+  const { format } = useCurrency();
+  const { t, formatPercent } = useI18n();
   const availableEvents = useMemo(() => {
     return details.city ? entertainmentByCity[details.city] || [] : [];
   }, [details.city]);
@@ -34,31 +44,46 @@ export default function EntertainmentSelector({
   }, [availableEvents]);
 
   const costs = useMemo(() => {
-    if (!details.selectedEvents.length) return { cashPrice: 0, pointsSavings: 0 };
+    if (!details.selectedEvents.length) return emptyCost();
 
     let totalCash = 0;
     let totalSavings = 0;
+    let totalRedeemable = 0;
+    let pointsRemaining = points;
+    const lineItems: LineItem[] = [];
 
     details.selectedEvents.forEach(eventId => {
       const event = availableEvents.find(e => e.id === eventId);
       if (!event) return;
 
-      const quantity = details.quantity[eventId] || 1;
+      const quantity = details.quantity[eventId] || fallbackQuantity;
       const eventTotal = event.basePrice * quantity;
       totalCash += eventTotal;
+      lineItems.push({ label: { key: 'lineItem.event', params: { name: event.name, quantity } }, amount: eventTotal, kind: 'base' });
 
-      if (event.pointsEligible && points > 0) {
-        const maxDiscount = eventTotal * event.maxPointsDiscount;
-        const pointsValue = points * 0.005;
-        totalSavings += Math.min(maxDiscount, pointsValue);
+      if (!event.pointsEligible) return;
+
+      const maxDiscount = eventTotal * event.maxPointsDiscount;
+      totalRedeemable += maxDiscount;
+
+      // Each eligible event draws from whatever is left of the entertainment allocation
+      if (pointsRemaining > 0) {
+        const redemption = redeemPoints(pointsRemaining, REDEMPTION_RULES.entertainment.rate, maxDiscount);
+        totalSavings += redemption.savings;
+        pointsRemaining -= redemption.pointsUsed;
       }
     });
 
     return {
       cashPrice: Math.round(totalCash * 100) / 100,
-      pointsSavings: Math.round(totalSavings * 100) / 100
+      pointsSavings: Math.round(totalSavings * 100) / 100,
+      pointsUsed: points - pointsRemaining,
+      redeemableValue: Math.round(totalRedeemable * 100) / 100,
+      pointsEarned: 0,
+      lineItems: compactLineItems([...lineItems, pointsLineItem(points - pointsRemaining, totalSavings)]),
+      earnings: []
     };
-  }, [details.selectedEvents, details.quantity, availableEvents, points]);
+  }, [details.selectedEvents, details.quantity, fallbackQuantity, availableEvents, points]);
 
   useEffect(() => {
     onCostUpdate(costs);
@@ -82,7 +107,7 @@ export default function EntertainmentSelector({
   if (!details.city) {
     return (
       <div className="text-center py-8 text-gray-500">
-        Please select a hotel to view available entertainment options for that location.
+        {t('entertainment.selectHotel')}
       </div>
     );
   }
@@ -90,7 +115,7 @@ export default function EntertainmentSelector({
   if (!availableEvents.length) {
     return (
       <div className="text-center py-8 text-gray-500">
-        No entertainment options are currently available for this location.
+        {t('entertainment.none')}
       </div>
     );
   }
@@ -99,7 +124,7 @@ export default function EntertainmentSelector({
     <div className="space-y-4">
       <div className="flex items-center gap-2 mb-4">
         <Ticket className="w-5 h-5 text-hilton-blue" />
-        <h2 className="text-xl font-semibold text-hilton-blue">Entertainment & Activities in {details.city}</h2>
+        <h2 className="text-xl font-semibold text-hilton-blue">{t('entertainment.title', { city: details.city })}</h2>
       </div>
 
       {Object.entries(eventsByCategory).map(([category, events]) => (
@@ -142,7 +167,7 @@ export default function EntertainmentSelector({
                             {event.category}
                           </span>
                           <span className="text-sm text-gray-500">
-                            at {event.location}
+                            {t('entertainment.location', { location: event.location })}
                           </span>
                         </div>
                       </div>
@@ -151,21 +176,21 @@ export default function EntertainmentSelector({
                   
                   <div className="flex items-center gap-4">
                     <div className="text-right">
-                      <p className="font-medium text-gray-900">${event.basePrice}/person</p>
+                      <p className="font-medium text-gray-900">{t('entertainment.perPerson', { price: format(event.basePrice) })}</p>
                       {event.pointsEligible && (
                         <p className="text-sm text-green-600">
-                          Up to {(event.maxPointsDiscount * 100)}% with points
+                          {t('entertainment.pointsDiscount', { percent: formatPercent(event.maxPointsDiscount) })}
                         </p>
                       )}
                     </div>
                     
                     {details.selectedEvents.includes(event.id) && (
                       <div className="w-24">
-                        <label className="sr-only">Quantity</label>
+                        <label className="sr-only">{t('entertainment.quantity')}</label>
                         <input
                           type="number"
                           min="1"
-                          value={details.quantity[event.id] || 1}
+                          value={details.quantity[event.id] || fallbackQuantity}
                           onChange={(e) => handleQuantityChange(event.id, Number(e.target.value))}
                           className="hilton-input w-full"
                         />
@@ -182,21 +207,21 @@ export default function EntertainmentSelector({
       {details.selectedEvents.length > 0 && (
         <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 bg-hilton-gray-50 p-4 rounded-lg">
           <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-            <p className="text-sm text-gray-600 mb-1">Total Cost</p>
+            <p className="text-sm text-gray-600 mb-1">{t('common.totalCost')}</p>
             <p className="text-2xl font-bold text-gray-900">
-              ${costs.cashPrice.toFixed(2)}
+              {format(costs.cashPrice)}
             </p>
           </div>
           <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-            <p className="text-sm text-gray-600 mb-1">Points Savings</p>
+            <p className="text-sm text-gray-600 mb-1">{t('common.pointsSavings')}</p>
             <p className="text-2xl font-bold text-purple-600">
-              ${costs.pointsSavings.toFixed(2)}
+              {format(costs.pointsSavings)}
             </p>
           </div>
           <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-            <p className="text-sm text-gray-600 mb-1">Final Cost</p>
+            <p className="text-sm text-gray-600 mb-1">{t('common.finalCost')}</p>
             <p className="text-2xl font-bold text-green-600">
-              ${(costs.cashPrice - costs.pointsSavings).toFixed(2)}
+              {format(costs.cashPrice - costs.pointsSavings)}
             </p>
           </div>
         </div>
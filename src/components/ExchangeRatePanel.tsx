@@ -0,0 +1,122 @@
+import { useState, ChangeEvent } from 'react';
+import { ArrowLeftRight, ChevronDown, ChevronUp, FileUp, RotateCcw } from 'lucide-react';
+import { BASE_CURRENCY, CURRENCY_CODES, CURRENCY_NAMES } from '../currency/currencies';
+import { RateImportIssue, parseRateImport } from '../currency/exchangeRates';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+export default function ExchangeRatePanel() {
+  const { displayCurrency, rates, updatedAt, setRate, applyRates, resetRates } = useCurrency();
+  const { t, formatDate } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importIssues, setImportIssues] = useState<RateImportIssue[]>([]);
+
+  const handleImport = (text: string) => {
+    const result = parseRateImport(text);
+    if (Object.keys(result.rates).length) {
+      applyRates(result.rates);
+      setImportText('');
+    }
+    setImportIssues(result.issues);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleImport(await file.text());
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <button
+        type="button"
+        className="flex items-center justify-between w-full"
+        onClick={() => setOpen(prev => !prev)}
+      >
+        <span className="flex items-center gap-2">
+          <ArrowLeftRight className="w-5 h-5 text-hilton-blue" />
+          <span className="text-xl font-semibold text-hilton-blue">{t('rates.title')}</span>
+        </span>
+        <span className="flex items-center gap-2 text-sm text-hilton-gray-500">
+          {updatedAt ? t('rates.custom', { date: formatDate(updatedAt) }) : t('rates.default')}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {open && (
+        <>
+          <p className="text-sm text-hilton-gray-500">
+            {t('rates.help', { base: BASE_CURRENCY })}
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {CURRENCY_CODES.filter(code => code !== BASE_CURRENCY).map((code) => (
+              <label
+                key={code}
+                className={`block p-2 rounded-lg border ${code === displayCurrency ? 'border-hilton-blue' : 'border-hilton-gray-200'}`}
+                title={CURRENCY_NAMES[code]}
+              >
+                <span className="block text-xs font-medium text-hilton-gray-600 mb-1">{code}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="hilton-input w-full text-sm"
+                  value={rates[code]}
+                  onChange={(e) => setRate(code, Number(e.target.value))}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-hilton-gray-700">
+              {t('rates.import')}
+            </label>
+            <textarea
+              className="hilton-input w-full font-mono text-sm"
+              rows={3}
+              placeholder={t('rates.importPlaceholder')}
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+            />
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                type="button"
+                className="hilton-button disabled:opacity-50"
+                disabled={!importText.trim()}
+                onClick={() => handleImport(importText)}
+              >
+                {t('rates.importButton')}
+              </button>
+              <label className="inline-flex items-center gap-2 text-sm text-hilton-blue cursor-pointer">
+                <FileUp className="w-4 h-4" />
+                {t('rates.upload')}
+                <input type="file" accept=".json,.csv,.txt" className="hidden" onChange={handleFile} />
+              </label>
+              <button
+                type="button"
+                className="inline-flex items-center gap-2 text-sm text-hilton-gray-600 hover:text-hilton-blue ml-auto"
+                onClick={() => {
+                  resetRates();
+                  setImportIssues([]);
+                }}
+              >
+                <RotateCcw className="w-4 h-4" />
+                {t('rates.reset')}
+              </button>
+            </div>
+            {importIssues.length > 0 && (
+              <ul className="text-sm text-yellow-700 list-disc list-inside">
+                {importIssues.map((issue, index) => (
+                  <li key={index}>{t(`rates.issue.${issue.code}`, { currency: issue.currency ?? '' })}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
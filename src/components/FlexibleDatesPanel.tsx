@@ -0,0 +1,71 @@
+import { CalendarRange } from 'lucide-react';
+import { FLEXIBLE_WINDOW_DAYS, FlexibleDateOption, FlexibleDateSearch } from '../trips/flexibleDates';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface FlexibleDatesPanelProps {
+  enabled: boolean;
+  search: FlexibleDateSearch | null;
+  onToggle: (enabled: boolean) => void;
+  onApply: (option: FlexibleDateOption) => void;
+}
+
+export default function FlexibleDatesPanel({ enabled, search, onToggle, onApply }: FlexibleDatesPanelProps) {
+  const { format } = useCurrency();
+  const { t, formatDate } = useI18n();
+
+  const describeDates = (option: FlexibleDateOption) => [
+    option.checkIn && option.checkOut
+      ? t('flexible.stay', { checkIn: formatDate(option.checkIn), checkOut: formatDate(option.checkOut) })
+      : '',
+    option.departDate ? t('flexible.departs', { date: formatDate(option.departDate) }) : ''
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-hilton-gray-700">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+        <CalendarRange className="w-4 h-4 text-hilton-blue" />
+        {t('flexible.toggle', { days: FLEXIBLE_WINDOW_DAYS })}
+      </label>
+
+      {enabled && !search && (
+        <p className="text-sm text-hilton-gray-500">{t('flexible.needsDates')}</p>
+      )}
+
+      {enabled && search && (
+        <div className="rounded-lg border border-hilton-gray-200 divide-y divide-hilton-gray-100">
+          {search.options.map((option) => {
+            const difference = option.total - search.current.total;
+            return (
+              <div key={option.shift} className="flex items-center gap-3 p-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-hilton-gray-900">{describeDates(option)}</p>
+                  <p className="text-xs text-hilton-gray-500">
+                    {t('flexible.split', { hotel: format(option.hotelCost), flight: format(option.flightCost) })}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold text-hilton-gray-900">{format(option.total)}</p>
+                  {option.shift !== 0 && (
+                    <p className={`text-xs ${difference < 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {difference < 0 ? '-' : '+'}{format(Math.abs(difference))}
+                    </p>
+                  )}
+                </div>
+                {option.shift === 0 ? (
+                  <span className="text-xs text-hilton-gray-500 w-16 text-center">{t('flexible.current')}</span>
+                ) : (
+                  <button type="button" className="hilton-button text-sm w-16" onClick={() => onApply(option)}>
+                    {t('flexible.apply')}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <p className="p-3 text-xs text-hilton-gray-500">{t('flexible.footnote')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { Plus, Route, Trash2 } from 'lucide-react';
+import { FlightSegment } from '../types';
+import { majorAirports, flightClasses } from '../data/travelData';
+import { MAX_FLIGHT_SEGMENTS, createSegment } from '../pricing/flight';
+import { useI18n } from '../i18n/I18nContext';
+
+interface FlightSegmentsProps {
+  first: FlightSegment; // The outbound flight, edited above
+  segments: FlightSegment[];
+  onChange: (segments: FlightSegment[]) => void;
+}
+
+export default function FlightSegments({ first, segments, onChange }: FlightSegmentsProps) {
+  const { t } = useI18n();
+
+  const updateSegment = (index: number, changes: Partial<FlightSegment>) =>
+    onChange(segments.map((segment, i) => i === index ? { ...segment, ...changes } : segment));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Route className="w-5 h-5 text-hilton-blue" />
+          <h3 className="text-sm font-medium text-hilton-gray-700">{t('flight.segment.title')}</h3>
+        </div>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-sm text-hilton-blue hover:underline disabled:opacity-50"
+          disabled={segments.length >= MAX_FLIGHT_SEGMENTS}
+          onClick={() => onChange([...segments, createSegment(segments[segments.length - 1] ?? first)])}
+        >
+          <Plus className="w-4 h-4" />
+          {t('flight.segment.add')}
+        </button>
+      </div>
+      <p className="text-xs text-hilton-gray-500">{t('flight.segment.hint')}</p>
+
+      {segments.map((segment, index) => (
+        <div key={index} className="rounded-lg border border-hilton-gray-200 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-hilton-gray-600">
+              {t('flight.segment.label', { number: index + 2 })}
+            </span>
+            <button
+              type="button"
+              className="p-1 text-hilton-gray-500 hover:text-red-600"
+              title={t('flight.segment.remove')}
+              onClick={() => onChange(segments.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <select
+              className="hilton-select w-full"
+              aria-label={t('flight.origin')}
+              value={segment.origin}
+              onChange={(e) => updateSegment(index, { origin: e.target.value })}
+            >
+              <option value="">{t('flight.origin')}</option>
+              {majorAirports.map((airport) => (
+                <option key={airport.code} value={airport.code}>
+                  {airport.city} ({airport.code})
+                </option>
+              ))}
+            </select>
+            <select
+              className="hilton-select w-full"
+              aria-label={t('flight.destination')}
+              value={segment.destination}
+              onChange={(e) => updateSegment(index, { destination: e.target.value })}
+            >
+              <option value="">{t('flight.destination')}</option>
+              {majorAirports.map((airport) => (
+                <option key={airport.code} value={airport.code}>
+                  {airport.city} ({airport.code})
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              className="hilton-input w-full"
+              aria-label={t('flight.segment.date')}
+              value={segment.date}
+              min={(index > 0 ? segments[index - 1].date : first.date) || undefined}
+              onChange={(e) => updateSegment(index, { date: e.target.value })}
+            />
+            <select
+              className="hilton-select w-full"
+              aria-label={t('flight.class')}
+              value={segment.flightClass}
+              onChange={(e) => updateSegment(index, { flightClass: e.target.value })}
+            >
+              {flightClasses.map((fc) => (
+                <option key={fc.id} value={fc.id}>
+                  {fc.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className="hilton-select w-full"
+              aria-label={t('flight.flightType')}
+              value={segment.flightType}
+              onChange={(e) => updateSegment(index, { flightType: e.target.value as FlightSegment['flightType'] })}
+            >
+              <option value="nonStop">{t('flight.nonStop')}</option>
+              <option value="layover">{t('flight.layover')}</option>
+            </select>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,134 +1,76 @@
 import React, { useEffect, useMemo } from 'react';
 import { Plane } from 'lucide-react';
 import { majorAirports, flightClasses } from '../data/travelData';
+import { CategoryCost, FlightDetails, FlightSegment, FlightTripType, FlightType, PassengerCounts } from '../types';
+import { REDEMPTION_RULES, redeemPoints } from '../points/wallet';
+import { FlightPriceBreakdown, priceFlight, flightLineItems, resolveFlightSegments } from '../pricing/flight';
+import { emptyCost, pointsLineItem, compactLineItems } from '../pricing/lineItems';
+import { checkPassengers } from '../pricing/passengers';
+import { FlexibleDateOption, FlexibleDateSearch } from '../trips/flexibleDates';
+import FlexibleDatesPanel from './FlexibleDatesPanel';
+import FlightSegments from './FlightSegments';
+import PassengerMix from './PassengerMix';
+import TaxJurisdictionNote from './TaxJurisdictionNote';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
 
 interface FlightSelectorProps {
-  details: {
-    origin: string;
-    destination: string;
-    departDate: string;
-    returnDate: string;
-    flightClass: string;
-    passengers: number;
-    tripType: 'oneWay' | 'roundTrip';
-    flightType: 'nonStop' | 'layover';
-  };
-  onUpdate: (field: string, value: string | number) => void;
-  onCostUpdate: (cost: { cashPrice: number; pointsSavings: number }) => void;
+  details: FlightDetails;
+  onUpdate: (field: string, value: string | number | FlightSegment[] | PassengerCounts) => void;
+  onCostUpdate: (cost: CategoryCost) => void;
   points: number;
+  // Flexible dates are offered only where these handlers are given
+  flexibleDates?: boolean;
+  flexibleSearch?: FlexibleDateSearch | null;
+  onFlexibleDatesChange?: (enabled: boolean) => void;
+  onApplyFlexibleDates?: (option: FlexibleDateOption) => void;
 }
 
-const BASE_FLIGHT_COST = {
-  domestic: 250,
-  international: 800
-};
-
-const FEES = {
-  segment: 4.50,          // Per flight segment
-  security: 5.60,         // TSA fee per passenger per direction
-  facilityCharge: 4.50,   // Passenger facility charge per airport
-  immigration: 7.00,      // Immigration fee (international only)
-  customs: 6.75,          // Customs fee (international only)
-  carrierSurcharge: 5.50, // Carrier-imposed surcharge per direction
-  fuelSurcharge: 25.00,   // Fuel surcharge per direction
-  serviceFee: 12.50,      // Service fee per ticket
-};
-
-const TAX_RATES = {
-  domestic: 0.075,        // 7.5% domestic ticket tax
-  international: 0.18,    // International taxes and fees percentage
-  airport: 0.045,        // Airport tax
-  segment: 0.025,        // Segment tax
-};
-
-const PEAK_DATES = {
-  summer: { start: 5, end: 7 },     // June-August
-  winter: { start: 11, end: 0 },    // December-January
-  spring: { start: 2, end: 3 }      // March-April
-};
-
-function FlightSelector({ details, onUpdate, onCostUpdate, points }: FlightSelectorProps) {
-  const costs = useMemo(() => {
-    if (!details?.origin || !details?.destination) return { cashPrice: 0, pointsSavings: 0 };
-
-    const originAirport = majorAirports.find(a => a.code === details.origin);
-    const destAirport = majorAirports.find(a => a.code === details.destination);
-    
-    if (!originAirport || !destAirport) return { cashPrice: 0, pointsSavings: 0 };
-
-    const isInternational = originAirport.country !== destAirport.country;
-    const basePrice = isInternational ? BASE_FLIGHT_COST.international : BASE_FLIGHT_COST.domestic;
-    
-    const selectedClass = flightClasses.find(fc => fc.id === details.flightClass);
-    const classMultiplier = selectedClass?.multiplier || 1;
-    
-    const tripMultiplier = details.tripType === 'roundTrip' ? 2 : 1;
-    const layoverDiscount = details.flightType === 'layover' ? 0.8 : 1;
-    
-    // Base fare calculation
-    const baseFare = basePrice * classMultiplier * details.passengers * tripMultiplier * layoverDiscount;
-
-    // Peak season multiplier
-    const departDate = details.departDate ? new Date(details.departDate) : new Date();
-    const month = departDate.getMonth();
-    let seasonalMultiplier = 1;
-
-    if ((month >= PEAK_DATES.summer.start && month <= PEAK_DATES.summer.end) ||
-        (month >= PEAK_DATES.winter.start || month <= PEAK_DATES.winter.end)) {
-      seasonalMultiplier = 1.3; // 30% premium for peak seasons
-    } else if (month >= PEAK_DATES.spring.start && month <= PEAK_DATES.spring.end) {
-      seasonalMultiplier = 1.2; // 20% premium for spring break
-    }
-
-    const seasonalFare = baseFare * seasonalMultiplier;
-
-    // Advance purchase discount
-    const daysUntilFlight = Math.ceil((departDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
-    const advancePurchaseDiscount = daysUntilFlight > 21 ? 0.85 : 
-                                   daysUntilFlight > 14 ? 0.9 : 
-                                   daysUntilFlight > 7 ? 0.95 : 1;
-
-    const discountedFare = seasonalFare * advancePurchaseDiscount;
-
-    // Fees calculation
-    const segmentFees = FEES.segment * (details.flightType === 'layover' ? 2 : 1) * tripMultiplier;
-    const securityFees = FEES.security * details.passengers * tripMultiplier;
-    const facilityFees = FEES.facilityCharge * 2 * tripMultiplier; // Both airports
-    const carrierFees = FEES.carrierSurcharge * tripMultiplier;
-    const fuelSurcharge = FEES.fuelSurcharge * tripMultiplier;
-    const serviceFee = FEES.serviceFee * details.passengers;
-
-    // International specific fees
-    const internationalFees = isInternational ? 
-      (FEES.immigration + FEES.customs) * details.passengers * tripMultiplier : 0;
-
-    const totalFees = segmentFees + securityFees + facilityFees + carrierFees + 
-                     fuelSurcharge + serviceFee + internationalFees;
-
-    // Tax calculations
-    const taxRate = isInternational ? TAX_RATES.international : TAX_RATES.domestic;
-    const airportTax = discountedFare * TAX_RATES.airport;
-    const segmentTax = discountedFare * TAX_RATES.segment;
-    const ticketTax = discountedFare * taxRate;
-
-    const totalTaxes = airportTax + segmentTax + ticketTax;
-
-    // Total calculation
-    const cashPrice = discountedFare + totalFees + totalTaxes;
+function FlightSelector({
+  details,
+  onUpdate,
+  onCostUpdate,
+  points,
+  flexibleDates = false,
+  flexibleSearch = null,
+  onFlexibleDatesChange,
+  onApplyFlexibleDates
+}: FlightSelectorProps) {
+  const { format } = useCurrency();
+  const { t, formatNumber, formatPoints, formatPercent } = useI18n();
+
+  const describeDistance = (miles: number) => t('flight.miles', { miles: formatNumber(Math.round(miles)) });
+  const describeDuration = (minutes: number) =>
+    t('flight.hoursMinutes', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+  const costs = useMemo<CategoryCost & { details?: FlightPriceBreakdown }>(() => {
+    if (!details?.origin || !details?.destination) return emptyCost();
+
+    // Nothing is priced until every segment has both airports and the group can fly together
+    const segments = resolveFlightSegments(details);
+    if (!segments || checkPassengers(details.passengers)) return emptyCost();
+
+    const breakdown = priceFlight({
+      segments,
+      passengers: details.passengers,
+      today: new Date()
+    });
 
     // Points calculation (max 70% of flight cost can be covered by points)
-    const pointsSavings = Math.min(points * 0.01, cashPrice * 0.7);
+    const { rate, maxCoverage } = REDEMPTION_RULES.flight;
+    const redemption = redeemPoints(points, rate, breakdown.total * maxCoverage);
 
     return { 
-      cashPrice: Math.round(cashPrice * 100) / 100,
-      pointsSavings: Math.round(pointsSavings * 100) / 100,
-      details: {
-        baseFare: discountedFare,
-        fees: totalFees,
-        taxes: totalTaxes,
-        seasonal: seasonalMultiplier,
-        advance: advancePurchaseDiscount
-      }
+      cashPrice: breakdown.total,
+      pointsSavings: redemption.savings,
+      pointsUsed: redemption.pointsUsed,
+      redeemableValue: Math.round(breakdown.total * maxCoverage * 100) / 100,
+      pointsEarned: 0,
+      lineItems: compactLineItems([
+        ...flightLineItems(breakdown),
+        pointsLineItem(redemption.pointsUsed, redemption.savings)
+      ]),
+      earnings: [],
+      details: breakdown
     };
   }, [details, points]);
 
@@ -140,20 +82,20 @@ function FlightSelector({ details, onUpdate, onCostUpdate, points }: FlightSelec
     <div className="space-y-4">
       <div className="flex items-center gap-2 mb-4">
         <Plane className="w-5 h-5 text-hilton-blue" />
-        <h2 className="text-xl font-semibold text-hilton-blue">Flight Selection</h2>
+        <h2 className="text-xl font-semibold text-hilton-blue">{t('flight.title')}</h2>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Departing Airport
+            {t('flight.origin')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.origin}
             onChange={(e) => onUpdate('origin', e.target.value)}
           >
-            <option value="">Select Airport</option>
+            <option value="">{t('flight.selectAirport')}</option>
             {majorAirports.map((airport) => (
               <option key={airport.code} value={airport.code}>
                 {airport.city} ({airport.code}) - {airport.country}
@@ -164,14 +106,14 @@ function FlightSelector({ details, onUpdate, onCostUpdate, points }: FlightSelec
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Destination Airport
+            {t('flight.destination')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.destination}
             onChange={(e) => onUpdate('destination', e.target.value)}
           >
-            <option value="">Select Airport</option>
+            <option value="">{t('flight.selectAirport')}</option>
             {majorAirports.map((airport) => (
               <option key={airport.code} value={airport.code}>
                 {airport.city} ({airport.code}) - {airport.country}
@@ -182,7 +124,7 @@ function FlightSelector({ details, onUpdate, onCostUpdate, points }: FlightSelec
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Departure Date
+            {t('flight.departDate')}
           </label>
           <input
             type="date"
@@ -195,7 +137,7 @@ function FlightSelector({ details, onUpdate, onCostUpdate, points }: FlightSelec
         {details.tripType === 'roundTrip' && (
           <div>
             <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-              Return Date
+              {t('flight.returnDate')}
             </label>
             <input
               type="date"
@@ -209,7 +151,7 @@ function FlightSelector({ details, onUpdate, onCostUpdate, points }: FlightSelec
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Class
+            {t('flight.class')}
           </label>
           <select
             className="hilton-select w-full"
@@ -226,116 +168,171 @@ function FlightSelector({ details, onUpdate, onCostUpdate, points }: FlightSelec
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Passengers
-          </label>
-          <input
-            type="number"
-            min="1"
-            className="hilton-input w-full"
-            value={details.passengers}
-            onChange={(e) => onUpdate('passengers', Number(e.target.value))}
-          />
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Trip Type
+            {t('flight.tripType')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.tripType}
-            onChange={(e) => onUpdate('tripType', e.target.value as 'oneWay' | 'roundTrip')}
+            onChange={(e) => onUpdate('tripType', e.target.value as FlightTripType)}
           >
-            <option value="roundTrip">Round Trip</option>
-            <option value="oneWay">One Way</option>
+            <option value="roundTrip">{t('flight.roundTrip')}</option>
+            <option value="oneWay">{t('flight.oneWay')}</option>
+            <option value="multiCity">{t('flight.multiCity')}</option>
           </select>
         </div>
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Flight Type
+            {t('flight.flightType')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.flightType}
-            onChange={(e) => onUpdate('flightType', e.target.value as 'nonStop' | 'layover')}
+            onChange={(e) => onUpdate('flightType', e.target.value as FlightType)}
           >
-            <option value="nonStop">Non-Stop</option>
-            <option value="layover">Including Layovers</option>
+            <option value="nonStop">{t('flight.nonStop')}</option>
+            <option value="layover">{t('flight.layover')}</option>
           </select>
         </div>
       </div>
 
+      <PassengerMix
+        passengers={details.passengers}
+        onChange={(passengers) => onUpdate('passengers', passengers)}
+      />
+
+      {details.tripType === 'multiCity' && (
+        <FlightSegments
+          first={{
+            origin: details.origin,
+            destination: details.destination,
+            date: details.departDate,
+            flightClass: details.flightClass,
+            flightType: details.flightType
+          }}
+          segments={details.segments}
+          onChange={(segments) => onUpdate('segments', segments)}
+        />
+      )}
+
+      {onFlexibleDatesChange && onApplyFlexibleDates && (
+        <FlexibleDatesPanel
+          enabled={flexibleDates}
+          search={flexibleSearch}
+          onToggle={onFlexibleDatesChange}
+          onApply={onApplyFlexibleDates}
+        />
+      )}
+
       {(details.origin && details.destination) && (
         <div className="mt-6 bg-hilton-gray-50 rounded-lg p-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div className="space-y-4">
-              <h3 className="font-medium text-hilton-gray-700">Flight Details</h3>
+              <h3 className="font-medium text-hilton-gray-700">{t('flight.details')}</h3>
               <div className="space-y-2 text-sm">
+                {/* Outbound flight; multi-city segments are listed below */}
+                {costs.details?.segments[0] && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-hilton-gray-600">{t('flight.distance')}</span>
+                      <span className="font-medium">{describeDistance(costs.details.segments[0].miles)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-hilton-gray-600">{t('flight.duration')}</span>
+                      <span className="font-medium">{describeDuration(costs.details.segments[0].minutes)}</span>
+                    </div>
+                  </>
+                )}
+
                 <div className="flex justify-between">
-                  <span className="text-hilton-gray-600">Base Fare:</span>
-                  <span className="font-medium">${costs.details?.baseFare.toFixed(2)}</span>
+                  <span className="text-hilton-gray-600">{t('flight.baseFare')}</span>
+                  <span className="font-medium">{format(costs.details?.baseFare ?? 0)}</span>
                 </div>
 
                 {/* Seasonal and Advance Purchase Adjustments */}
-                {costs.details?.seasonal !== 1 && (
+                {costs.details && costs.details.seasonal !== 1 && (
                   <div className="flex justify-between text-red-600">
-                    <span>Peak Season Adjustment:</span>
+                    <span>{t('flight.peakSeason')}</span>
                     <span className="font-medium">
-                      +{((costs.details.seasonal - 1) * 100).toFixed(0)}%
+                      +{formatPercent(costs.details.seasonal - 1)}
                     </span>
                   </div>
                 )}
 
-                {costs.details?.advance !== 1 && (
+                {costs.details && costs.details.advance !== 1 && (
                   <div className="flex justify-between text-green-600">
-                    <span>Advance Purchase Discount:</span>
+                    <span>{t('flight.advancePurchase')}</span>
                     <span className="font-medium">
-                      -{((1 - costs.details.advance) * 100).toFixed(0)}%
+                      -{formatPercent(1 - costs.details.advance)}
                     </span>
                   </div>
                 )}
 
+                {/* Per-segment fares on multi-city and open-jaw tickets */}
+                {costs.details && details.tripType === 'multiCity' && (
+                  <div className="pt-2 border-t space-y-1">
+                    {costs.details.segments.map((segment, index) => (
+                      <div key={index} className="flex justify-between">
+                        <span className="text-hilton-gray-600">
+                          {segment.origin} → {segment.destination}
+                          <span className="text-xs text-hilton-gray-500 ml-2">
+                            {t(segment.isInternational ? 'flight.segment.international' : 'flight.segment.domestic')}
+                            {' · '}{describeDistance(segment.miles)} · {describeDuration(segment.minutes)}
+                          </span>
+                        </span>
+                        <span className="font-medium">{format(segment.total)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Fees Breakdown */}
                 <div className="pt-2 border-t">
                   <div className="flex justify-between">
-                    <span className="text-hilton-gray-600">Fees & Surcharges:</span>
-                    <span className="font-medium">${costs.details?.fees.toFixed(2)}</span>
+                    <span className="text-hilton-gray-600">{t('common.feesAndSurcharges')}</span>
+                    <span className="font-medium">{format(costs.details?.fees.total ?? 0)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-hilton-gray-600">Taxes:</span>
-                    <span className="font-medium">${costs.details?.taxes.toFixed(2)}</span>
+                    <span className="text-hilton-gray-600">{t('common.taxes')}</span>
+                    <span className="font-medium">{format(costs.details?.taxes.total ?? 0)}</span>
                   </div>
+                  {costs.details?.taxes.departures.map((departure, index) => (
+                    <TaxJurisdictionNote
+                      key={index}
+                      jurisdiction={departure.jurisdiction}
+                      place={departure.airport}
+                    />
+                  ))}
                 </div>
               </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                <p className="text-sm text-hilton-gray-600 mb-1">Total Cost</p>
+                <p className="text-sm text-hilton-gray-600 mb-1">{t('common.totalCost')}</p>
                 <p className="text-2xl font-bold text-hilton-gray-900">
-                  ${costs.cashPrice.toFixed(2)}
+                  {format(costs.cashPrice)}
                 </p>
                 <p className="text-xs text-hilton-gray-500 mt-1">
-                  All taxes & fees included
+                  {t('common.allTaxesIncluded')}
                 </p>
               </div>
               <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                <p className="text-sm text-hilton-gray-600 mb-1">Points Value</p>
+                <p className="text-sm text-hilton-gray-600 mb-1">{t('common.pointsValue')}</p>
                 <p className="text-2xl font-bold text-purple-600">
-                  ${costs.pointsSavings.toFixed(2)}
+                  {format(costs.pointsSavings)}
                 </p>
                 <p className="text-xs text-hilton-gray-500 mt-1">
-                  Using Hilton Points
+                  {t('common.usingPoints', { points: formatPoints(costs.pointsUsed) })}
                 </p>
               </div>
               <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                <p className="text-sm text-hilton-gray-600 mb-1">Final Cost</p>
+                <p className="text-sm text-hilton-gray-600 mb-1">{t('common.finalCost')}</p>
                 <p className="text-2xl font-bold text-green-600">
-                  ${(costs.cashPrice - costs.pointsSavings).toFixed(2)}
+                  {format(costs.cashPrice - costs.pointsSavings)}
                 </p>
                 <p className="text-xs text-hilton-gray-500 mt-1">
-                  After points savings
+                  {t('common.afterPointsSavings')}
                 </p>
               </div>
             </div>
@@ -1,7 +1,29 @@
 import React, { useMemo, useEffect } from 'react';
-import { Building2, Star, ExternalLink, Wifi, UtensilsCrossed, Car, Waves, Dumbbell } from 'lucide-react';
+import { AlertTriangle, Building2, Star, ExternalLink, Wifi, UtensilsCrossed, Car, Waves, Dumbbell } from 'lucide-react';
 import { hiltonBrands } from '../data/hiltonBrands';
 import { expandedHiltonProperties } from '../data/hiltonProperties';
+import { CategoryCost, EliteTier, HotelRateType, HotelRoom } from '../types';
+import { REDEMPTION_RULES, redeemPoints } from '../points/wallet';
+import { earnHotelPoints, sumEarnings } from '../points/earnings';
+import { centsPerPoint, isPoorRedemption } from '../points/valuation';
+import {
+  HOTEL_FEES,
+  getAwardStayFees,
+  priceHotelStay,
+  hotelLineItems
+} from '../pricing/hotel';
+import { pointsLineItem, compactLineItems } from '../pricing/lineItems';
+import { priceAwardStay, payForAward } from '../pricing/award';
+import { exceedsOccupancy, getRoomCatalog, toRoomPricing } from '../pricing/rooms';
+import { addDays, daysBetween } from '../utils/dates';
+import { FlexibleDateOption, FlexibleDateSearch } from '../trips/flexibleDates';
+import RateCalendar from './RateCalendar';
+import TaxJurisdictionNote from './TaxJurisdictionNote';
+import RoomConfiguration from './RoomConfiguration';
+import FlexibleDatesPanel from './FlexibleDatesPanel';
+import { getLocalCurrency } from '../currency/currencies';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
 
 interface HotelSelectorProps {
   details: {
@@ -9,34 +31,23 @@ interface HotelSelectorProps {
     property: string;
     checkIn: string;
     checkOut: string;
-    rooms: number;
-    points: string;
+    rooms: HotelRoom[];
+    rateType: HotelRateType;
+    pointsAndMoney: boolean;
+    parkCar: boolean;
   };
-  onUpdate: (field: string, value: string | number) => void;
-  onCostUpdate: (cost: { cashPrice: number; pointsSavings: number }) => void;
+  onUpdate: (field: string, value: string | number | boolean | HotelRoom[]) => void;
+  onCostUpdate: (cost: CategoryCost) => void;
+  points: number;
+  tier: EliteTier;
+  baselineCents: number;
+  // Flexible dates are offered only where these handlers are given
+  flexibleDates?: boolean;
+  flexibleSearch?: FlexibleDateSearch | null;
+  onFlexibleDatesChange?: (enabled: boolean) => void;
+  onApplyFlexibleDates?: (option: FlexibleDateOption) => void;
 }
 
-const HOTEL_FEES = {
-  resortFee: 35,
-  parkingFee: 25,
-  serviceFee: 10,
-  amenityFee: 15,
-  destinationFee: 20,
-};
-
-const TAX_RATES = {
-  roomTax: 0.145,
-  occupancyTax: 0.035,
-  cityTax: 0.02,
-  tourismLevy: 0.01,
-};
-
-const SEASONAL_RATES = {
-  peak: 1.4,    // 40% premium for peak season
-  shoulder: 1.2, // 20% premium for shoulder season
-  offPeak: 0.8,  // 20% discount for off-peak
-};
-
 const amenityIcons: Record<string, React.ReactNode> = {
   'WiFi': <Wifi className="w-5 h-5" />,
   'Restaurant': <UtensilsCrossed className="w-5 h-5" />,
@@ -45,7 +56,20 @@ const amenityIcons: Record<string, React.ReactNode> = {
   'Fitness Center': <Dumbbell className="w-5 h-5" />
 };
 
-export default function HotelSelector({ details, onUpdate, onCostUpdate }: HotelSelectorProps) {
+export default function HotelSelector({
+  details,
+  onUpdate,
+  onCostUpdate,
+  points,
+  tier,
+  baselineCents,
+  flexibleDates = false,
+  flexibleSearch = null,
+  onFlexibleDatesChange,
+  onApplyFlexibleDates
+}: HotelSelectorProps) {
+  const { format, formatIn, displayCurrency } = useCurrency();
+  const { t, tn, formatNumber, formatPoints, formatPercent } = useI18n();
   const selectedProperty = details.property ? 
     expandedHiltonProperties.find(p => p.id === details.property) : null;
 
@@ -53,68 +77,100 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
     expandedHiltonProperties.filter(p => p.brandId === details.brand) : 
     expandedHiltonProperties;
 
-  const calculateCashPrice = (basePrice: number, checkIn: string, checkOut: string, rooms: number) => {
-    if (!checkIn || !checkOut) return 0;
-    
-    const nights = Math.ceil((new Date(checkOut).getTime() - new Date(checkIn).getTime()) / (1000 * 60 * 60 * 24));
-    if (nights <= 0) return 0;
-
-    const month = new Date(checkIn).getMonth();
-    let seasonalRate = 1;
-    if (month >= 5 && month <= 7) {
-      seasonalRate = SEASONAL_RATES.peak;
-    } else if (month >= 2 && month <= 4) {
-      seasonalRate = SEASONAL_RATES.shoulder;
-    } else if (month >= 11 || month <= 1) {
-      seasonalRate = SEASONAL_RATES.offPeak;
-    }
-
-    const lengthDiscount = nights >= 7 ? 0.85 : 
-                          nights >= 4 ? 0.9 : 
-                          nights >= 2 ? 0.95 : 1;
-
-    const roomCost = basePrice * seasonalRate * lengthDiscount * nights * rooms;
-
-    const isMajorCity = selectedProperty?.city && 
-      ['New York', 'Los Angeles', 'Chicago', 'Miami', 'Las Vegas'].includes(selectedProperty.city);
-    
-    const hasResortFee = selectedProperty?.amenities.includes('Pool') || 
-                        selectedProperty?.amenities.includes('Spa Services');
-
-    const fees = (
-      (hasResortFee ? HOTEL_FEES.resortFee : 0) +
-      HOTEL_FEES.serviceFee +
-      HOTEL_FEES.amenityFee +
-      (isMajorCity ? HOTEL_FEES.destinationFee : 0)
-    ) * nights * rooms;
-
-    const roomTax = roomCost * TAX_RATES.roomTax;
-    const occupancyTax = roomCost * TAX_RATES.occupancyTax;
-    const cityTax = isMajorCity ? roomCost * TAX_RATES.cityTax : 0;
-    const tourismLevy = roomCost * TAX_RATES.tourismLevy;
-
-    return roomCost + fees + roomTax + occupancyTax + cityTax + tourismLevy;
-  };
+  // Room types follow the brand; a room over its occupancy can't be booked, so nothing is priced
+  const roomCatalog = getRoomCatalog(selectedProperty?.brandId || details.brand);
+  const overOccupied = details.rooms.some(room => exceedsOccupancy(roomCatalog, room));
+  const roomPricing = useMemo(
+    () => overOccupied ? [] : details.rooms.map(room => toRoomPricing(roomCatalog, room)),
+    [overOccupied, details.rooms, roomCatalog]
+  );
 
-  const calculatePointsSavings = (points: string, cashPrice: number) => {
-    const pointsNum = Number(points) || 0;
-    return Math.min(pointsNum * 0.005, cashPrice * 0.8);
-  };
+  const breakdown = useMemo(() => selectedProperty && roomPricing.length > 0 ? priceHotelStay({
+    basePrice: selectedProperty.basePrice,
+    checkIn: details.checkIn,
+    checkOut: details.checkOut,
+    rooms: roomPricing,
+    extraPersonCharge: roomCatalog.extraPersonCharge,
+    city: selectedProperty.city,
+    state: selectedProperty.state,
+    country: selectedProperty.country,
+    fees: selectedProperty.fees,
+    parkCar: details.parkCar
+  }) : null, [selectedProperty, details.checkIn, details.checkOut, roomPricing, roomCatalog, details.parkCar]);
+
+  const cashPrice = breakdown?.total || 0;
+
+  // Show the property's own currency alongside the display currency when they differ
+  const localCurrency = selectedProperty ? getLocalCurrency(selectedProperty.country) : displayCurrency;
+  const showLocal = localCurrency !== displayCurrency;
+
+  const award = useMemo(() => selectedProperty && roomPricing.length > 0 && details.rateType !== 'cash' ? priceAwardStay({
+    pointsPerNight: selectedProperty.pointsPerNight,
+    checkIn: details.checkIn,
+    checkOut: details.checkOut,
+    rooms: roomPricing,
+    type: details.rateType === 'premiumReward' ? 'premium' : 'standard',
+    tier
+  }) : null, [selectedProperty, roomPricing, details.rateType, details.checkIn, details.checkOut, tier]);
+
+  const payment = useMemo(() => (
+    award ? payForAward(award.totalPoints, points, details.pointsAndMoney) : null
+  ), [award, points, details.pointsAndMoney]);
+
+  // Fees an award stay still pays in cash alongside the points
+  const awardFees = award && breakdown && selectedProperty ? getAwardStayFees(breakdown, selectedProperty.fees) : 0;
+
+  // An award the points can't cover is booked at the cash rate instead
+  const redemption = useMemo(() => {
+    if (payment) {
+      return payment.shortfall === 0
+        ? { savings: cashPrice - payment.cashPaid - awardFees, pointsUsed: payment.pointsPaid }
+        : { savings: 0, pointsUsed: 0 };
+    }
+    const { rate, maxCoverage } = REDEMPTION_RULES.hotel;
+    return redeemPoints(points, rate, cashPrice * maxCoverage);
+  }, [payment, points, cashPrice, awardFees]);
+
+  // Points are applied to the room rate first, so only the rest of it earns; award stays earn nothing
+  // unless the points fall short and the stay is booked at the cash rate
+  const earnings = useMemo(() => {
+    const brand = selectedProperty && hiltonBrands.find(b => b.id === selectedProperty.brandId);
+    if (!brand || !breakdown || payment?.shortfall === 0) return [];
+    return earnHotelPoints(brand.pointsPerDollar, breakdown.roomCost - redemption.savings, tier);
+  }, [selectedProperty, breakdown, payment, redemption, tier]);
+
+  // Award value is judged on the full award, whatever share Points & Money covers
+  const awardCents = award ? centsPerPoint(cashPrice - awardFees, award.totalPoints) : 0;
+  const awardNightPoints = award ? award.nightlyPoints.map(night => night.points) : [0];
+  const awardRange = { min: Math.min(...awardNightPoints), max: Math.max(...awardNightPoints) };
+  const redemptionCents = centsPerPoint(redemption.savings, redemption.pointsUsed);
+  const formatCents = (cents: number) =>
+    t('common.pointsPerDollarRate', { cents: formatNumber(cents, { minimumFractionDigits: 1, maximumFractionDigits: 2 }) });
 
   useEffect(() => {
-    if (selectedProperty) {
-      const cashPrice = calculateCashPrice(
-        selectedProperty.basePrice,
-        details.checkIn,
-        details.checkOut,
-        details.rooms
-      );
-      const pointsSavings = calculatePointsSavings(details.points, cashPrice);
-      onCostUpdate({ cashPrice, pointsSavings });
-    } else {
-      onCostUpdate({ cashPrice: 0, pointsSavings: 0 });
-    }
-  }, [selectedProperty, details.checkIn, details.checkOut, details.rooms, details.points]);
+    onCostUpdate({
+      cashPrice,
+      pointsSavings: redemption.savings,
+      pointsUsed: redemption.pointsUsed,
+      // Award bookings size the points allocation to the award itself
+      redeemableValue: award
+        ? award.totalPoints * REDEMPTION_RULES.hotel.rate
+        : cashPrice * REDEMPTION_RULES.hotel.maxCoverage,
+      pointsEarned: sumEarnings(earnings),
+      lineItems: breakdown ? compactLineItems([
+        ...hotelLineItems(breakdown),
+        pointsLineItem(redemption.pointsUsed, redemption.savings)
+      ]) : [],
+      earnings
+    });
+  }, [breakdown, cashPrice, award, redemption, earnings, onCostUpdate]);
+
+  // Moving the check-in keeps the stay the same length
+  const handleSelectCheckIn = (checkIn: string) => {
+    const nights = Math.max(1, daysBetween(details.checkIn, details.checkOut) || 0);
+    onUpdate('checkIn', checkIn);
+    onUpdate('checkOut', addDays(checkIn, nights));
+  };
 
   const getHotelUrl = (property: typeof selectedProperty) => {
     if (!property) return '#';
@@ -140,20 +196,20 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
     <div className="space-y-4">
       <div className="flex items-center gap-2 mb-4">
         <Building2 className="w-5 h-5 text-hilton-blue" />
-        <h2 className="text-xl font-semibold text-hilton-blue">Hotel Selection</h2>
+        <h2 className="text-xl font-semibold text-hilton-blue">{t('hotel.title')}</h2>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Hilton Brand
+            {t('hotel.brand')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.brand}
             onChange={(e) => onUpdate('brand', e.target.value)}
           >
-            <option value="">All Brands</option>
+            <option value="">{t('hotel.allBrands')}</option>
             {Object.entries(
               hiltonBrands.reduce((acc, brand) => {
                 if (!acc[brand.category]) acc[brand.category] = [];
@@ -174,14 +230,14 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Select Property
+            {t('hotel.property')}
           </label>
           <select
             className="hilton-select w-full"
             value={details.property}
             onChange={(e) => onUpdate('property', e.target.value)}
           >
-            <option value="">Select a Property</option>
+            <option value="">{t('hotel.propertyPlaceholder')}</option>
             {Object.entries(
               filteredProperties.reduce((acc, property) => {
                 if (!acc[property.region]) acc[property.region] = [];
@@ -202,7 +258,7 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Check-in Date
+            {t('hotel.checkIn')}
           </label>
           <input
             type="date"
@@ -214,7 +270,7 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Check-out Date
+            {t('hotel.checkOut')}
           </label>
           <input
             type="date"
@@ -227,33 +283,58 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
 
         <div>
           <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Number of Rooms
+            {t('hotel.rateType')}
           </label>
-          <input
-            type="number"
-            min="1"
-            className="hilton-input w-full"
-            value={details.rooms}
-            onChange={(e) => onUpdate('rooms', Number(e.target.value))}
-          />
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
-            Hilton Honors Points
+          <select
+            className="hilton-select w-full"
+            value={details.rateType}
+            onChange={(e) => onUpdate('rateType', e.target.value)}
+          >
+            <option value="cash">{t('hotel.rateType.cash')}</option>
+            <option value="standardReward">{t('hotel.rateType.standardReward')}</option>
+            <option value="premiumReward">{t('hotel.rateType.premiumReward')}</option>
+          </select>
+          {details.rateType !== 'cash' && (
+            <label className="flex items-center gap-2 mt-2 text-sm text-hilton-gray-700">
+              <input
+                type="checkbox"
+                checked={details.pointsAndMoney}
+                onChange={(e) => onUpdate('pointsAndMoney', e.target.checked)}
+              />
+              {t('hotel.pointsAndMoney')}
+            </label>
+          )}
+          <label className="flex items-center gap-2 mt-2 text-sm text-hilton-gray-700">
+            <input
+              type="checkbox"
+              checked={details.parkCar}
+              onChange={(e) => onUpdate('parkCar', e.target.checked)}
+            />
+            {t('hotel.parkCar')}
           </label>
-          <input
-            type="number"
-            min="0"
-            step="1000"
-            className="hilton-input w-full"
-            value={details.points}
-            onChange={(e) => onUpdate('points', e.target.value)}
-            placeholder="Enter points (optional)"
-          />
+          {details.parkCar && breakdown && breakdown.nights > 0 && !breakdown.fees.parkingType && (
+            <p className="mt-1 text-xs text-hilton-gray-500">{t('hotel.noParking')}</p>
+          )}
         </div>
       </div>
 
+      <div className="mb-6">
+        <RoomConfiguration
+          rooms={details.rooms}
+          catalog={roomCatalog}
+          onChange={(rooms) => onUpdate('rooms', rooms)}
+        />
+      </div>
+
+      {onFlexibleDatesChange && onApplyFlexibleDates && (
+        <FlexibleDatesPanel
+          enabled={flexibleDates}
+          search={flexibleSearch}
+          onToggle={onFlexibleDatesChange}
+          onApply={onApplyFlexibleDates}
+        />
+      )}
+
       {selectedProperty && (
         <div className="mt-6 bg-gradient-to-br from-hilton-blue/5 to-hilton-blue/10 rounded-xl p-6">
           <div className="space-y-6">
@@ -285,7 +366,7 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
                 rel="noopener noreferrer"
                 className="hilton-button inline-flex items-center gap-2"
               >
-                Visit Hotel Website
+                {t('hotel.visitWebsite')}
                 <ExternalLink className="w-4 h-4" />
               </a>
             </div>
@@ -293,87 +374,115 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
             <div className="bg-white rounded-lg p-6 shadow-sm">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="space-y-4">
-                  <h3 className="font-medium text-hilton-gray-700">Rate Details</h3>
+                  <h3 className="font-medium text-hilton-gray-700">{t('common.rateDetails')}</h3>
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-hilton-gray-600">Base Rate (per night):</span>
-                      <span className="font-medium">${selectedProperty.basePrice.toFixed(2)}</span>
+                      <span className="text-hilton-gray-600">{t('hotel.baseRate')}</span>
+                      <span className="font-medium">{format(selectedProperty.basePrice)}</span>
                     </div>
+                    {showLocal && (
+                      <div className="flex justify-between">
+                        <span className="text-hilton-gray-600">{t('hotel.localRate', { currency: localCurrency })}</span>
+                        <span className="font-medium">{formatIn(selectedProperty.basePrice, localCurrency)}</span>
+                      </div>
+                    )}
                     
-                    {(() => {
-                      const month = details.checkIn ? new Date(details.checkIn).getMonth() : -1;
-                      let seasonalRate = 1;
-                      let seasonName = '';
-                      
-                      if (month >= 5 && month <= 7) {
-                        seasonalRate = SEASONAL_RATES.peak;
-                        seasonName = 'Peak Season';
-                      } else if (month >= 2 && month <= 4) {
-                        seasonalRate = SEASONAL_RATES.shoulder;
-                        seasonName = 'Shoulder Season';
-                      } else if (month >= 11 || month <= 1) {
-                        seasonalRate = SEASONAL_RATES.offPeak;
-                        seasonName = 'Off-Peak Season';
-                      }
-
-                      return month !== -1 && (
-                        <div className="flex justify-between">
-                          <span className="text-hilton-gray-600">{seasonName} Adjustment:</span>
-                          <span className={`font-medium ${seasonalRate > 1 ? 'text-red-600' : 'text-green-600'}`}>
-                            {seasonalRate > 1 ? '+' : '-'}{Math.abs((1 - seasonalRate) * 100).toFixed(0)}%
-                          </span>
-                        </div>
-                      );
-                    })()}
+                    {breakdown && breakdown.roomTypeAdjustment >= 0.005 && (
+                      <div className="flex justify-between">
+                        <span className="text-hilton-gray-600">{t('hotel.roomTypeAdjustment')}</span>
+                        <span className="font-medium text-red-600">+{format(breakdown.roomTypeAdjustment)}</span>
+                      </div>
+                    )}
+
+                    {breakdown && Math.abs(breakdown.seasonalAdjustment) >= 0.005 && (
+                      <div className="flex justify-between">
+                        <span className="text-hilton-gray-600">{t('hotel.seasonalAdjustment')}</span>
+                        <span className={`font-medium ${breakdown.seasonalAdjustment > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {breakdown.seasonalAdjustment > 0 ? '+' : '-'}{format(Math.abs(breakdown.seasonalAdjustment))}
+                        </span>
+                      </div>
+                    )}
+
+                    {breakdown && breakdown.weekendAdjustment >= 0.005 && (
+                      <div className="flex justify-between">
+                        <span className="text-hilton-gray-600">
+                          {tn('hotel.weekendNights', breakdown.nightlyRates.filter(night => night.weekend).length)}
+                        </span>
+                        <span className="font-medium text-red-600">+{format(breakdown.weekendAdjustment)}</span>
+                      </div>
+                    )}
 
                     {(() => {
-                      if (!details.checkIn || !details.checkOut) return null;
-                      const nights = Math.ceil((new Date(details.checkOut).getTime() - new Date(details.checkIn).getTime()) / (1000 * 60 * 60 * 24));
-                      let discount = 0;
-                      
-                      if (nights >= 7) discount = 0.15;
-                      else if (nights >= 4) discount = 0.10;
-                      else if (nights >= 2) discount = 0.05;
+                      if (!breakdown) return null;
+                      const discount = 1 - breakdown.lengthMultiplier;
 
                       return discount > 0 && (
                         <div className="flex justify-between text-green-600">
-                          <span>{nights}+ Nights Discount:</span>
-                          <span className="font-medium">-{(discount * 100).toFixed(0)}%</span>
+                          <span>{t('hotel.lengthDiscount', { nights: breakdown.nights })}</span>
+                          <span className="font-medium">-{formatPercent(discount)}</span>
                         </div>
                       );
                     })()}
 
                     <div className="pt-2 border-t">
-                      <div className="flex justify-between">
-                        <span className="text-hilton-gray-600">Resort Fee:</span>
-                        <span className="font-medium">${HOTEL_FEES.resortFee.toFixed(2)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-hilton-gray-600">Parking:</span>
-                        <span className="font-medium">${HOTEL_FEES.parkingFee.toFixed(2)}</span>
-                      </div>
-                      {selectedProperty.city && ['New York', 'Los Angeles', 'Chicago', 'Miami', 'Las Vegas'].includes(selectedProperty.city) && (
+                      {breakdown && (['serviceFee', 'amenityFee'] as const).map((fee) => (
+                        <div key={fee} className="flex justify-between">
+                          <span className="text-hilton-gray-600">{t(`hotel.${fee}`)}</span>
+                          <span className="font-medium">
+                            {t('hotel.perRoomNight', { amount: format(HOTEL_FEES[fee]) })}
+                          </span>
+                        </div>
+                      ))}
+                      {selectedProperty.fees.resortFee > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-hilton-gray-600">{t('hotel.resortFee')}</span>
+                          <span className="font-medium">
+                            {t('hotel.perRoomNight', { amount: format(selectedProperty.fees.resortFee) })}
+                          </span>
+                        </div>
+                      )}
+                      {selectedProperty.fees.destinationFee > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-hilton-gray-600">{t('hotel.destinationFee')}</span>
+                          <span className="font-medium">
+                            {t('hotel.perRoomNight', { amount: format(selectedProperty.fees.destinationFee) })}
+                          </span>
+                        </div>
+                      )}
+                      {breakdown && breakdown.fees.extraPerson > 0 && (
                         <div className="flex justify-between">
-                          <span className="text-hilton-gray-600">Destination Fee:</span>
-                          <span className="font-medium">${HOTEL_FEES.destinationFee.toFixed(2)}</span>
+                          <span className="text-hilton-gray-600">{t('hotel.extraPerson')}</span>
+                          <span className="font-medium">{format(breakdown.fees.extraPerson)}</span>
+                        </div>
+                      )}
+                      {breakdown?.fees.parkingType && (
+                        <div className="flex justify-between">
+                          <span className="text-hilton-gray-600">
+                            {t(breakdown.fees.parkingType === 'valet' ? 'hotel.valetParking' : 'hotel.selfParking')}
+                          </span>
+                          <span className="font-medium">
+                            {t('hotel.perNight', { amount: format(selectedProperty.fees.parking[breakdown.fees.parkingType] ?? 0) })}
+                          </span>
                         </div>
                       )}
                     </div>
 
                     <div className="pt-2 border-t">
-                      <div className="flex justify-between">
-                        <span className="text-hilton-gray-600">Room Tax:</span>
-                        <span className="font-medium">{(TAX_RATES.roomTax * 100).toFixed(1)}%</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-hilton-gray-600">Occupancy Tax:</span>
-                        <span className="font-medium">{(TAX_RATES.occupancyTax * 100).toFixed(1)}%</span>
-                      </div>
-                      {selectedProperty.city && ['New York', 'Los Angeles', 'Chicago', 'Miami', 'Las Vegas'].includes(selectedProperty.city) && (
-                        <div className="flex justify-between">
-                          <span className="text-hilton-gray-600">City Tax:</span>
-                          <span className="font-medium">{(TAX_RATES.cityTax * 100).toFixed(1)}%</span>
+                      {breakdown?.taxes.items.map((tax) => (
+                        <div key={tax.rule.label} className="flex justify-between">
+                          <span className="text-hilton-gray-600">{tax.rule.label}</span>
+                          <span className="font-medium">
+                            {tax.rule.flat
+                              ? t('hotel.perRoomNight', { amount: format(tax.rule.rate) })
+                              : formatPercent(tax.rule.rate, 1)}
+                          </span>
                         </div>
+                      ))}
+                      {breakdown && (
+                        <TaxJurisdictionNote
+                          jurisdiction={breakdown.taxes.jurisdiction}
+                          place={[selectedProperty.city, selectedProperty.country].join(', ')}
+                        />
                       )}
                     </div>
                   </div>
@@ -381,38 +490,114 @@ export default function HotelSelector({ details, onUpdate, onCostUpdate }: Hotel
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                    <p className="text-sm text-hilton-gray-600 mb-1">Total Cost</p>
+                    <p className="text-sm text-hilton-gray-600 mb-1">{t('common.totalCost')}</p>
                     <p className="text-2xl font-bold text-hilton-gray-900">
-                      ${calculateCashPrice(selectedProperty.basePrice, details.checkIn, details.checkOut, details.rooms).toFixed(2)}
+                      {format(cashPrice)}
                     </p>
+                    {showLocal && (
+                      <p className="text-sm text-hilton-gray-600">
+                        {t('hotel.localTotal', { amount: formatIn(cashPrice, localCurrency) })}
+                      </p>
+                    )}
                     <p className="text-xs text-hilton-gray-500 mt-1">
-                      All taxes & fees included
+                      {t('common.allTaxesIncluded')}
                     </p>
                   </div>
                   <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                    <p className="text-sm text-hilton-gray-600 mb-1">Points Value</p>
+                    <p className="text-sm text-hilton-gray-600 mb-1">{t('common.pointsValue')}</p>
                     <p className="text-2xl font-bold text-purple-600">
-                      ${calculatePointsSavings(details.points, calculateCashPrice(selectedProperty.basePrice, details.checkIn, details.checkOut, details.rooms)).toFixed(2)}
+                      {format(redemption.savings)}
                     </p>
                     <p className="text-xs text-hilton-gray-500 mt-1">
-                      Using Hilton Points
+                      {t('common.usingPoints', { points: formatPoints(redemption.pointsUsed) })}
                     </p>
+                    {redemption.pointsUsed > 0 && isPoorRedemption(redemptionCents, baselineCents) && (
+                      <p className="text-xs text-red-600 mt-1 inline-flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {t('common.poorRedemption', { cents: formatCents(redemptionCents), baseline: formatCents(baselineCents) })}
+                      </p>
+                    )}
                   </div>
                   <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                    <p className="text-sm text-hilton-gray-600 mb-1">Final Cost</p>
+                    <p className="text-sm text-hilton-gray-600 mb-1">{t('common.finalCost')}</p>
                     <p className="text-2xl font-bold text-green-600">
-                      ${(calculateCashPrice(selectedProperty.basePrice, details.checkIn, details.checkOut, details.rooms) - 
-                         calculatePointsSavings(details.points, calculateCashPrice(selectedProperty.basePrice, details.checkIn, details.checkOut, details.rooms))).toFixed(2)}
+                      {format(cashPrice - redemption.savings)}
                     </p>
                     <p className="text-xs text-hilton-gray-500 mt-1">
-                      After points savings
+                      {t('common.afterPointsSavings')}
                     </p>
                   </div>
                 </div>
               </div>
 
               <div className="mt-6">
-                <h3 className="font-medium text-hilton-gray-700 mb-4">Amenities</h3>
+                <RateCalendar
+                  basePrice={selectedProperty.basePrice}
+                  checkIn={details.checkIn}
+                  checkOut={details.checkOut}
+                  onSelectCheckIn={handleSelectCheckIn}
+                />
+              </div>
+
+              {award && payment && (
+                <div className="mt-6 p-4 bg-hilton-gray-50 rounded-lg space-y-2 text-sm">
+                  <h3 className="font-medium text-hilton-gray-700">{t(`hotel.rateType.${details.rateType}`)}</h3>
+                  <div className="flex justify-between">
+                    <span className="text-hilton-gray-600">{t('hotel.award.nightly')}</span>
+                    <span className="font-medium">
+                      {awardRange.min === awardRange.max
+                        ? formatPoints(awardRange.min)
+                        : `${formatPoints(awardRange.min)} – ${formatPoints(awardRange.max)}`}
+                    </span>
+                  </div>
+                  {award.freeNights > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>{t('hotel.award.fifthNightFree')}</span>
+                      <span className="font-medium">
+                        {tn('hotel.award.freeNights', award.freeNights)} · -{formatPoints(award.freePoints)}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-hilton-gray-600">{t('hotel.award.total')}</span>
+                    <span className="font-medium">{formatPoints(award.totalPoints)}</span>
+                  </div>
+                  {payment.cashPaid > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-hilton-gray-600">{t('hotel.award.pointsAndMoney', { points: formatPoints(payment.pointsPaid) })}</span>
+                      <span className="font-medium">{format(payment.cashPaid)}</span>
+                    </div>
+                  )}
+                  {payment.shortfall === 0 && awardFees > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-hilton-gray-600">{t('hotel.award.cashFees')}</span>
+                      <span className="font-medium">{format(awardFees)}</span>
+                    </div>
+                  )}
+                  {selectedProperty.fees.resortFee > 0 && selectedProperty.fees.waivedOnAwardStays.resortFee && (
+                    <p className="text-green-600">{t('hotel.award.resortFeeWaived')}</p>
+                  )}
+                  {payment.shortfall > 0 && (
+                    <p className="text-red-600">{t('hotel.award.shortfall', { points: formatPoints(payment.shortfall) })}</p>
+                  )}
+                  <div className="pt-2 border-t">
+                    <div className="flex justify-between">
+                      <span className="text-hilton-gray-600">{t('hotel.award.value')}</span>
+                      <span className="font-medium">
+                        {formatCents(awardCents)}
+                      </span>
+                    </div>
+                    <p className={`mt-1 font-medium ${isPoorRedemption(awardCents, baselineCents) ? 'text-red-600' : 'text-green-600'}`}>
+                      {t(isPoorRedemption(awardCents, baselineCents) ? 'hotel.award.cashBetter' : 'hotel.award.pointsBetter', {
+                        baseline: formatCents(baselineCents)
+                      })}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div className="mt-6">
+                <h3 className="font-medium text-hilton-gray-700 mb-4">{t('hotel.amenities')}</h3>
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
                   {selectedProperty.amenities.map((amenity, index) => (
                     <a
@@ -0,0 +1,101 @@
+import { useCallback, useMemo } from 'react';
+import { MapPin, Trash2 } from 'lucide-react';
+import { CategoryCost, EliteTier, FlightSegment, HotelRoom, ItineraryLeg, PassengerCounts } from '../types';
+import { expandedHiltonProperties } from '../data/hiltonProperties';
+import { StopCategory, getPickUpLocation } from '../trips/itinerary';
+import HotelSelector from './HotelSelector';
+import FlightSelector from './FlightSelector';
+import CarRentalSelector from './CarRentalSelector';
+import { useI18n } from '../i18n/I18nContext';
+
+type LegValue = string | number | boolean | HotelRoom[] | FlightSegment[] | PassengerCounts;
+
+interface ItineraryLegCardProps {
+  leg: ItineraryLeg;
+  stop: number; // Position in the trip, 2 for the first leg
+  points: Record<StopCategory, number>;
+  tier: EliteTier;
+  baselineCents: number;
+  onUpdate: (id: string, category: StopCategory, field: string, value: LegValue) => void;
+  onToggleCar: (id: string, enabled: boolean) => void;
+  onRemove: (id: string) => void;
+  onCostUpdate: (id: string, category: StopCategory, cost: CategoryCost) => void;
+}
+
+export default function ItineraryLegCard({
+  leg,
+  stop,
+  points,
+  tier,
+  baselineCents,
+  onUpdate,
+  onToggleCar,
+  onRemove,
+  onCostUpdate
+}: ItineraryLegCardProps) {
+  const { t } = useI18n();
+  const city = expandedHiltonProperties.find(p => p.id === leg.hotel.property)?.city;
+
+  // Stable per leg, so the selectors only report costs when their own inputs change
+  const handleHotelUpdate = useCallback((field: string, value: LegValue) => onUpdate(leg.id, 'hotel', field, value), [leg.id, onUpdate]);
+  const handleFlightUpdate = useCallback((field: string, value: LegValue) => onUpdate(leg.id, 'flight', field, value), [leg.id, onUpdate]);
+  const handleCarUpdate = useCallback((field: string, value: LegValue) => onUpdate(leg.id, 'carRental', field, value), [leg.id, onUpdate]);
+  const handleHotelCost = useCallback((cost: CategoryCost) => onCostUpdate(leg.id, 'hotel', cost), [leg.id, onCostUpdate]);
+  const handleFlightCost = useCallback((cost: CategoryCost) => onCostUpdate(leg.id, 'flight', cost), [leg.id, onCostUpdate]);
+  const handleCarCost = useCallback((cost: CategoryCost) => onCostUpdate(leg.id, 'carRental', cost), [leg.id, onCostUpdate]);
+
+  const pickUpLocation = useMemo(() => getPickUpLocation(leg.hotel, leg.flight), [leg.hotel, leg.flight]);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-sm space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <MapPin className="w-6 h-6 text-hilton-blue" />
+          <h2 className="text-xl font-semibold text-hilton-gray-900">
+            {city ? t('itinerary.stopIn', { number: stop, city }) : t('itinerary.stop', { number: stop })}
+          </h2>
+        </div>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-sm text-hilton-gray-500 hover:text-red-600"
+          onClick={() => onRemove(leg.id)}
+        >
+          <Trash2 className="w-4 h-4" />
+          {t('itinerary.remove')}
+        </button>
+      </div>
+
+      <FlightSelector
+        details={leg.flight}
+        onUpdate={handleFlightUpdate}
+        onCostUpdate={handleFlightCost}
+        points={points.flight}
+      />
+
+      <HotelSelector
+        details={leg.hotel}
+        onUpdate={handleHotelUpdate}
+        onCostUpdate={handleHotelCost}
+        points={points.hotel}
+        tier={tier}
+        baselineCents={baselineCents}
+      />
+
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-hilton-gray-700">
+          <input type="checkbox" checked={leg.carRental !== null} onChange={(e) => onToggleCar(leg.id, e.target.checked)} />
+          {t('itinerary.rentCar')}
+        </label>
+        {leg.carRental && (
+          <CarRentalSelector
+            details={leg.carRental}
+            onUpdate={handleCarUpdate}
+            onCostUpdate={handleCarCost}
+            points={points.carRental}
+            location={pickUpLocation}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
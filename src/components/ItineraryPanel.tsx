@@ -0,0 +1,80 @@
+import { AlertTriangle, Plus, Route } from 'lucide-react';
+import { CategoryCost, EliteTier, FlightSegment, HotelRoom, ItineraryLeg, PassengerCounts } from '../types';
+import { ItineraryIssue, MAX_LEGS, StopCategory } from '../trips/itinerary';
+import ItineraryLegCard from './ItineraryLegCard';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ItineraryPanelProps {
+  legs: ItineraryLeg[];
+  issues: ItineraryIssue[];
+  points: Record<string, Record<StopCategory, number>>; // By leg ID
+  tier: EliteTier;
+  baselineCents: number;
+  onAdd: () => void;
+  onUpdate: (id: string, category: StopCategory, field: string, value: string | number | boolean | HotelRoom[] | FlightSegment[] | PassengerCounts) => void;
+  onToggleCar: (id: string, enabled: boolean) => void;
+  onRemove: (id: string) => void;
+  onCostUpdate: (id: string, category: StopCategory, cost: CategoryCost) => void;
+}
+
+export default function ItineraryPanel({ legs, issues, points, tier, baselineCents, onAdd, ...legHandlers }: ItineraryPanelProps) {
+  const { t, tn } = useI18n();
+
+  const describeIssue = (issue: ItineraryIssue) => {
+    const params = { from: issue.leg, to: issue.leg + 1 };
+    switch (issue.kind) {
+      case 'gap': return tn('itinerary.issue.gap', issue.nights, params);
+      case 'overlap': return tn('itinerary.issue.overlap', issue.nights, params);
+      case 'flightDate': return t('itinerary.issue.flightDate', params);
+      case 'disconnected': return t('itinerary.issue.disconnected', params);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {legs.map((leg, index) => (
+        <ItineraryLegCard
+          key={leg.id}
+          leg={leg}
+          stop={index + 2}
+          points={points[leg.id]}
+          tier={tier}
+          baselineCents={baselineCents}
+          {...legHandlers}
+        />
+      ))}
+
+      <div className="bg-white rounded-xl p-6 shadow-sm space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Route className="w-6 h-6 text-hilton-blue" />
+            <div>
+              <h2 className="text-xl font-semibold text-hilton-gray-900">{t('itinerary.title')}</h2>
+              <p className="text-sm text-hilton-gray-500">{tn('itinerary.summary', legs.length + 1)}</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            className="hilton-button flex items-center gap-2 disabled:opacity-50"
+            disabled={legs.length >= MAX_LEGS}
+            onClick={onAdd}
+          >
+            <Plus className="w-4 h-4" />
+            {t('itinerary.add')}
+          </button>
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="space-y-2">
+            {issues.map((issue) => (
+              <li key={`${issue.kind}-${issue.leg}`} className="flex items-start gap-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                {describeIssue(issue)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
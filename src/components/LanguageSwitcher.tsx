@@ -0,0 +1,27 @@
+import { Languages } from 'lucide-react';
+import { LOCALES, LOCALE_CODES, isLocale } from '../i18n/locales';
+import { useI18n } from '../i18n/I18nContext';
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm">
+      <Languages className="w-4 h-4" />
+      <span className="sr-only">{t('app.language')}</span>
+      <select
+        className="bg-white/10 border border-white/30 rounded-md px-2 py-1 text-white"
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value);
+        }}
+      >
+        {LOCALE_CODES.map((code) => (
+          <option key={code} value={code} className="text-hilton-gray-900">
+            {LOCALES[code].name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,54 @@
+import { Users } from 'lucide-react';
+import { PassengerCounts } from '../types';
+import { MAX_SEATED_PASSENGERS, PASSENGER_FARE_RULES, PASSENGER_TYPES, checkPassengers } from '../pricing/passengers';
+import { useI18n } from '../i18n/I18nContext';
+
+interface PassengerMixProps {
+  passengers: PassengerCounts;
+  onChange: (passengers: PassengerCounts) => void;
+}
+
+export default function PassengerMix({ passengers, onChange }: PassengerMixProps) {
+  const { t, formatPercent } = useI18n();
+  const issue = checkPassengers(passengers);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Users className="w-5 h-5 text-hilton-blue" />
+        <h3 className="text-sm font-medium text-hilton-gray-700">{t('flight.passengers')}</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {PASSENGER_TYPES.map((type) => (
+          <div key={type}>
+            <label className="block text-xs font-medium text-hilton-gray-600 mb-1">
+              {t(`flight.passenger.${type}`)}
+            </label>
+            <input
+              type="number"
+              min="0"
+              max={MAX_SEATED_PASSENGERS}
+              className="hilton-input w-full"
+              value={passengers[type]}
+              onChange={(e) => onChange({ ...passengers, [type]: Math.max(0, Number(e.target.value)) })}
+            />
+            <p className="mt-1 text-xs text-hilton-gray-500">
+              {PASSENGER_FARE_RULES[type].fareShare === 1
+                ? t('flight.passenger.fullFare')
+                : t('flight.passenger.fareShare', { percent: formatPercent(PASSENGER_FARE_RULES[type].fareShare) })}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {issue ? (
+        <p className="text-sm text-red-600">
+          {t(`flight.passenger.issue.${issue}`, { max: MAX_SEATED_PASSENGERS })}
+        </p>
+      ) : (
+        <p className="text-xs text-hilton-gray-500">{t('flight.passenger.flowsTo')}</p>
+      )}
+    </div>
+  );
+}
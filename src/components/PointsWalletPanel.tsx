@@ -0,0 +1,158 @@
+import { Wallet, Sparkles } from 'lucide-react';
+import { EliteTier, PointsCategory, PointsWallet } from '../types';
+import {
+  POINTS_CATEGORIES,
+  REDEMPTION_RULES,
+  getAllocatedPoints,
+  getRemainingPoints
+} from '../points/wallet';
+import { ELITE_TIERS, TIER_BENEFITS } from '../points/tiers';
+import { useI18n } from '../i18n/I18nContext';
+
+interface PointsWalletPanelProps {
+  wallet: PointsWallet;
+  onBalanceChange: (balance: number) => void;
+  onAllocate: (category: PointsCategory, points: number) => void;
+  onModeChange: (mode: 'manual' | 'optimized') => void;
+  onTierChange: (tier: EliteTier) => void;
+  onBaselineChange: (baselineCents: number) => void;
+}
+
+export default function PointsWalletPanel({
+  wallet,
+  onBalanceChange,
+  onAllocate,
+  onModeChange,
+  onTierChange,
+  onBaselineChange
+}: PointsWalletPanelProps) {
+  const allocated = getAllocatedPoints(wallet);
+  const remaining = getRemainingPoints(wallet);
+  const isOptimized = wallet.mode === 'optimized';
+  const { t, formatPoints, formatNumber, formatPercent } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-hilton-blue" />
+          <h2 className="text-xl font-semibold text-hilton-blue">{t('wallet.title')}</h2>
+        </div>
+        <button
+          type="button"
+          className={isOptimized
+            ? 'hilton-button inline-flex items-center gap-2'
+            : 'inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-hilton-blue text-hilton-blue hover:bg-hilton-blue/5 transition-colors'}
+          onClick={() => onModeChange(isOptimized ? 'manual' : 'optimized')}
+        >
+          <Sparkles className="w-4 h-4" />
+          {isOptimized ? t('wallet.optimizing') : t('wallet.optimize')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('wallet.balance')}
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="1000"
+            className="hilton-input w-full"
+            value={wallet.balance || ''}
+            onChange={(e) => onBalanceChange(Number(e.target.value))}
+            placeholder={t('wallet.balancePlaceholder')}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('wallet.tier')}
+          </label>
+          <select
+            className="hilton-select w-full"
+            value={wallet.tier}
+            onChange={(e) => onTierChange(e.target.value as EliteTier)}
+          >
+            {ELITE_TIERS.map((tier) => (
+              <option key={tier} value={tier}>{t(`tier.${tier}`)}</option>
+            ))}
+          </select>
+          <p className="text-xs text-hilton-gray-500 mt-1">
+            {t('wallet.tierBonus', { percent: formatPercent(TIER_BENEFITS[wallet.tier].pointsBonus) })}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('wallet.baseline')}
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.1"
+            className="hilton-input w-full"
+            value={wallet.baselineCents}
+            onChange={(e) => onBaselineChange(Number(e.target.value))}
+          />
+          <p className="text-xs text-hilton-gray-500 mt-1">
+            {t('wallet.baselineHelp')}
+          </p>
+        </div>
+        <div className="text-center p-4 bg-hilton-gray-50 rounded-lg">
+          <p className="text-sm text-hilton-gray-600 mb-1">{t('wallet.allocated')}</p>
+          <p className="text-2xl font-bold text-purple-600">{formatPoints(allocated)}</p>
+        </div>
+        <div className="text-center p-4 bg-hilton-gray-50 rounded-lg">
+          <p className="text-sm text-hilton-gray-600 mb-1">{t('wallet.unallocated')}</p>
+          <p className="text-2xl font-bold text-green-600">{formatPoints(remaining)}</p>
+        </div>
+      </div>
+
+      {isOptimized && (
+        <p className="text-sm text-hilton-gray-600">
+          {t('wallet.optimizedHelp')}
+        </p>
+      )}
+
+      {wallet.balance > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {POINTS_CATEGORIES.map((category) => {
+            const allocation = wallet.allocations[category];
+            const max = allocation + remaining;
+            return (
+              <div key={category} className="p-4 rounded-lg border border-hilton-gray-200">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm font-medium text-hilton-gray-700">{t(`category.${category}`)}</span>
+                  <span className="text-xs text-hilton-gray-500">
+                    {t('common.pointsPerDollarRate', { cents: formatNumber(REDEMPTION_RULES[category].rate * 100, { minimumFractionDigits: 1 }) })}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max={max}
+                  step="1000"
+                  className="w-full accent-hilton-blue"
+                  value={allocation}
+                  disabled={isOptimized}
+                  onChange={(e) => onAllocate(category, Number(e.target.value))}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max={max}
+                  step="1000"
+                  className="hilton-input w-full mt-2"
+                  value={allocation}
+                  disabled={isOptimized}
+                  onChange={(e) => onAllocate(category, Number(e.target.value))}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
-import React from 'react';
 import { Link, ExternalLink } from 'lucide-react';
+import { useI18n } from '../i18n/I18nContext';
 
 export default function PricingSources() {
+  const { t } = useI18n();
   const sources = [
     {
-      category: 'Hotel Rates & Availability',
+      category: t('sources.hotel'),
       links: [
         { name: 'Hilton.com Official', url: 'https://www.hilton.com' },
         { name: 'Hilton Honors App', url: 'https://www.hilton.com/en/hilton-honors/mobile-app/' },
@@ -14,7 +15,7 @@ export default function PricingSources() {
       ]
     },
     {
-      category: 'Flights',
+      category: t('sources.flights'),
       links: [
         { name: 'Google Flights', url: 'https://www.google.com/flights' },
         { name: 'Hilton Travel Portal', url: 'https://travel.hilton.com' },
@@ -24,7 +25,7 @@ export default function PricingSources() {
       ]
     },
     {
-      category: 'Car Rentals',
+      category: t('sources.carRentals'),
       links: [
         { name: 'Hertz - Hilton Partnership', url: 'https://www.hertz.com/hilton' },
         { name: 'Enterprise', url: 'https://www.enterprise.com' },
@@ -33,7 +34,7 @@ export default function PricingSources() {
       ]
     },
     {
-      category: 'Ride Share',
+      category: t('sources.rideShare'),
       links: [
         { name: 'Lyft - Hilton Partnership', url: 'https://www.lyft.com/hilton' },
         { name: 'Uber', url: 'https://www.uber.com' },
@@ -42,7 +43,7 @@ export default function PricingSources() {
       ]
     },
     {
-      category: 'Loyalty Programs & Points',
+      category: t('sources.loyalty'),
       links: [
         { name: 'Hilton Honors', url: 'https://www.hilton.com/en/hilton-honors/' },
         { name: 'The Points Guy', url: 'https://thepointsguy.com' },
@@ -55,7 +56,7 @@ export default function PricingSources() {
     <div className="bg-white rounded-xl p-6 border border-gray-100">
       <div className="flex items-center gap-2 mb-6">
         <Link className="w-5 h-5 text-blue-600" />
-        <h2 className="text-xl font-semibold text-gray-800">Pricing Data Sources</h2>
+        <h2 className="text-xl font-semibold text-gray-800">{t('sources.title')}</h2>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
@@ -83,7 +84,7 @@ export default function PricingSources() {
 
       <div className="mt-8 p-4 bg-gray-50 rounded-lg">
         <p className="text-sm text-gray-600">
-          All pricing data is updated in real-time through official APIs and partnerships. Ride share estimates include Lyft partnership benefits with Hilton Honors points earning potential.
+          {t('sources.footnote')}
         </p>
       </div>
     </div>
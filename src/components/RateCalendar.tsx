@@ -0,0 +1,120 @@
+import { useState, useMemo } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { findCheapestCheckIn, getMonthRates } from '../pricing/hotel';
+import { addDays, daysBetween } from '../utils/dates';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface RateCalendarProps {
+  basePrice: number;
+  checkIn: string;
+  checkOut: string;
+  onSelectCheckIn: (checkIn: string) => void;
+}
+
+// A known Sunday-to-Saturday week, used to label the weekday columns
+const WEEK = Array.from({ length: 7 }, (_, i) => addDays('2023-01-01', i));
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const monthOf = (date: string) => {
+  const parsed = new Date(date || today());
+  const valid = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  return { year: valid.getUTCFullYear(), month: valid.getUTCMonth() };
+};
+
+export default function RateCalendar({ basePrice, checkIn, checkOut, onSelectCheckIn }: RateCalendarProps) {
+  const { format } = useCurrency();
+  const { t, tn, formatDate } = useI18n();
+  const [visible, setVisible] = useState(() => monthOf(checkIn));
+
+  const rates = useMemo(
+    () => getMonthRates(basePrice, visible.year, visible.month),
+    [basePrice, visible]
+  );
+
+  const nights = Math.max(1, daysBetween(checkIn, checkOut) || 0);
+  const cheapest = useMemo(
+    () => findCheapestCheckIn(basePrice, rates.map(r => r.date).filter(date => date >= today()), nights),
+    [basePrice, rates, nights]
+  );
+
+  const lowestRate = Math.min(...rates.map(r => r.rate));
+  const leadingBlanks = new Date(rates[0].date).getUTCDay();
+
+  const shiftMonth = (delta: number) =>
+    setVisible(prev => {
+      const next = new Date(Date.UTC(prev.year, prev.month + delta, 1));
+      return { year: next.getUTCFullYear(), month: next.getUTCMonth() };
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-hilton-blue" />
+          <h3 className="font-medium text-hilton-gray-700">{t('hotel.calendar.title')}</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="p-1 rounded hover:bg-hilton-gray-100"
+            title={t('hotel.calendar.previous')}
+            onClick={() => shiftMonth(-1)}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm font-medium text-hilton-gray-700 w-36 text-center">
+            {formatDate(rates[0].date, { month: 'long', year: 'numeric' })}
+          </span>
+          <button
+            type="button"
+            className="p-1 rounded hover:bg-hilton-gray-100"
+            title={t('hotel.calendar.next')}
+            onClick={() => shiftMonth(1)}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEK.map((day) => (
+          <span key={day} className="text-xs font-medium text-hilton-gray-500">
+            {formatDate(day, { weekday: 'short' })}
+          </span>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, i) => <span key={`blank-${i}`} />)}
+        {rates.map((night) => {
+          const inStay = night.date >= checkIn && night.date < checkOut;
+          const tone = night.rate === lowestRate
+            ? 'bg-green-50 text-green-700'
+            : night.rate > basePrice ? 'text-red-600' : 'text-hilton-gray-700';
+          return (
+            <button
+              key={night.date}
+              type="button"
+              className={`rounded-md p-1 text-xs hover:bg-hilton-gray-100 ${tone} ${inStay ? 'ring-2 ring-hilton-blue' : ''}`}
+              title={`${t(`season.${night.season}`)} · ${t('hotel.calendar.select')}`}
+              onClick={() => onSelectCheckIn(night.date)}
+            >
+              <span className="block font-medium">{Number(night.date.slice(8))}</span>
+              <span className="block">{format(Math.round(night.rate))}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-hilton-gray-500">{t('hotel.calendar.legend')}</p>
+      {cheapest && (
+        <p className="text-sm text-green-700">
+          {t('hotel.calendar.cheapest', {
+            nights: tn('common.nights', nights),
+            date: formatDate(cheapest.date),
+            amount: format(cheapest.total)
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,75 +1,101 @@
-import React, { useEffect, useMemo, useCallback } from 'react';
-import { Car } from 'lucide-react';
-import { rideShareTrips, diamondBenefits } from '../data/travelData';
+import { useEffect, useMemo } from 'react';
+import { Car, MapPin } from 'lucide-react';
+import { rideShareTrips } from '../data/travelData';
+import { CategoryCost, RideShareDetails } from '../types';
+import { AirportTransferSuggestion, priceRideShare, rideShareLineItems } from '../pricing/rideShare';
+import { emptyCost } from '../pricing/lineItems';
+import { earnLyftPoints, sumEarnings } from '../points/earnings';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
 
 interface RideShareSelectorProps {
-  details: {
-    type: string;
-    estimatedMiles: number;
-    estimatedMinutes: number;
-    numberOfRides: number;
-    timeOfDay: 'standard' | 'peak' | 'event';
-  };
+  details: RideShareDetails;
   onUpdate: (field: string, value: string | number) => void;
-  onCostUpdate: (cost: { cashPrice: number; pointsSavings: number }) => void;
-  points: number;
+  onCostUpdate: (cost: CategoryCost) => void;
+  suggestion: AirportTransferSuggestion | null;
+  onApplySuggestion: () => void;
 }
 
-export default function RideShareSelector({ details, onUpdate, onCostUpdate, points }: RideShareSelectorProps) {
-  const costs = useMemo(() => {
-    if (!details?.type || details.estimatedMiles <= 0) return { cashPrice: 0, pointsSavings: 0 };
+export default function RideShareSelector({
+  details,
+  onUpdate,
+  onCostUpdate,
+  suggestion,
+  onApplySuggestion
+}: RideShareSelectorProps) {
+  const { format } = useCurrency();
+  const { t, tn, formatPoints } = useI18n();
+  const costs = useMemo<CategoryCost>(() => {
+    if (!details.type || details.estimatedMiles <= 0) return emptyCost();
 
     const service = rideShareTrips.find(r => r.type === details.type);
-    if (!service) return { cashPrice: 0, pointsSavings: 0 };
+    if (!service) return emptyCost();
 
-    // Calculate base ride cost
-    const baseCost = service.basePrice +
-                    (service.pricePerMile * details.estimatedMiles) +
-                    (service.pricePerMinute * details.estimatedMinutes);
+    const breakdown = priceRideShare({
+      service,
+      miles: details.estimatedMiles,
+      minutes: details.estimatedMinutes,
+      rides: details.numberOfRides,
+      timeOfDay: details.timeOfDay
+    });
 
-    // Apply surge pricing
-    const surgeMultiplier = service.surgeMultipliers[details.timeOfDay];
-    const surgedCost = baseCost * surgeMultiplier;
-
-    // Calculate total for all rides
-    const totalCost = surgedCost * details.numberOfRides;
-
-    // Calculate Hilton Honors points earned (3 points per $1 spent on Lyft)
-    const pointsEarned = totalCost * diamondBenefits.lyftPartnership.pointsPerDollar;
-    
-    // Convert points to dollar value (standard Hilton points value)
-    const pointsSavings = pointsEarned * 0.005;
+    // Lyft rides earn Hilton Honors points; nothing is redeemed against them
+    const earnings = earnLyftPoints(breakdown.total);
 
     return {
-      cashPrice: Math.round(totalCost * 100) / 100,
-      pointsSavings: Math.round(pointsSavings * 100) / 100
+      ...emptyCost(),
+      cashPrice: breakdown.total,
+      pointsEarned: sumEarnings(earnings),
+      lineItems: rideShareLineItems(breakdown, details.numberOfRides),
+      earnings
     };
   }, [details]);
 
-  const handleUpdate = useCallback((field: string, value: string | number) => {
-    onUpdate(field, value);
-  }, [onUpdate]);
-
   useEffect(() => {
     onCostUpdate(costs);
   }, [costs, onCostUpdate]);
 
+  const suggestionApplied = suggestion !== null &&
+    details.estimatedMiles === suggestion.estimatedMiles &&
+    details.estimatedMinutes === suggestion.estimatedMinutes &&
+    details.numberOfRides === suggestion.numberOfRides;
+
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-2 mb-4">
-        <Car className="w-5 h-5 text-blue-600" />
-        <h2 className="text-xl font-semibold text-gray-800">Ride Share</h2>
+        <Car className="w-5 h-5 text-hilton-blue" />
+        <h2 className="text-xl font-semibold text-hilton-blue">{t('rideShare.title')}</h2>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      {suggestion && !suggestionApplied && (
+        <div className="flex items-start justify-between gap-4 bg-hilton-blue/5 border border-hilton-blue/20 rounded-lg px-4 py-3 text-sm">
+          <div className="flex items-start gap-2 text-hilton-gray-700">
+            <MapPin className="w-4 h-4 mt-0.5 text-hilton-blue shrink-0" />
+            <span>
+              {t('rideShare.suggestion', {
+                airport: suggestion.airport.code,
+                property: suggestion.property.name,
+                miles: suggestion.estimatedMiles,
+                minutes: suggestion.estimatedMinutes,
+                rides: tn('rideShare.rides', suggestion.numberOfRides)
+              })}
+            </span>
+          </div>
+          <button type="button" className="font-medium text-hilton-blue hover:underline shrink-0" onClick={onApplySuggestion}>
+            {t('rideShare.applySuggestion')}
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Service Type
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('rideShare.service')}
           </label>
           <select
-            className="w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            className="hilton-select w-full"
             value={details.type}
-            onChange={(e) => handleUpdate('type', e.target.value)}
+            onChange={(e) => onUpdate('type', e.target.value)}
           >
             {rideShareTrips.map((service) => (
               <option key={service.type} value={service.type}>
@@ -80,92 +106,83 @@ export default function RideShareSelector({ details, onUpdate, onCostUpdate, poi
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Estimated Miles
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('rideShare.miles')}
           </label>
           <input
             type="number"
             min="0"
             step="0.1"
-            className="w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            className="hilton-input w-full"
             value={details.estimatedMiles}
-            onChange={(e) => handleUpdate('estimatedMiles', Number(e.target.value))}
+            onChange={(e) => onUpdate('estimatedMiles', Number(e.target.value))}
           />
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Estimated Minutes
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('rideShare.minutes')}
           </label>
           <input
             type="number"
             min="0"
-            className="w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            className="hilton-input w-full"
             value={details.estimatedMinutes}
-            onChange={(e) => handleUpdate('estimatedMinutes', Number(e.target.value))}
+            onChange={(e) => onUpdate('estimatedMinutes', Number(e.target.value))}
           />
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Number of Rides
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('rideShare.numberOfRides')}
           </label>
           <input
             type="number"
             min="1"
-            className="w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            className="hilton-input w-full"
             value={details.numberOfRides}
-            onChange={(e) => handleUpdate('numberOfRides', Number(e.target.value))}
+            onChange={(e) => onUpdate('numberOfRides', Number(e.target.value))}
           />
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Time of Day
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">
+            {t('rideShare.timeOfDay')}
           </label>
           <select
-            className="w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            className="hilton-select w-full"
             value={details.timeOfDay}
-            onChange={(e) => handleUpdate('timeOfDay', e.target.value as 'standard' | 'peak' | 'event')}
+            onChange={(e) => onUpdate('timeOfDay', e.target.value)}
           >
-            <option value="standard">Standard</option>
-            <option value="peak">Peak Hours</option>
-            <option value="event">Special Event</option>
+            <option value="standard">{t('rideShare.standard')}</option>
+            <option value="peak">{t('rideShare.peak')}</option>
+            <option value="event">{t('rideShare.event')}</option>
           </select>
         </div>
       </div>
 
-      {details.estimatedMiles > 0 && (
-        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 bg-gray-50 p-4 rounded-lg">
+      {costs.cashPrice > 0 && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 bg-hilton-gray-50 p-4 rounded-lg">
           <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-            <p className="text-sm text-gray-600 mb-1">Total Cost</p>
-            <p className="text-2xl font-bold text-gray-900">
-              ${costs.cashPrice.toFixed(2)}
+            <p className="text-sm text-hilton-gray-600 mb-1">{t('common.totalCost')}</p>
+            <p className="text-2xl font-bold text-hilton-gray-900">
+              {format(costs.cashPrice)}
             </p>
-            <p className="text-xs text-gray-500 mt-1">
-              For {details.numberOfRides} ride{details.numberOfRides !== 1 ? 's' : ''}
+            <p className="text-xs text-hilton-gray-500 mt-1">
+              {tn('rideShare.forRides', details.numberOfRides)}
             </p>
           </div>
           <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-            <p className="text-sm text-gray-600 mb-1">Points Earned Value</p>
+            <p className="text-sm text-hilton-gray-600 mb-1">{t('common.pointsEarned')}</p>
             <p className="text-2xl font-bold text-purple-600">
-              ${costs.pointsSavings.toFixed(2)}
-            </p>
-            <p className="text-xs text-gray-500 mt-1">
-              {Math.round(costs.cashPrice * diamondBenefits.lyftPartnership.pointsPerDollar)} Hilton Points
-            </p>
-          </div>
-          <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-            <p className="text-sm text-gray-600 mb-1">Net Cost</p>
-            <p className="text-2xl font-bold text-green-600">
-              ${(costs.cashPrice - costs.pointsSavings).toFixed(2)}
+              {formatPoints(costs.pointsEarned)}
             </p>
-            <p className="text-xs text-gray-500 mt-1">
-              After points value
+            <p className="text-xs text-hilton-gray-500 mt-1">
+              {t('rideShare.lyftEarning')}
             </p>
           </div>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
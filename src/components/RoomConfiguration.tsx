@@ -0,0 +1,110 @@
+import { BedDouble, Plus, Trash2 } from 'lucide-react';
+import { HotelRoom } from '../types';
+import { MAX_ROOMS, RoomCatalog, createRoom, exceedsOccupancy, getRoomType } from '../pricing/rooms';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface RoomConfigurationProps {
+  rooms: HotelRoom[];
+  catalog: RoomCatalog;
+  onChange: (rooms: HotelRoom[]) => void;
+}
+
+export default function RoomConfiguration({ rooms, catalog, onChange }: RoomConfigurationProps) {
+  const { format } = useCurrency();
+  const { t, formatPercent } = useI18n();
+
+  const updateRoom = (index: number, changes: Partial<HotelRoom>) =>
+    onChange(rooms.map((room, i) => i === index ? { ...room, ...changes } : room));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <BedDouble className="w-5 h-5 text-hilton-blue" />
+          <h3 className="text-sm font-medium text-hilton-gray-700">{t('hotel.rooms')}</h3>
+        </div>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-sm text-hilton-blue hover:underline disabled:opacity-50"
+          disabled={rooms.length >= MAX_ROOMS}
+          onClick={() => onChange([...rooms, createRoom()])}
+        >
+          <Plus className="w-4 h-4" />
+          {t('hotel.room.add')}
+        </button>
+      </div>
+
+      {rooms.map((room, index) => {
+        const type = getRoomType(catalog, room.type);
+        return (
+          <div key={index} className="rounded-lg border border-hilton-gray-200 p-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label className="block text-xs font-medium text-hilton-gray-600 mb-1">
+                  {t('hotel.room.label', { number: index + 1 })}
+                </label>
+                <select
+                  className="hilton-select w-full"
+                  value={type.id}
+                  onChange={(e) => updateRoom(index, { type: e.target.value as HotelRoom['type'] })}
+                >
+                  {catalog.types.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {t(`hotel.room.type.${option.id}`)}
+                      {option.rateMultiplier > 1 ? ` (+${formatPercent(option.rateMultiplier - 1)})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-hilton-gray-600 mb-1">{t('hotel.room.adults')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  className="hilton-input w-full"
+                  value={room.adults}
+                  onChange={(e) => updateRoom(index, { adults: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-hilton-gray-600 mb-1">{t('hotel.room.children')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  className="hilton-input w-full"
+                  value={room.children}
+                  onChange={(e) => updateRoom(index, { children: Math.max(0, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="flex items-center justify-between text-xs text-hilton-gray-500">
+                <span>{t('hotel.room.maxOccupancy', { count: type.maxOccupancy })}</span>
+                {rooms.length > 1 && (
+                  <button
+                    type="button"
+                    className="p-1 hover:text-red-600"
+                    title={t('hotel.room.remove')}
+                    onClick={() => onChange(rooms.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+            {exceedsOccupancy(catalog, room) && (
+              <p className="mt-2 text-sm text-red-600">
+                {t('hotel.room.overOccupancy', { count: type.maxOccupancy })}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {catalog.extraPersonCharge > 0 && (
+        <p className="text-xs text-hilton-gray-500">
+          {t('hotel.room.extraPerson', { adults: catalog.includedAdults, amount: format(catalog.extraPersonCharge) })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { Bookmark, Copy, Pencil, Trash2, Upload, Save, Check, X } from 'lucide-react';
+import { TripState } from '../types';
+import { expandedHiltonProperties } from '../data/hiltonProperties';
+import {
+  SavedTrip,
+  loadSavedTrips,
+  storeSavedTrips,
+  addSavedTrip,
+  updateSavedTrip,
+  renameSavedTrip,
+  duplicateSavedTrip,
+  deleteSavedTrip
+} from '../trips/savedTrips';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SavedTripsSidebarProps {
+  currentTrip: TripState;
+  onLoad: (trip: TripState) => void;
+}
+
+const describeTrip = (trip: TripState, { t, tn, formatDate }: ReturnType<typeof useI18n>) => {
+  const property = expandedHiltonProperties.find(p => p.id === trip.hotel.property);
+  const dates = trip.hotel.checkIn && trip.hotel.checkOut
+    ? `${formatDate(trip.hotel.checkIn)} → ${formatDate(trip.hotel.checkOut)}`
+    : t('saved.noDates');
+  return [
+    property?.name,
+    dates,
+    trip.legs.length > 0 ? tn('itinerary.moreStops', trip.legs.length) : null
+  ].filter(Boolean).join(' · ');
+};
+
+export default function SavedTripsSidebar({ currentTrip, onLoad }: SavedTripsSidebarProps) {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  const [trips, setTrips] = useState<SavedTrip[]>(() => loadSavedTrips());
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    storeSavedTrips(trips);
+  }, [trips]);
+
+  const handleSave = () => {
+    const next = addSavedTrip(trips, newName, currentTrip, t('saved.untitled'));
+    setTrips(next);
+    setActiveId(next[0].id);
+    setNewName('');
+  };
+
+  const handleLoad = (saved: SavedTrip) => {
+    setActiveId(saved.id);
+    onLoad(saved.trip);
+  };
+
+  const handleRename = (id: string) => {
+    setTrips(prev => renameSavedTrip(prev, id, editingName));
+    setEditingId(null);
+  };
+
+  const handleDelete = (saved: SavedTrip) => {
+    if (!window.confirm(t('saved.confirmDelete', { name: saved.name }))) return;
+    setTrips(prev => deleteSavedTrip(prev, saved.id));
+    if (activeId === saved.id) setActiveId(null);
+  };
+
+  return (
+    <aside className="bg-white rounded-xl p-6 shadow-sm space-y-4 lg:sticky lg:top-8">
+      <div className="flex items-center gap-2">
+        <Bookmark className="w-5 h-5 text-hilton-blue" />
+        <h2 className="text-xl font-semibold text-hilton-blue">{t('saved.title')}</h2>
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        <input
+          type="text"
+          className="hilton-input flex-1 min-w-0"
+          placeholder={t('saved.namePlaceholder')}
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <button type="submit" className="hilton-button inline-flex items-center gap-1" title={t('saved.save')}>
+          <Save className="w-4 h-4" />
+        </button>
+      </form>
+
+      {trips.length === 0 ? (
+        <p className="text-sm text-hilton-gray-500">
+          {t('saved.empty')}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {trips.map((saved) => (
+            <li
+              key={saved.id}
+              className={`p-3 rounded-lg border transition-colors ${
+                saved.id === activeId ? 'border-hilton-blue bg-hilton-blue/5' : 'border-hilton-gray-200'
+              }`}
+            >
+              {editingId === saved.id ? (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleRename(saved.id);
+                  }}
+                >
+                  <input
+                    type="text"
+                    className="hilton-input flex-1 min-w-0 text-sm"
+                    value={editingName}
+                    autoFocus
+                    onChange={(e) => setEditingName(e.target.value)}
+                  />
+                  <button type="submit" className="text-green-600" title={t('saved.saveName')}>
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button type="button" className="text-hilton-gray-500" title={t('common.cancel')} onClick={() => setEditingId(null)}>
+                    <X className="w-4 h-4" />
+                  </button>
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  className="text-left w-full"
+                  onClick={() => handleLoad(saved)}
+                >
+                  <p className="font-medium text-hilton-gray-900 truncate">{saved.name}</p>
+                  <p className="text-xs text-hilton-gray-500 truncate">{describeTrip(saved.trip, i18n)}</p>
+                </button>
+              )}
+
+              <div className="flex items-center gap-3 mt-2 text-hilton-gray-500">
+                <button
+                  type="button"
+                  className="hover:text-hilton-blue"
+                  title={t('saved.overwrite')}
+                  onClick={() => setTrips(prev => updateSavedTrip(prev, saved.id, currentTrip))}
+                >
+                  <Upload className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  className="hover:text-hilton-blue"
+                  title={t('saved.rename')}
+                  onClick={() => {
+                    setEditingId(saved.id);
+                    setEditingName(saved.name);
+                  }}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  className="hover:text-hilton-blue"
+                  title={t('saved.duplicate')}
+                  onClick={() => setTrips(prev => duplicateSavedTrip(prev, saved.id, name => t('saved.copyName', { name })))}
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                <span className="text-xs ml-auto">{formatDate(saved.updatedAt)}</span>
+                <button
+                  type="button"
+                  className="hover:text-red-600"
+                  title={t('saved.delete')}
+                  onClick={() => handleDelete(saved)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
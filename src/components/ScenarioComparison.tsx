@@ -0,0 +1,201 @@
+import { useState, useMemo } from 'react';
+import { Columns, Plus, Trash2, Upload, RefreshCw, Trophy } from 'lucide-react';
+import { CategoryCost, CostCategory, TripState } from '../types';
+import { expandedHiltonProperties } from '../data/hiltonProperties';
+import { flightClasses } from '../data/travelData';
+import { COST_CATEGORIES } from '../pricing/lineItems';
+import { daysBetween } from '../utils/dates';
+import { createId } from '../utils/storage';
+import { Scenario, MIN_SCENARIOS, MAX_SCENARIOS, compareScenarios } from '../trips/comparison';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ScenarioComparisonProps {
+  currentTrip: TripState;
+  currentCosts: Record<CostCategory, CategoryCost>;
+  onLoad: (trip: TripState) => void;
+}
+
+const describeScenario = (trip: TripState, { t, tn }: ReturnType<typeof useI18n>) => {
+  const property = expandedHiltonProperties.find(p => p.id === trip.hotel.property);
+  const nights = daysBetween(trip.hotel.checkIn, trip.hotel.checkOut);
+  const flightClass = flightClasses.find(fc => fc.id === trip.flight.flightClass);
+
+  return [
+    property?.name || t('compare.noHotel'),
+    nights > 0 ? tn('common.nights', nights) : null,
+    trip.flight.origin && trip.flight.destination ? flightClass?.name : null,
+    trip.carRental.company ? `${trip.carRental.company} ${trip.carRental.category}` : null,
+    trip.legs.length > 0 ? tn('itinerary.moreStops', trip.legs.length) : null
+  ].filter(Boolean).join(' · ');
+};
+
+const formatDelta = (value: number, format: (usd: number) => string) => {
+  if (Math.abs(value) < 0.005) return `±${format(0)}`;
+  return `${value > 0 ? '+' : '-'}${format(Math.abs(value))}`;
+};
+
+export default function ScenarioComparison({ currentTrip, currentCosts, onLoad }: ScenarioComparisonProps) {
+  const { format } = useCurrency();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+  const comparison = useMemo(
+    () => scenarios.length ? compareScenarios(scenarios) : null,
+    [scenarios]
+  );
+
+  const handleAdd = () => {
+    setScenarios(prev => {
+      // Letters continue after the highest in use, so removing an option never repeats a name
+      const option = prev.reduce((highest, s) => Math.max(highest, s.option + 1), 0);
+      return [...prev, {
+        id: createId(),
+        option,
+        name: t('compare.optionName', { letter: String.fromCharCode(65 + option) }),
+        trip: currentTrip,
+        costs: currentCosts
+      }];
+    });
+  };
+
+  const handleUpdate = (id: string) => {
+    setScenarios(prev => prev.map(s => s.id === id ? { ...s, trip: currentTrip, costs: currentCosts } : s));
+  };
+
+  const handleRename = (id: string, name: string) => {
+    setScenarios(prev => prev.map(s => s.id === id ? { ...s, name } : s));
+  };
+
+  const handleRemove = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Columns className="w-5 h-5 text-hilton-blue" />
+          <h2 className="text-xl font-semibold text-hilton-blue">{t('compare.title')}</h2>
+        </div>
+        <button
+          type="button"
+          className="hilton-button inline-flex items-center gap-2 disabled:opacity-50"
+          disabled={scenarios.length >= MAX_SCENARIOS}
+          onClick={handleAdd}
+        >
+          <Plus className="w-4 h-4" />
+          {t('compare.add')}
+        </button>
+      </div>
+
+      {scenarios.length < MIN_SCENARIOS && (
+        <p className="text-sm text-hilton-gray-500">
+          {t('compare.help', { min: MIN_SCENARIOS, max: MAX_SCENARIOS })}
+        </p>
+      )}
+
+      {comparison && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="align-top">
+                <th className="text-left font-medium text-hilton-gray-600 py-2 pr-4 w-40">{t('compare.category')}</th>
+                {scenarios.map((scenario) => (
+                  <th key={scenario.id} className="text-left font-normal py-2 px-3 min-w-[12rem]">
+                    <input
+                      type="text"
+                      className="hilton-input w-full text-sm font-semibold"
+                      value={scenario.name}
+                      onChange={(e) => handleRename(scenario.id, e.target.value)}
+                    />
+                    <p className="text-xs text-hilton-gray-500 mt-1">{describeScenario(scenario.trip, i18n)}</p>
+                    <div className="flex items-center gap-3 mt-2 text-hilton-gray-500">
+                      <button type="button" className="hover:text-hilton-blue" title={t('compare.load')} onClick={() => onLoad(scenario.trip)}>
+                        <Upload className="w-4 h-4" />
+                      </button>
+                      <button type="button" className="hover:text-hilton-blue" title={t('compare.update')} onClick={() => handleUpdate(scenario.id)}>
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button type="button" className="hover:text-red-600 ml-auto" title={t('compare.remove')} onClick={() => handleRemove(scenario.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {COST_CATEGORIES.map((category) => (
+                <tr key={category} className="border-t">
+                  <td className="py-2 pr-4 text-hilton-gray-700">{t(`category.${category}`)}</td>
+                  {scenarios.map((scenario, index) => {
+                    const cost = scenario.costs[category];
+                    const delta = comparison.deltas[scenario.id][category];
+                    return (
+                      <td key={scenario.id} className="py-2 px-3">
+                        <p className="font-medium">{format(cost.cashPrice)}</p>
+                        <p className="text-xs text-hilton-gray-500">
+                          {t('compare.net', { amount: format(cost.cashPrice - cost.pointsSavings) })}
+                        </p>
+                        {index > 0 && (
+                          <p className={`text-xs ${delta.net > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {t('compare.netDelta', { delta: formatDelta(delta.net, format) })}
+                          </p>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+
+              <tr className="border-t-2 border-hilton-gray-300">
+                <td className="py-2 pr-4 font-medium text-hilton-gray-700">{t('compare.totalCash')}</td>
+                {scenarios.map((scenario, index) => (
+                  <td
+                    key={scenario.id}
+                    className={`py-2 px-3 ${comparison.cheapestCash === scenario.id ? 'bg-green-50' : ''}`}
+                  >
+                    <p className="font-semibold flex items-center gap-1">
+                      {format(comparison.totals[scenario.id].cash)}
+                      {comparison.cheapestCash === scenario.id && <Trophy className="w-4 h-4 text-green-600" />}
+                    </p>
+                    {index > 0 && (
+                      <p className={`text-xs ${comparison.deltas[scenario.id].total.cash > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatDelta(comparison.deltas[scenario.id].total.cash, format)}
+                      </p>
+                    )}
+                  </td>
+                ))}
+              </tr>
+
+              <tr className="border-t">
+                <td className="py-2 pr-4 font-medium text-hilton-gray-700">{t('compare.netAfterPoints')}</td>
+                {scenarios.map((scenario, index) => (
+                  <td
+                    key={scenario.id}
+                    className={`py-2 px-3 ${comparison.cheapestNet === scenario.id ? 'bg-green-50' : ''}`}
+                  >
+                    <p className="font-semibold flex items-center gap-1">
+                      {format(comparison.totals[scenario.id].net)}
+                      {comparison.cheapestNet === scenario.id && <Trophy className="w-4 h-4 text-green-600" />}
+                    </p>
+                    {index > 0 && (
+                      <p className={`text-xs ${comparison.deltas[scenario.id].total.net > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatDelta(comparison.deltas[scenario.id].total.net, format)}
+                      </p>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-hilton-gray-500 mt-3">
+            {t('compare.footnote')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { Link2, Check } from 'lucide-react';
+import { TripState } from '../types';
+import { buildShareUrl } from '../trips/shareLink';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ShareTripButtonProps {
+  trip: TripState;
+}
+
+export default function ShareTripButton({ trip }: ShareTripButtonProps) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const url = buildShareUrl(trip);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be blocked; fall back to letting the user copy by hand
+      window.prompt(t('share.prompt'), url);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className="hilton-button inline-flex items-center gap-2"
+      onClick={handleCopy}
+    >
+      {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+      {copied ? t('share.copied') : t('share.copy')}
+    </button>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { TrendingUp, Plus, CheckCircle2, Trash2 } from 'lucide-react';
+import {
+  QUALIFYING_TIERS,
+  TIER_REQUIREMENTS,
+  addTotals,
+  getNextTier,
+  getQualifiedTier,
+  getTierProgress,
+  stayYear,
+  staysInYear,
+  sumStays
+} from '../points/qualification';
+import {
+  RecordedStay,
+  StayStatus,
+  loadStayHistory,
+  storeStayHistory,
+  addStay,
+  setStayStatus,
+  deleteStay,
+  isStayRecorded
+} from '../trips/stayHistory';
+import { useI18n } from '../i18n/I18nContext';
+
+export interface PricedStay {
+  name: string;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  basePoints: number;
+}
+
+interface StatusTrackerProps {
+  currentStays: PricedStay[]; // One per stop with a hotel
+}
+
+const emptyForm = { name: '', checkIn: '', checkOut: '', basePoints: 0, status: 'completed' as StayStatus };
+
+export default function StatusTracker({ currentStays }: StatusTrackerProps) {
+  const { t, tn, formatPoints, formatDate } = useI18n();
+  const [stays, setStays] = useState<RecordedStay[]>(() => loadStayHistory());
+  const [form, setForm] = useState(emptyForm);
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+
+  useEffect(() => {
+    storeStayHistory(stays);
+  }, [stays]);
+
+  // The trip's stays count as planned until they have been recorded
+  const pendingStays = currentStays.filter(stay => stay.nights > 0 && !isStayRecorded(stays, stay));
+
+  // Years with recorded stays, newest first, always offering this one
+  const years = Array.from(new Set([currentYear, year, ...stays.map(stayYear)])).sort((a, b) => b - a);
+  const yearStays = staysInYear(stays, year);
+  const pendingInYear = staysInYear(pendingStays, year);
+
+  const completed = sumStays(yearStays.filter(stay => stay.status === 'completed'));
+  const planned = addTotals(
+    sumStays(yearStays.filter(stay => stay.status === 'planned')),
+    sumStays(pendingInYear)
+  );
+  const projected = addTotals(completed, planned);
+
+  const qualifiedTier = getQualifiedTier(projected);
+  const nextTier = getNextTier(projected);
+
+  const handleAddCurrent = () => {
+    setStays(prev => pendingStays.reduce(
+      (next, stay) => addStay(next, { ...stay, status: 'planned' }, t('status.defaultName')),
+      prev
+    ));
+  };
+
+  const handleAdd = () => {
+    setStays(prev => addStay(prev, form, t('status.defaultName')));
+    setForm(emptyForm);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-hilton-blue" />
+          <h2 className="text-xl font-semibold text-hilton-blue">{t('status.title')}</h2>
+          <select
+            className="hilton-select"
+            aria-label={t('status.year')}
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+          >
+            {years.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        {pendingStays.length > 0 && (
+          <button type="button" className="hilton-button inline-flex items-center gap-2" onClick={handleAddCurrent}>
+            <Plus className="w-4 h-4" />
+            {t('status.addCurrent')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+        {[
+          { label: t('status.completed'), totals: completed },
+          { label: t('status.planned'), totals: planned },
+          { label: t('status.projected'), totals: projected }
+        ].map(({ label, totals }) => (
+          <div key={label} className="p-4 bg-hilton-gray-50 rounded-lg">
+            <p className="text-sm text-hilton-gray-600 mb-1">{label}</p>
+            <p className="text-lg font-semibold text-hilton-gray-900">
+              {tn('common.nights', totals.nights)} · {tn('status.stays', totals.stays)}
+            </p>
+            <p className="text-sm text-hilton-gray-500">{t('status.basePointsValue', { points: formatPoints(totals.basePoints) })}</p>
+          </div>
+        ))}
+      </div>
+
+      {pendingInYear.length > 0 && (
+        <p className="text-xs text-hilton-gray-500">
+          {t('status.includesCurrent', { nights: tn('common.nights', sumStays(pendingInYear).nights) })}
+        </p>
+      )}
+
+      <p className="text-sm font-medium text-hilton-gray-700">
+        {nextTier
+          ? tn('status.moreNights', nextTier.remaining.nights, { tier: t(`tier.${nextTier.tier}`) })
+          : t('status.topTier')}
+        {qualifiedTier !== 'member' && (
+          <span className="text-green-600"> · {t('status.qualifies', { tier: t(`tier.${qualifiedTier}`) })}</span>
+        )}
+      </p>
+
+      <div className="space-y-4">
+        {QUALIFYING_TIERS.map((tier) => {
+          const required = TIER_REQUIREMENTS[tier];
+          const progress = getTierProgress(projected, tier);
+          const completedShare = Math.min(1, completed.nights / required.nights);
+          const projectedShare = Math.min(1, projected.nights / required.nights);
+          return (
+            <div key={tier}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-hilton-gray-700">{t(`tier.${tier}`)}</span>
+                <span className="text-hilton-gray-500">
+                  {t('status.nightsOf', { nights: projected.nights, required: required.nights })}
+                </span>
+              </div>
+              <div className="relative h-3 rounded-full bg-hilton-gray-100 overflow-hidden">
+                <div className="absolute inset-y-0 left-0 bg-hilton-blue/30" style={{ width: `${projectedShare * 100}%` }} />
+                <div className="absolute inset-y-0 left-0 bg-hilton-blue" style={{ width: `${completedShare * 100}%` }} />
+              </div>
+              <p className={`text-xs mt-1 ${progress.met ? 'text-green-600' : 'text-hilton-gray-500'}`}>
+                {progress.met
+                  ? t('status.met')
+                  : t('status.remaining', {
+                      nights: progress.remaining.nights,
+                      stays: progress.remaining.stays,
+                      points: formatPoints(progress.remaining.basePoints)
+                    })}
+              </p>
+            </div>
+          );
+        })}
+        <p className="text-xs text-hilton-gray-500">{t('status.legend')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium text-hilton-gray-700">{t('status.history')}</h3>
+        {stays.length === 0 ? (
+          <p className="text-sm text-hilton-gray-500">{t('status.empty')}</p>
+        ) : (
+          <ul className="divide-y divide-hilton-gray-100">
+            {stays.map((stay) => (
+              <li key={stay.id} className="flex items-center gap-3 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-hilton-gray-900 truncate">{stay.name}</p>
+                  <p className="text-xs text-hilton-gray-500">
+                    {formatDate(stay.checkIn)} → {formatDate(stay.checkOut)} · {tn('common.nights', stay.nights)} · {t('status.basePointsValue', { points: formatPoints(stay.basePoints) })}
+                  </p>
+                </div>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  stay.status === 'completed' ? 'bg-green-100 text-green-700' : 'bg-hilton-blue/10 text-hilton-blue'
+                }`}>
+                  {t(`status.${stay.status}Stay`)}
+                </span>
+                {stay.status === 'planned' && (
+                  <button
+                    type="button"
+                    className="text-hilton-gray-500 hover:text-green-600"
+                    title={t('status.markCompleted')}
+                    onClick={() => setStays(prev => setStayStatus(prev, stay.id, 'completed'))}
+                  >
+                    <CheckCircle2 className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="text-hilton-gray-500 hover:text-red-600"
+                  title={t('status.delete')}
+                  onClick={() => setStays(prev => deleteStay(prev, stay.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form
+        className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleAdd();
+        }}
+      >
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">{t('status.hotel')}</label>
+          <input
+            type="text"
+            className="hilton-input w-full"
+            placeholder={t('status.hotelPlaceholder')}
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">{t('hotel.checkIn')}</label>
+          <input
+            type="date"
+            className="hilton-input w-full"
+            value={form.checkIn}
+            onChange={(e) => setForm(prev => ({ ...prev, checkIn: e.target.value }))}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">{t('hotel.checkOut')}</label>
+          <input
+            type="date"
+            className="hilton-input w-full"
+            min={form.checkIn}
+            value={form.checkOut}
+            onChange={(e) => setForm(prev => ({ ...prev, checkOut: e.target.value }))}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-hilton-gray-700 mb-2">{t('status.basePoints')}</label>
+          <input
+            type="number"
+            min="0"
+            step="100"
+            className="hilton-input w-full"
+            value={form.basePoints || ''}
+            onChange={(e) => setForm(prev => ({ ...prev, basePoints: Number(e.target.value) }))}
+          />
+        </div>
+        <div className="flex gap-2">
+          <select
+            className="hilton-select flex-1 min-w-0"
+            value={form.status}
+            onChange={(e) => setForm(prev => ({ ...prev, status: e.target.value as StayStatus }))}
+          >
+            <option value="completed">{t('status.completedStay')}</option>
+            <option value="planned">{t('status.plannedStay')}</option>
+          </select>
+          <button
+            type="submit"
+            className="hilton-button disabled:opacity-50"
+            title={t('status.add')}
+            disabled={!form.checkIn || form.checkOut <= form.checkIn}
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
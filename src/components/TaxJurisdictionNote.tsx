@@ -0,0 +1,18 @@
+import { useI18n } from '../i18n/I18nContext';
+
+interface TaxJurisdictionNoteProps {
+  jurisdiction: string | null;
+  place?: string; // Shown when no rules matched and the default rates apply
+}
+
+export default function TaxJurisdictionNote({ jurisdiction, place }: TaxJurisdictionNoteProps) {
+  const { t } = useI18n();
+
+  return (
+    <p className="text-xs text-hilton-gray-500">
+      {jurisdiction
+        ? t('common.taxJurisdiction', { name: jurisdiction })
+        : place ? t('common.taxDefault', { place }) : t('common.taxNoLocation')}
+    </p>
+  );
+}
@@ -1,35 +1,45 @@
-import React from 'react';
-import { DollarSign } from 'lucide-react';
+import { useState } from 'react';
+import { AlertTriangle, DollarSign, Sparkles, ChevronDown, ChevronUp } from 'lucide-react';
+import { CategoryCost, CostCategory, PointsWallet, LineItem, LineItemKind } from '../types';
+import { AllocationPlan, AllocationStep } from '../points/optimizer';
+import { EARNING_SOURCES, earningsBySource } from '../points/earnings';
+import { centsPerPoint, isPoorRedemption, valueRedemptions } from '../points/valuation';
+import { totalsByKind } from '../pricing/lineItems';
+import CostBreakdown from './CostBreakdown';
+import { BASE_CURRENCY } from '../currency/currencies';
+import { useCurrency } from '../currency/CurrencyContext';
+import { useI18n } from '../i18n/I18nContext';
+
+const LINE_ITEM_KINDS: LineItemKind[] = ['base', 'seasonal', 'discount', 'fee', 'tax', 'points'];
 
 interface TotalCostSummaryProps {
-  hotelCost: {
-    cashPrice: number;
-    pointsSavings: number;
-  };
-  flightCost: {
-    cashPrice: number;
-    pointsSavings: number;
-  };
-  carRentalCost: {
-    cashPrice: number;
-    pointsSavings: number;
-  };
-  entertainmentCost: {
-    cashPrice: number;
-    pointsSavings: number;
-  };
+  hotelCost: CategoryCost;
+  flightCost: CategoryCost;
+  carRentalCost: CategoryCost;
+  entertainmentCost: CategoryCost;
+  rideShareCost: CategoryCost;
+  wallet: PointsWallet;
+  allocationPlan?: AllocationPlan;
 }
 
 export default function TotalCostSummary({ 
   hotelCost, 
   flightCost, 
   carRentalCost,
-  entertainmentCost 
+  entertainmentCost,
+  rideShareCost,
+  wallet,
+  allocationPlan
 }: TotalCostSummaryProps) {
+  const { format, formatBase, displayCurrency, rates } = useCurrency();
+  const { t, tn, formatNumber, formatPoints } = useI18n();
+  // When converting, keep the original US dollar figures visible for reference
+  const isConverted = displayCurrency !== BASE_CURRENCY;
   const totalCashPrice = hotelCost.cashPrice + 
                         flightCost.cashPrice + 
                         carRentalCost.cashPrice +
-                        entertainmentCost.cashPrice;
+                        entertainmentCost.cashPrice +
+                        rideShareCost.cashPrice;
                         
   const totalPointsSavings = hotelCost.pointsSavings + 
                             flightCost.pointsSavings + 
@@ -38,90 +48,272 @@ export default function TotalCostSummary({
                             
   const finalCost = totalCashPrice - totalPointsSavings;
 
+  // Allocated points a category could not use flow back into the leftover balance
+  const totalPointsUsed = hotelCost.pointsUsed +
+                         flightCost.pointsUsed +
+                         carRentalCost.pointsUsed +
+                         entertainmentCost.pointsUsed;
+
+  const leftoverPoints = Math.max(0, wallet.balance - totalPointsUsed);
+
+  const categories: { key: CostCategory; cost: CategoryCost }[] = [
+    { key: 'hotel', cost: hotelCost },
+    { key: 'flight', cost: flightCost },
+    { key: 'carRental', cost: carRentalCost },
+    { key: 'entertainment', cost: entertainmentCost },
+    { key: 'rideShare', cost: rideShareCost }
+  ];
+
+  // Earned points are credited after the trip, so they never offset the cash total
+  const totalPointsEarned = categories.reduce((sum, { cost }) => sum + cost.pointsEarned, 0);
+  const tripEarnings = earningsBySource(categories.flatMap(({ cost }) => cost.earnings));
+  const earnedLedger = EARNING_SOURCES
+    .filter(source => tripEarnings[source])
+    .map(source => ({ source, points: tripEarnings[source] || 0 }));
+
+  // Every points redemption, valued against the wallet's baseline
+  const valuations = valueRedemptions(categories, wallet.baselineCents);
+  const valuationByCategory = Object.fromEntries(valuations.map(v => [v.category, v]));
+  const poorRedemptions = valuations.filter(v => v.poor).length;
+  const tripCents = centsPerPoint(totalPointsSavings, totalPointsUsed);
+  const formatCents = (cents: number) =>
+    t('common.pointsPerDollarRate', { cents: formatNumber(cents, { minimumFractionDigits: 1, maximumFractionDigits: 2 }) });
+
+  const describeStep = (step: AllocationStep) => {
+    if (step.kind === 'leftover') return t('summary.optimizer.leftover', { points: formatPoints(step.points) });
+    const params = { category: t(`category.${step.category}`), rate: formatCents(step.rate * 100) };
+    if (step.kind === 'exhausted') return t('summary.optimizer.exhausted', params);
+    const key = step.first
+      ? (step.capped ? 'summary.optimizer.firstCapped' : 'summary.optimizer.firstPartial')
+      : (step.capped ? 'summary.optimizer.nextCapped' : 'summary.optimizer.nextPartial');
+    return t(key, { ...params, points: formatPoints(step.points), amount: format(step.savings) });
+  };
+
+  const [expanded, setExpanded] = useState<Partial<Record<CostCategory | 'trip', boolean>>>({});
+  const toggleCategory = (key: CostCategory | 'trip') =>
+    setExpanded(prev => ({ ...prev, [key]: !prev[key] }));
+
+  // Whole-trip audit: every category's line items rolled up by kind
+  const tripTotalsByKind = totalsByKind(categories.flatMap(({ cost }) => cost.lineItems));
+  const tripLineItems = LINE_ITEM_KINDS
+    .filter(kind => tripTotalsByKind[kind] !== undefined)
+    .map((kind): LineItem => ({ label: { key: `lineItemKind.${kind}` }, amount: tripTotalsByKind[kind] || 0, kind }));
+
   return (
     <div className="bg-gradient-to-br from-blue-600 to-purple-600 rounded-xl p-6 text-white">
       <div className="flex items-center gap-2 mb-6">
         <DollarSign className="w-6 h-6" />
-        <h2 className="text-2xl font-bold">Total Trip Cost Summary</h2>
+        <h2 className="text-2xl font-bold">{t('summary.title')}</h2>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
-          <h3 className="text-lg font-semibold mb-4">Hotel Stay</h3>
-          <div className="space-y-2">
-            <div className="flex justify-between">
-              <span>Cash Price:</span>
-              <span className="font-semibold">${hotelCost.cashPrice.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-green-300">
-              <span>Points Savings:</span>
-              <span className="font-semibold">-${hotelCost.pointsSavings.toFixed(2)}</span>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
+        {categories.map(({ key, cost }) => (
+          <div key={key} className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-4">{t(`category.${key}`)}</h3>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <span>{t('summary.cashPrice')}</span>
+                <span className="font-semibold">{format(cost.cashPrice)}</span>
+              </div>
+              {isConverted && (
+                <div className="flex justify-between text-xs text-white/70">
+                  <span>{t('summary.original')}</span>
+                  <span>{formatBase(cost.cashPrice)}</span>
+                </div>
+              )}
+              {key !== 'rideShare' && (
+                <>
+                  <div className="flex justify-between text-green-300">
+                    <span>{t('summary.pointsSavings')}</span>
+                    <span className="font-semibold">-{format(cost.pointsSavings)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-white/80">
+                    <span>{t('summary.pointsRedeemed')}</span>
+                    <span>{formatPoints(cost.pointsUsed)} / {formatPoints(wallet.allocations[key])}</span>
+                  </div>
+                  {valuationByCategory[key] && (
+                    <div className={`flex justify-between text-sm ${valuationByCategory[key].poor ? 'text-red-300' : 'text-white/80'}`}>
+                      <span className="inline-flex items-center gap-1">
+                        {valuationByCategory[key].poor && <AlertTriangle className="w-3 h-3" />}
+                        {t('summary.valuePerPoint')}
+                      </span>
+                      <span>{formatCents(valuationByCategory[key].centsPerPoint)}</span>
+                    </div>
+                  )}
+                </>
+              )}
+              {cost.pointsEarned > 0 && (
+                <div className="flex justify-between text-sm text-purple-200">
+                  <span>{t('summary.pointsEarned')}</span>
+                  <span>+{formatPoints(cost.pointsEarned)}</span>
+                </div>
+              )}
             </div>
-          </div>
-        </div>
 
-        <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
-          <h3 className="text-lg font-semibold mb-4">Flights</h3>
-          <div className="space-y-2">
-            <div className="flex justify-between">
-              <span>Cash Price:</span>
-              <span className="font-semibold">${flightCost.cashPrice.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-green-300">
-              <span>Points Savings:</span>
-              <span className="font-semibold">-${flightCost.pointsSavings.toFixed(2)}</span>
-            </div>
+            {cost.lineItems.length > 0 && (
+              <div className="mt-4 pt-3 border-t border-white/20">
+                <button
+                  type="button"
+                  className="flex items-center gap-1 text-sm text-white/80 hover:text-white"
+                  onClick={() => toggleCategory(key)}
+                >
+                  {expanded[key] ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  {expanded[key] ? t('summary.hideBreakdown') : t('summary.showBreakdown')}
+                </button>
+                {expanded[key] && (
+                  <div className="mt-2">
+                    <CostBreakdown items={cost.lineItems} />
+                  </div>
+                )}
+              </div>
+            )}
           </div>
-        </div>
-
-        <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
-          <h3 className="text-lg font-semibold mb-4">Car Rental</h3>
-          <div className="space-y-2">
-            <div className="flex justify-between">
-              <span>Cash Price:</span>
-              <span className="font-semibold">${carRentalCost.cashPrice.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-green-300">
-              <span>Points Savings:</span>
-              <span className="font-semibold">-${carRentalCost.pointsSavings.toFixed(2)}</span>
-            </div>
-          </div>
-        </div>
-
-        <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
-          <h3 className="text-lg font-semibold mb-4">Entertainment</h3>
-          <div className="space-y-2">
-            <div className="flex justify-between">
-              <span>Cash Price:</span>
-              <span className="font-semibold">${entertainmentCost.cashPrice.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-green-300">
-              <span>Points Savings:</span>
-              <span className="font-semibold">-${entertainmentCost.pointsSavings.toFixed(2)}</span>
-            </div>
-          </div>
-        </div>
+        ))}
       </div>
 
       <div className="mt-6 bg-white/20 backdrop-blur-sm rounded-lg p-6">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-lg">
           <div className="text-center">
-            <p className="text-white/80 mb-1">Total Cash Price</p>
-            <p className="text-3xl font-bold">${totalCashPrice.toFixed(2)}</p>
+            <p className="text-white/80 mb-1">{t('summary.totalCash')}</p>
+            <p className="text-3xl font-bold">{format(totalCashPrice)}</p>
+            {isConverted && <p className="text-sm text-white/70">{formatBase(totalCashPrice)}</p>}
           </div>
           <div className="text-center">
-            <p className="text-white/80 mb-1">Total Points Value</p>
-            <p className="text-3xl font-bold text-green-300">${totalPointsSavings.toFixed(2)}</p>
+            <p className="text-white/80 mb-1">{t('summary.totalPointsValue')}</p>
+            <p className="text-3xl font-bold text-green-300">{format(totalPointsSavings)}</p>
+            {isConverted && <p className="text-sm text-white/70">{formatBase(totalPointsSavings)}</p>}
           </div>
           <div className="text-center">
-            <p className="text-white/80 mb-1">Final Cost</p>
-            <p className="text-3xl font-bold text-yellow-300">${finalCost.toFixed(2)}</p>
+            <p className="text-white/80 mb-1">{t('summary.finalCost')}</p>
+            <p className="text-3xl font-bold text-yellow-300">{format(finalCost)}</p>
+            {isConverted && <p className="text-sm text-white/70">{formatBase(finalCost)}</p>}
+          </div>
+        </div>
+
+        {tripLineItems.length > 0 && (
+          <div className="mt-6 pt-4 border-t border-white/20">
+            <button
+              type="button"
+              className="flex items-center gap-1 text-sm text-white/80 hover:text-white"
+              onClick={() => toggleCategory('trip')}
+            >
+              {expanded.trip ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              {expanded.trip ? t('summary.hideTripBreakdown') : t('summary.showTripBreakdown')}
+            </button>
+            {expanded.trip && (
+              <div className="mt-3 max-w-xl">
+                <CostBreakdown items={tripLineItems} totalLabel={t('summary.finalCost')} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-white/20 grid grid-cols-1 md:grid-cols-4 gap-4 text-center">
+          <div>
+            <p className="text-white/80 text-sm mb-1">{t('summary.walletBalance')}</p>
+            <p className="text-xl font-semibold">{formatPoints(wallet.balance)}</p>
+          </div>
+          <div>
+            <p className="text-white/80 text-sm mb-1">{t('summary.walletRedeemed')}</p>
+            <p className="text-xl font-semibold text-green-300">{formatPoints(totalPointsUsed)}</p>
+          </div>
+          <div>
+            <p className="text-white/80 text-sm mb-1">{t('summary.walletLeftOver')}</p>
+            <p className="text-xl font-semibold text-yellow-300">{formatPoints(leftoverPoints)}</p>
+          </div>
+          <div>
+            <p className="text-white/80 text-sm mb-1">{t('summary.walletEarned')}</p>
+            <p className="text-xl font-semibold text-purple-200">+{formatPoints(totalPointsEarned)}</p>
           </div>
         </div>
 
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+          <div>
+            <h3 className="font-semibold mb-2">{t('summary.redeemedLedger')}</h3>
+            {valuations.length === 0 ? (
+              <p className="text-white/70">{t('summary.noneRedeemed')}</p>
+            ) : (
+              <ul className="space-y-1">
+                {valuations.map(({ category, pointsUsed, centsPerPoint: cents, poor }) => (
+                  <li key={category} className="flex gap-3">
+                    <span className="text-white/80">{t(`category.${category}`)}</span>
+                    <span className={`ml-auto inline-flex items-center gap-1 ${poor ? 'text-red-300' : 'text-white/70'}`}>
+                      {poor && <AlertTriangle className="w-3 h-3" />}
+                      {formatCents(cents)}
+                    </span>
+                    <span>-{formatPoints(pointsUsed)}</span>
+                  </li>
+                ))}
+                <li className="flex gap-3 pt-1 border-t border-white/20 font-semibold">
+                  <span>{t('summary.ledgerTotal')}</span>
+                  <span className={`ml-auto ${isPoorRedemption(tripCents, wallet.baselineCents) ? 'text-red-300' : 'text-white/70'}`}>
+                    {formatCents(tripCents)}
+                  </span>
+                  <span className="text-green-300">-{formatPoints(totalPointsUsed)}</span>
+                </li>
+              </ul>
+            )}
+            {valuations.length > 0 && (
+              <p className={`mt-3 ${poorRedemptions > 0 ? 'text-red-300' : 'text-white/70'}`}>
+                {poorRedemptions > 0
+                  ? tn('summary.poorRedemptions', poorRedemptions, { baseline: formatCents(wallet.baselineCents) })
+                  : t('summary.goodRedemptions', { baseline: formatCents(wallet.baselineCents) })}
+              </p>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold mb-2">{t('summary.earnedLedger')}</h3>
+            {earnedLedger.length === 0 ? (
+              <p className="text-white/70">{t('summary.noneEarned')}</p>
+            ) : (
+              <ul className="space-y-1">
+                {earnedLedger.map(({ source, points }) => (
+                  <li key={source} className="flex justify-between">
+                    <span className="text-white/80">{t(`earningSource.${source}`)}</span>
+                    <span>+{formatPoints(points)}</span>
+                  </li>
+                ))}
+                <li className="flex justify-between pt-1 border-t border-white/20 font-semibold">
+                  <span>{t('summary.ledgerTotal')}</span>
+                  <span className="text-purple-200">+{formatPoints(totalPointsEarned)}</span>
+                </li>
+              </ul>
+            )}
+            <p className="flex justify-between mt-3 text-white/80">
+              <span>{t('summary.balanceAfterTrip')}</span>
+              <span className="font-semibold text-white">{formatPoints(leftoverPoints + totalPointsEarned)}</span>
+            </p>
+          </div>
+        </div>
+
+        {allocationPlan && allocationPlan.explanation.length > 0 && (
+          <div className="mt-6 pt-4 border-t border-white/20">
+            <div className="flex items-center gap-2 mb-2">
+              <Sparkles className="w-4 h-4 text-yellow-300" />
+              <h3 className="font-semibold">
+                {t('summary.optimizedSplit', { amount: format(allocationPlan.totalSavings) })}
+              </h3>
+            </div>
+            <ul className="space-y-1 text-sm text-white/90 list-disc list-inside">
+              {allocationPlan.explanation.map((step, index) => (
+                <li key={index}>{describeStep(step)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-4 text-center text-sm text-white/70">
-          <p>* Points values are calculated based on current Hilton Honors redemption rates</p>
-          <p>* Entertainment discounts vary by venue and event type</p>
+          <p>{t('summary.footnoteRates')}</p>
+          <p>{t('summary.footnoteEntertainment')}</p>
+          {isConverted && (
+            <p>
+              {t('summary.footnoteConversion', {
+                base: BASE_CURRENCY,
+                rate: formatNumber(rates[displayCurrency], { maximumFractionDigits: 4 }),
+                currency: displayCurrency
+              })}
+            </p>
+          )}
         </div>
       </div>
     </div>
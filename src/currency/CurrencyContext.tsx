@@ -0,0 +1,74 @@
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { BASE_CURRENCY, CurrencyCode } from './currencies';
+import {
+  CurrencySettings,
+  ExchangeRates,
+  DEFAULT_EXCHANGE_RATES,
+  convertAmount,
+  formatMoney,
+  loadCurrencySettings,
+  storeCurrencySettings
+} from './exchangeRates';
+import { useI18n } from '../i18n/I18nContext';
+
+interface CurrencyContextValue extends CurrencySettings {
+  setDisplayCurrency: (currency: CurrencyCode) => void;
+  setRate: (currency: CurrencyCode, rate: number) => void;
+  applyRates: (rates: Partial<ExchangeRates>) => void;
+  resetRates: () => void;
+  // Converts a US dollar amount into the display currency
+  convert: (usd: number) => number;
+  // Formats a US dollar amount in the display currency
+  format: (usd: number) => string;
+  // Formats a US dollar amount in any currency, e.g. a property's local one
+  formatIn: (usd: number, currency: CurrencyCode) => string;
+  // Formats the original US dollar amount, for showing next to a converted one
+  formatBase: (usd: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const { intlLocale } = useI18n();
+  const [settings, setSettings] = useState<CurrencySettings>(() => loadCurrencySettings());
+
+  useEffect(() => {
+    storeCurrencySettings(settings);
+  }, [settings]);
+
+  const value = useMemo<CurrencyContextValue>(() => {
+    const formatIn = (usd: number, currency: CurrencyCode) =>
+      formatMoney(convertAmount(usd, currency, settings.rates), currency, intlLocale);
+
+    return {
+      ...settings,
+      setDisplayCurrency: (displayCurrency) => setSettings(prev => ({ ...prev, displayCurrency })),
+      setRate: (currency, rate) => {
+        if (currency === BASE_CURRENCY || !Number.isFinite(rate) || rate <= 0) return;
+        setSettings(prev => ({
+          ...prev,
+          rates: { ...prev.rates, [currency]: rate },
+          updatedAt: new Date().toISOString()
+        }));
+      },
+      applyRates: (rates) => setSettings(prev => ({
+        ...prev,
+        rates: { ...prev.rates, ...rates, [BASE_CURRENCY]: 1 },
+        updatedAt: new Date().toISOString()
+      })),
+      resetRates: () => setSettings(prev => ({ ...prev, rates: { ...DEFAULT_EXCHANGE_RATES }, updatedAt: null })),
+      convert: (usd) => convertAmount(usd, settings.displayCurrency, settings.rates),
+      format: (usd) => formatIn(usd, settings.displayCurrency),
+      formatIn,
+      formatBase: (usd) => formatMoney(usd, BASE_CURRENCY, intlLocale)
+    };
+  }, [settings, intlLocale]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (!context) throw new Error('useCurrency must be used inside a CurrencyProvider');
+  return context;
+};
@@ -0,0 +1,70 @@
+// All catalog prices, fees and fares are quoted in US dollars; other currencies are display-only
+export const BASE_CURRENCY = 'USD';
+
+export type CurrencyCode =
+  | 'USD' | 'EUR' | 'GBP' | 'CAD' | 'MXN' | 'JPY' | 'CNY' | 'SGD' | 'THB' | 'KRW'
+  | 'TWD' | 'MYR' | 'AED' | 'QAR' | 'SAR' | 'OMR' | 'EGP' | 'AUD' | 'NZD' | 'PLN' | 'ISK';
+
+export const CURRENCY_NAMES: Record<CurrencyCode, string> = {
+  USD: 'US Dollar',
+  EUR: 'Euro',
+  GBP: 'British Pound',
+  CAD: 'Canadian Dollar',
+  MXN: 'Mexican Peso',
+  JPY: 'Japanese Yen',
+  CNY: 'Chinese Yuan',
+  SGD: 'Singapore Dollar',
+  THB: 'Thai Baht',
+  KRW: 'South Korean Won',
+  TWD: 'New Taiwan Dollar',
+  MYR: 'Malaysian Ringgit',
+  AED: 'UAE Dirham',
+  QAR: 'Qatari Riyal',
+  SAR: 'Saudi Riyal',
+  OMR: 'Omani Rial',
+  EGP: 'Egyptian Pound',
+  AUD: 'Australian Dollar',
+  NZD: 'New Zealand Dollar',
+  PLN: 'Polish Złoty',
+  ISK: 'Icelandic Króna'
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCY_NAMES) as CurrencyCode[];
+
+// Keyed by the `country` values used in the property, location and airport data
+export const COUNTRY_CURRENCIES: Record<string, CurrencyCode> = {
+  USA: 'USD',
+  Canada: 'CAD',
+  Mexico: 'MXN',
+  UK: 'GBP',
+  France: 'EUR',
+  Germany: 'EUR',
+  Italy: 'EUR',
+  Spain: 'EUR',
+  Portugal: 'EUR',
+  Netherlands: 'EUR',
+  Austria: 'EUR',
+  Croatia: 'EUR',
+  Poland: 'PLN',
+  Iceland: 'ISK',
+  Japan: 'JPY',
+  China: 'CNY',
+  Singapore: 'SGD',
+  Thailand: 'THB',
+  'South Korea': 'KRW',
+  Taiwan: 'TWD',
+  Malaysia: 'MYR',
+  UAE: 'AED',
+  Qatar: 'QAR',
+  'Saudi Arabia': 'SAR',
+  Oman: 'OMR',
+  Egypt: 'EGP',
+  Australia: 'AUD',
+  'New Zealand': 'NZD'
+};
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && CURRENCY_CODES.includes(value as CurrencyCode);
+
+export const getLocalCurrency = (country: string): CurrencyCode =>
+  COUNTRY_CURRENCIES[country] || BASE_CURRENCY;
@@ -0,0 +1,145 @@
+import { BASE_CURRENCY, CurrencyCode, CURRENCY_CODES, isCurrencyCode } from './currencies';
+import { VersionedStore, readVersioned, writeVersioned } from '../utils/storage';
+
+export const CURRENCY_STORAGE_KEY = 'hilton-calculator:currency';
+
+export const CURRENCY_SCHEMA_VERSION = 1;
+
+// Units of each currency per one US dollar
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+// Indicative mid-market rates; users can edit or import their own
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  MXN: 17.1,
+  JPY: 150,
+  CNY: 7.2,
+  SGD: 1.35,
+  THB: 36,
+  KRW: 1330,
+  TWD: 32,
+  MYR: 4.7,
+  AED: 3.67,
+  QAR: 3.64,
+  SAR: 3.75,
+  OMR: 0.385,
+  EGP: 48,
+  AUD: 1.52,
+  NZD: 1.66,
+  PLN: 4,
+  ISK: 138
+};
+
+export interface CurrencySettings {
+  displayCurrency: CurrencyCode;
+  rates: ExchangeRates;
+  updatedAt: string | null; // null while the built-in defaults are in use
+}
+
+const CURRENCY_STORE: VersionedStore = {
+  key: CURRENCY_STORAGE_KEY,
+  field: 'settings',
+  version: CURRENCY_SCHEMA_VERSION
+};
+
+export const createCurrencySettings = (): CurrencySettings => ({
+  displayCurrency: BASE_CURRENCY,
+  rates: { ...DEFAULT_EXCHANGE_RATES },
+  updatedAt: null
+});
+
+const isValidRate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export const convertAmount = (usd: number, currency: CurrencyCode, rates: ExchangeRates) =>
+  usd * (currency === BASE_CURRENCY ? 1 : rates[currency]);
+
+export const formatMoney = (amount: number, currency: CurrencyCode, locale?: string) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+
+// A problem with an imported table; `currency` names the entry it concerns
+export interface RateImportIssue {
+  code: 'empty' | 'invalidJson' | 'unsupported' | 'baseCurrency' | 'invalidRate' | 'noRates';
+  currency?: string;
+}
+
+export interface RateImportResult {
+  rates: Partial<ExchangeRates>;
+  issues: RateImportIssue[];
+}
+
+/**
+ * Reads a pasted or uploaded rate table. Accepts JSON (`{"EUR": 0.92}` or
+ * `{"rates": {...}}`) or one `CODE,rate` pair per line, with rates quoted in
+ * units per US dollar.
+ */
+export const parseRateImport = (text: string): RateImportResult => {
+  const rates: Partial<ExchangeRates> = {};
+  const issues: RateImportIssue[] = [];
+  let entries: [string, unknown][];
+
+  const trimmed = text.trim();
+  if (!trimmed) return { rates, issues: [{ code: 'empty' }] };
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      const table = parsed && typeof parsed.rates === 'object' ? parsed.rates : parsed;
+      entries = Object.entries(table || {});
+    } catch {
+      return { rates, issues: [{ code: 'invalidJson' }] };
+    }
+  } else {
+    entries = trimmed
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => {
+        const [code, value] = line.split(/[,;:\s]+/);
+        return [code, Number(value)];
+      });
+  }
+
+  entries.forEach(([rawCode, value]) => {
+    const code = rawCode.toUpperCase();
+    if (!isCurrencyCode(code)) {
+      issues.push({ code: 'unsupported', currency: rawCode });
+    } else if (code === BASE_CURRENCY) {
+      if (value !== 1) issues.push({ code: 'baseCurrency', currency: code });
+    } else if (!isValidRate(value)) {
+      issues.push({ code: 'invalidRate', currency: code });
+    } else {
+      rates[code] = value;
+    }
+  });
+
+  if (!Object.keys(rates).length && !issues.length) issues.push({ code: 'noRates' });
+  return { rates, issues };
+};
+
+const readSettings = (raw: unknown): CurrencySettings => {
+  const defaults = createCurrencySettings();
+  if (!raw || typeof raw !== 'object') return defaults;
+  const { displayCurrency, rates, updatedAt } = raw as Record<string, unknown>;
+  const stored = rates && typeof rates === 'object' ? rates as Record<string, unknown> : {};
+
+  return {
+    displayCurrency: isCurrencyCode(displayCurrency) ? displayCurrency : defaults.displayCurrency,
+    rates: CURRENCY_CODES.reduce((acc, code) => {
+      const rate = stored[code];
+      acc[code] = code !== BASE_CURRENCY && isValidRate(rate) ? rate : DEFAULT_EXCHANGE_RATES[code];
+      return acc;
+    }, {} as ExchangeRates),
+    updatedAt: typeof updatedAt === 'string' ? updatedAt : null
+  };
+};
+
+// Falls back to the defaults when nothing usable is stored
+export const loadCurrencySettings = (storage?: Storage): CurrencySettings =>
+  readSettings(readVersioned(CURRENCY_STORE, storage));
+
+export const storeCurrencySettings = (settings: CurrencySettings, storage?: Storage) =>
+  writeVersioned(CURRENCY_STORE, settings, storage);
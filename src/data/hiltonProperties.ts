@@ -1,4 +1,6 @@
 import { HiltonBrand, hiltonBrands } from './hiltonBrands';
+import { PropertyFees } from '../types';
+import { createSeededRandom, pickOne, shuffle } from '../utils/random';
 
 export interface HiltonProperty {
   id: string;
@@ -15,6 +17,7 @@ export interface HiltonProperty {
   rating: number;
   description: string;
   images: string[];
+  fees: PropertyFees;
 }
 
 interface CityInfo {
@@ -59,6 +62,59 @@ const baseAmenities = {
   ]
 };
 
+type AmenityCategory = keyof typeof baseAmenities;
+
+// Per room night, charged by every property in the busiest US cities
+const DESTINATION_FEES: Record<string, number> = {
+  'New York': 20,
+  'Chicago': 20,
+  'Los Angeles': 20,
+  'Miami': 20,
+  'Las Vegas': 20
+};
+
+// Nightly self-parking where it costs more than DEFAULT_SELF_PARKING; valet adds VALET_PREMIUM
+const SELF_PARKING_RATES: Record<string, number> = {
+  'New York': 55,
+  'San Francisco': 50,
+  'Boston': 45,
+  'Chicago': 45,
+  'Los Angeles': 40,
+  'London': 40,
+  'Miami': 35,
+  'Paris': 35,
+  'Hong Kong': 35,
+  'Tokyo': 30
+};
+const DEFAULT_SELF_PARKING = 25;
+const VALET_PREMIUM = 20;
+
+const RESORT_FEES: Record<AmenityCategory, number> = {
+  Luxury: 50,
+  'Full Service': 35,
+  'Focused Service': 0
+};
+
+/**
+ * Fees follow from the property's category, city and amenities rather than
+ * the seeded stream, so adding them never changes a generated ID or price.
+ * Luxury hotels only valet park and focused-service hotels only self park.
+ */
+const getPropertyFees = (category: AmenityCategory, city: string, locationType: string, amenities: string[]): PropertyFees => {
+  const resortStyle = locationType === 'resort' || amenities.includes('Pool') || amenities.includes('Spa Services');
+  const selfParking = SELF_PARKING_RATES[city] ?? DEFAULT_SELF_PARKING;
+  return {
+    resortFee: resortStyle ? RESORT_FEES[category] : 0,
+    destinationFee: DESTINATION_FEES[city] || 0,
+    parking: {
+      self: category === 'Luxury' ? undefined : selfParking,
+      valet: category === 'Focused Service' ? undefined : selfParking + VALET_PREMIUM
+    },
+    // Hilton waives resort fees on Reward stays; destination fees are still charged
+    waivedOnAwardStays: { resortFee: true, destinationFee: false }
+  };
+};
+
 const cities: Cities = {
   'North America': [
     { city: 'Chicago', state: 'IL', country: 'USA', count: 15 },
@@ -136,33 +192,39 @@ const generateAdditionalProperties = () => {
 
         const locationTypes = Object.keys(locationQualifiers) as (keyof typeof locationQualifiers)[];
 
+        // One stream per brand and city, so adding a city or brand leaves every other property unchanged.
+        // Saved trips and share links store these IDs, so the seed must never change.
+        const random = createSeededRandom(`hilton-catalog:v1:${brand.id}:${cityInfo.city}`);
+
         for (let i = 0; i < propertyCount; i++) {
-          const locationType = locationTypes[Math.floor(Math.random() * locationTypes.length)];
-          const qualifiers = locationQualifiers[locationType];
-          const qualifier = qualifiers[Math.floor(Math.random() * qualifiers.length)];
+          const locationType = pickOne(locationTypes, random);
+          const qualifier = pickOne(locationQualifiers[locationType], random);
           const propertyName = `${brand.name} ${cityInfo.city} ${qualifier}`;
           const propertyId = generateUniquePropertyId(brand.id, cityInfo.city, qualifier, i);
 
-          const property: HiltonProperty = {
+          const property: Omit<HiltonProperty, 'fees'> = {
             id: propertyId,
             brandId: brand.id,
             name: propertyName,
-            address: `${Math.floor(Math.random() * 999) + 1} ${locationType.charAt(0).toUpperCase() + locationType.slice(1)} Street`,
+            address: `${Math.floor(random() * 999) + 1} ${locationType.charAt(0).toUpperCase() + locationType.slice(1)} Street`,
             city: cityInfo.city,
             state: 'state' in cityInfo ? cityInfo.state : undefined,
             country: cityInfo.country,
             region,
-            basePrice: brand.basePrice * (0.9 + Math.random() * 0.4),
+            basePrice: Math.round(brand.basePrice * (0.9 + random() * 0.4) * 100) / 100,
             pointsPerNight: Math.round(brand.basePrice * 100),
-            amenities: [...amenities].sort(() => Math.random() - 0.5).slice(0, 6),
-            rating: Math.min(5, Math.floor(Math.random() * 2) + 4),
+            amenities: shuffle(amenities, random).slice(0, 6),
+            rating: Math.min(5, Math.floor(random() * 2) + 4),
             description: `Experience luxury at ${propertyName}, featuring world-class amenities and exceptional service in the heart of ${cityInfo.city}.`,
             images: [
               'https://images.unsplash.com/photo-1542314831-068cd1dbfeeb',
               'https://images.unsplash.com/photo-1551882547-ff40c63fe5fa'
             ]
           };
-          additionalProperties.push(property);
+          additionalProperties.push({
+            ...property,
+            fees: getPropertyFees(amenityCategory, cityInfo.city, locationType, property.amenities)
+          });
         }
       });
     });
@@ -11,6 +11,7 @@ export const carRentals = [
   {
     company: 'Hertz',
     basePrice: 49.99,
+    honorsPointsPerDollar: 3,
     categories: {
       economy: 1,
       midsize: 1.3,
@@ -21,6 +22,7 @@ export const carRentals = [
   {
     company: 'Enterprise',
     basePrice: 44.99,
+    honorsPointsPerDollar: 0,
     categories: {
       economy: 1,
       midsize: 1.35,
@@ -31,6 +33,7 @@ export const carRentals = [
   {
     company: 'Avis',
     basePrice: 47.99,
+    honorsPointsPerDollar: 2,
     categories: {
       economy: 1,
       midsize: 1.4,
@@ -41,6 +44,7 @@ export const carRentals = [
   {
     company: 'Budget',
     basePrice: 41.99,
+    honorsPointsPerDollar: 2,
     categories: {
       economy: 1,
       midsize: 1.25,
@@ -103,66 +107,66 @@ export const diamondBenefits = {
 // Update majorAirports array with comprehensive list
 export const majorAirports: Airport[] = [
   // United States
-  { code: 'ATL', name: 'Hartsfield-Jackson Atlanta International', city: 'Atlanta', country: 'USA' },
-  { code: 'LAX', name: 'Los Angeles International', city: 'Los Angeles', country: 'USA' },
-  { code: 'ORD', name: 'O\'Hare International', city: 'Chicago', country: 'USA' },
-  { code: 'DFW', name: 'Dallas/Fort Worth International', city: 'Dallas', country: 'USA' },
-  { code: 'DEN', name: 'Denver International', city: 'Denver', country: 'USA' },
-  { code: 'JFK', name: 'John F. Kennedy International', city: 'New York', country: 'USA' },
-  { code: 'SFO', name: 'San Francisco International', city: 'San Francisco', country: 'USA' },
-  { code: 'SEA', name: 'Seattle-Tacoma International', city: 'Seattle', country: 'USA' },
-  { code: 'LAS', name: 'Harry Reid International', city: 'Las Vegas', country: 'USA' },
-  { code: 'MCO', name: 'Orlando International', city: 'Orlando', country: 'USA' },
-  { code: 'EWR', name: 'Newark Liberty International', city: 'Newark', country: 'USA' },
-  { code: 'MIA', name: 'Miami International', city: 'Miami', country: 'USA' },
-  { code: 'PHX', name: 'Phoenix Sky Harbor International', city: 'Phoenix', country: 'USA' },
-  { code: 'IAH', name: 'George Bush Intercontinental', city: 'Houston', country: 'USA' },
-  { code: 'BOS', name: 'Logan International', city: 'Boston', country: 'USA' },
-  { code: 'MSP', name: 'Minneapolis-Saint Paul International', city: 'Minneapolis', country: 'USA' },
-  { code: 'DTW', name: 'Detroit Metropolitan', city: 'Detroit', country: 'USA' },
-  { code: 'FLL', name: 'Fort Lauderdale-Hollywood International', city: 'Fort Lauderdale', country: 'USA' },
-  { code: 'PHL', name: 'Philadelphia International', city: 'Philadelphia', country: 'USA' },
-  { code: 'CLT', name: 'Charlotte Douglas International', city: 'Charlotte', country: 'USA' },
-  { code: 'BWI', name: 'Baltimore/Washington International', city: 'Baltimore', country: 'USA' },
-  { code: 'SAN', name: 'San Diego International', city: 'San Diego', country: 'USA' },
-  { code: 'MDW', name: 'Chicago Midway International', city: 'Chicago', country: 'USA' },
-  { code: 'TPA', name: 'Tampa International', city: 'Tampa', country: 'USA' },
-  { code: 'PDX', name: 'Portland International', city: 'Portland', country: 'USA' },
-  { code: 'HNL', name: 'Daniel K. Inouye International', city: 'Honolulu', country: 'USA' },
+  { code: 'ATL', name: 'Hartsfield-Jackson Atlanta International', city: 'Atlanta', country: 'USA', latitude: 33.6407, longitude: -84.4277 },
+  { code: 'LAX', name: 'Los Angeles International', city: 'Los Angeles', country: 'USA', latitude: 33.9416, longitude: -118.4085 },
+  { code: 'ORD', name: 'O\'Hare International', city: 'Chicago', country: 'USA', latitude: 41.9742, longitude: -87.9073 },
+  { code: 'DFW', name: 'Dallas/Fort Worth International', city: 'Dallas', country: 'USA', latitude: 32.8998, longitude: -97.0403 },
+  { code: 'DEN', name: 'Denver International', city: 'Denver', country: 'USA', latitude: 39.8561, longitude: -104.6737 },
+  { code: 'JFK', name: 'John F. Kennedy International', city: 'New York', country: 'USA', latitude: 40.6413, longitude: -73.7781 },
+  { code: 'SFO', name: 'San Francisco International', city: 'San Francisco', country: 'USA', latitude: 37.6213, longitude: -122.379 },
+  { code: 'SEA', name: 'Seattle-Tacoma International', city: 'Seattle', country: 'USA', latitude: 47.4502, longitude: -122.3088 },
+  { code: 'LAS', name: 'Harry Reid International', city: 'Las Vegas', country: 'USA', latitude: 36.084, longitude: -115.1537 },
+  { code: 'MCO', name: 'Orlando International', city: 'Orlando', country: 'USA', latitude: 28.4312, longitude: -81.3081 },
+  { code: 'EWR', name: 'Newark Liberty International', city: 'Newark', country: 'USA', latitude: 40.6895, longitude: -74.1745 },
+  { code: 'MIA', name: 'Miami International', city: 'Miami', country: 'USA', latitude: 25.7959, longitude: -80.287 },
+  { code: 'PHX', name: 'Phoenix Sky Harbor International', city: 'Phoenix', country: 'USA', latitude: 33.4342, longitude: -112.0116 },
+  { code: 'IAH', name: 'George Bush Intercontinental', city: 'Houston', country: 'USA', latitude: 29.9902, longitude: -95.3368 },
+  { code: 'BOS', name: 'Logan International', city: 'Boston', country: 'USA', latitude: 42.3656, longitude: -71.0096 },
+  { code: 'MSP', name: 'Minneapolis-Saint Paul International', city: 'Minneapolis', country: 'USA', latitude: 44.8848, longitude: -93.2223 },
+  { code: 'DTW', name: 'Detroit Metropolitan', city: 'Detroit', country: 'USA', latitude: 42.2162, longitude: -83.3554 },
+  { code: 'FLL', name: 'Fort Lauderdale-Hollywood International', city: 'Fort Lauderdale', country: 'USA', latitude: 26.0742, longitude: -80.1506 },
+  { code: 'PHL', name: 'Philadelphia International', city: 'Philadelphia', country: 'USA', latitude: 39.8744, longitude: -75.2424 },
+  { code: 'CLT', name: 'Charlotte Douglas International', city: 'Charlotte', country: 'USA', latitude: 35.2144, longitude: -80.9473 },
+  { code: 'BWI', name: 'Baltimore/Washington International', city: 'Baltimore', country: 'USA', latitude: 39.1774, longitude: -76.6684 },
+  { code: 'SAN', name: 'San Diego International', city: 'San Diego', country: 'USA', latitude: 32.7338, longitude: -117.1933 },
+  { code: 'MDW', name: 'Chicago Midway International', city: 'Chicago', country: 'USA', latitude: 41.7868, longitude: -87.7522 },
+  { code: 'TPA', name: 'Tampa International', city: 'Tampa', country: 'USA', latitude: 27.9755, longitude: -82.5332 },
+  { code: 'PDX', name: 'Portland International', city: 'Portland', country: 'USA', latitude: 45.5898, longitude: -122.5951 },
+  { code: 'HNL', name: 'Daniel K. Inouye International', city: 'Honolulu', country: 'USA', latitude: 21.3187, longitude: -157.9225 },
 
   // Canada
-  { code: 'YYZ', name: 'Toronto Pearson International', city: 'Toronto', country: 'Canada' },
-  { code: 'YVR', name: 'Vancouver International', city: 'Vancouver', country: 'Canada' },
-  { code: 'YUL', name: 'Montréal-Pierre Elliott Trudeau International', city: 'Montreal', country: 'Canada' },
-  { code: 'YYC', name: 'Calgary International', city: 'Calgary', country: 'Canada' },
+  { code: 'YYZ', name: 'Toronto Pearson International', city: 'Toronto', country: 'Canada', latitude: 43.6777, longitude: -79.6248 },
+  { code: 'YVR', name: 'Vancouver International', city: 'Vancouver', country: 'Canada', latitude: 49.1967, longitude: -123.1815 },
+  { code: 'YUL', name: 'Montréal-Pierre Elliott Trudeau International', city: 'Montreal', country: 'Canada', latitude: 45.4706, longitude: -73.7408 },
+  { code: 'YYC', name: 'Calgary International', city: 'Calgary', country: 'Canada', latitude: 51.1215, longitude: -114.0076 },
 
   // Europe
-  { code: 'LHR', name: 'London Heathrow', city: 'London', country: 'UK' },
-  { code: 'CDG', name: 'Charles de Gaulle', city: 'Paris', country: 'France' },
-  { code: 'AMS', name: 'Amsterdam Airport Schiphol', city: 'Amsterdam', country: 'Netherlands' },
-  { code: 'FRA', name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany' },
-  { code: 'MAD', name: 'Adolfo Suárez Madrid–Barajas', city: 'Madrid', country: 'Spain' },
-  { code: 'FCO', name: 'Leonardo da Vinci International', city: 'Rome', country: 'Italy' },
-  { code: 'MUC', name: 'Munich Airport', city: 'Munich', country: 'Germany' },
-  { code: 'BCN', name: 'Barcelona–El Prat', city: 'Barcelona', country: 'Spain' },
+  { code: 'LHR', name: 'London Heathrow', city: 'London', country: 'UK', latitude: 51.47, longitude: -0.4543 },
+  { code: 'CDG', name: 'Charles de Gaulle', city: 'Paris', country: 'France', latitude: 49.0097, longitude: 2.5479 },
+  { code: 'AMS', name: 'Amsterdam Airport Schiphol', city: 'Amsterdam', country: 'Netherlands', latitude: 52.3105, longitude: 4.7683 },
+  { code: 'FRA', name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany', latitude: 50.0379, longitude: 8.5622 },
+  { code: 'MAD', name: 'Adolfo Suárez Madrid–Barajas', city: 'Madrid', country: 'Spain', latitude: 40.4983, longitude: -3.5676 },
+  { code: 'FCO', name: 'Leonardo da Vinci International', city: 'Rome', country: 'Italy', latitude: 41.8003, longitude: 12.2389 },
+  { code: 'MUC', name: 'Munich Airport', city: 'Munich', country: 'Germany', latitude: 48.3537, longitude: 11.775 },
+  { code: 'BCN', name: 'Barcelona–El Prat', city: 'Barcelona', country: 'Spain', latitude: 41.2974, longitude: 2.0833 },
 
   // Asia
-  { code: 'HND', name: 'Tokyo Haneda', city: 'Tokyo', country: 'Japan' },
-  { code: 'PEK', name: 'Beijing Capital International', city: 'Beijing', country: 'China' },
-  { code: 'SIN', name: 'Singapore Changi', city: 'Singapore', country: 'Singapore' },
-  { code: 'ICN', name: 'Incheon International', city: 'Seoul', country: 'South Korea' },
-  { code: 'BKK', name: 'Suvarnabhumi', city: 'Bangkok', country: 'Thailand' },
-  { code: 'KUL', name: 'Kuala Lumpur International', city: 'Kuala Lumpur', country: 'Malaysia' },
-  { code: 'HKG', name: 'Hong Kong International', city: 'Hong Kong', country: 'China' },
+  { code: 'HND', name: 'Tokyo Haneda', city: 'Tokyo', country: 'Japan', latitude: 35.5494, longitude: 139.7798 },
+  { code: 'PEK', name: 'Beijing Capital International', city: 'Beijing', country: 'China', latitude: 40.0799, longitude: 116.6031 },
+  { code: 'SIN', name: 'Singapore Changi', city: 'Singapore', country: 'Singapore', latitude: 1.3644, longitude: 103.9915 },
+  { code: 'ICN', name: 'Incheon International', city: 'Seoul', country: 'South Korea', latitude: 37.4602, longitude: 126.4407 },
+  { code: 'BKK', name: 'Suvarnabhumi', city: 'Bangkok', country: 'Thailand', latitude: 13.69, longitude: 100.7501 },
+  { code: 'KUL', name: 'Kuala Lumpur International', city: 'Kuala Lumpur', country: 'Malaysia', latitude: 2.7456, longitude: 101.7072 },
+  { code: 'HKG', name: 'Hong Kong International', city: 'Hong Kong', country: 'China', latitude: 22.308, longitude: 113.9185 },
 
   // Middle East
-  { code: 'DXB', name: 'Dubai International', city: 'Dubai', country: 'UAE' },
-  { code: 'DOH', name: 'Hamad International', city: 'Doha', country: 'Qatar' },
-  { code: 'AUH', name: 'Abu Dhabi International', city: 'Abu Dhabi', country: 'UAE' },
+  { code: 'DXB', name: 'Dubai International', city: 'Dubai', country: 'UAE', latitude: 25.2532, longitude: 55.3657 },
+  { code: 'DOH', name: 'Hamad International', city: 'Doha', country: 'Qatar', latitude: 25.2731, longitude: 51.6081 },
+  { code: 'AUH', name: 'Abu Dhabi International', city: 'Abu Dhabi', country: 'UAE', latitude: 24.433, longitude: 54.6511 },
 
   // Australia & New Zealand
-  { code: 'SYD', name: 'Sydney Airport', city: 'Sydney', country: 'Australia' },
-  { code: 'MEL', name: 'Melbourne Airport', city: 'Melbourne', country: 'Australia' },
-  { code: 'BNE', name: 'Brisbane Airport', city: 'Brisbane', country: 'Australia' },
-  { code: 'AKL', name: 'Auckland Airport', city: 'Auckland', country: 'New Zealand' }
+  { code: 'SYD', name: 'Sydney Airport', city: 'Sydney', country: 'Australia', latitude: -33.9399, longitude: 151.1753 },
+  { code: 'MEL', name: 'Melbourne Airport', city: 'Melbourne', country: 'Australia', latitude: -37.669, longitude: 144.841 },
+  { code: 'BNE', name: 'Brisbane Airport', city: 'Brisbane', country: 'Australia', latitude: -27.3842, longitude: 153.1175 },
+  { code: 'AKL', name: 'Auckland Airport', city: 'Auckland', country: 'New Zealand', latitude: -37.0082, longitude: 174.785 }
 ].sort((a, b) => a.city.localeCompare(b.city));
\ No newline at end of file
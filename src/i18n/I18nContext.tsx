@@ -0,0 +1,67 @@
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { Locale, LOCALES, loadLocale, storeLocale } from './locales';
+import { MessageKey } from './messages/en';
+import { MessageParams, PluralKey, translate, translatePlural } from './translate';
+
+interface I18nContextValue {
+  locale: Locale;
+  // BCP 47 tag for Intl formatters, e.g. `fr-FR`
+  intlLocale: string;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tn: (key: PluralKey, count: number, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatPoints: (points: number) => string;
+  // Takes a fraction, so 0.145 renders as 14.5 %
+  formatPercent: (fraction: number, digits?: number) => string;
+  // Takes an ISO date (`2025-06-01`) or timestamp and renders it in the local calendar
+  formatDate: (value: string, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Date-only strings are parsed as UTC by `Date`, which can shift them a day back in the Americas
+const parseDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocale] = useState<Locale>(() => loadLocale());
+
+  useEffect(() => {
+    storeLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const intlLocale = LOCALES[locale].intl;
+    const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+      new Intl.NumberFormat(intlLocale, options).format(value);
+
+    return {
+      locale,
+      intlLocale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      tn: (key, count, params) => translatePlural(locale, key, count, params),
+      formatNumber,
+      formatPoints: (points) => formatNumber(Math.round(points)),
+      formatPercent: (fraction, digits = 0) => formatNumber(fraction, {
+        style: 'percent',
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits
+      }),
+      formatDate: (value, options = { dateStyle: 'medium' }) => {
+        const date = parseDate(value);
+        return Number.isNaN(date.getTime()) ? value : new Intl.DateTimeFormat(intlLocale, options).format(date);
+      }
+    };
+  }, [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+};
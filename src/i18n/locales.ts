@@ -0,0 +1,36 @@
+export type Locale = 'en' | 'fr' | 'de' | 'ja' | 'es';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_STORAGE_KEY = 'hilton-calculator:locale';
+
+// Native language name for the switcher and the BCP 47 tag passed to Intl
+export const LOCALES: Record<Locale, { name: string; intl: string }> = {
+  en: { name: 'English', intl: 'en-US' },
+  fr: { name: 'Français', intl: 'fr-FR' },
+  de: { name: 'Deutsch', intl: 'de-DE' },
+  ja: { name: '日本語', intl: 'ja-JP' },
+  es: { name: 'Español', intl: 'es-ES' }
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// Picks the first browser language we have a catalog for, e.g. `fr-CA` → `fr`
+export const detectLocale = (languages: readonly string[] = navigator.languages || []): Locale => {
+  const match = languages
+    .map(language => language.toLowerCase().split('-')[0])
+    .find(isLocale);
+  return match || DEFAULT_LOCALE;
+};
+
+export const loadLocale = (storage: Storage = window.localStorage): Locale => {
+  const stored = storage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : detectLocale();
+};
+
+export const storeLocale = (locale: Locale, storage: Storage = window.localStorage) => {
+  storage.setItem(LOCALE_STORAGE_KEY, locale);
+};
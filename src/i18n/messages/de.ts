@@ -0,0 +1,436 @@
+import { Messages } from './en';
+
+export const de: Messages = {
+  'app.title': 'Hilton Honors Reisen & Sparen',
+  'app.language': 'Sprache',
+  'app.displayCurrency': 'Anzeigewährung',
+
+  'common.totalCost': 'Gesamtkosten',
+  'common.pointsValue': 'Punktewert',
+  'common.pointsSavings': 'Ersparnis durch Punkte',
+  'common.finalCost': 'Endpreis',
+  'common.allTaxesIncluded': 'Inklusive aller Steuern und Gebühren',
+  'common.afterPointsSavings': 'Nach Abzug der Punkte',
+  'common.usingPoints': 'Mit {points} Hilton-Punkten',
+  'common.rateDetails': 'Tarifdetails',
+  'common.feesAndSurcharges': 'Gebühren und Zuschläge:',
+  'common.taxes': 'Steuern:',
+  'common.dismiss': 'Schließen',
+  'common.cancel': 'Abbrechen',
+  'common.nights.one': '{count} Nacht',
+  'common.nights.other': '{count} Nächte',
+  'common.pointsPerDollarRate': '{cents} ¢/Pkt.',
+  'common.pointsEarned': 'Gesammelte Punkte',
+  'common.poorRedemption': '{cents} liegt unter Ihrer Referenz von {baseline}',
+  'common.taxJurisdiction': 'Steuern für {name}',
+  'common.taxDefault': 'Keine Steuerdaten für {place}; Standardsätze werden verwendet',
+  'common.taxNoLocation': 'Bis ein Ort gewählt ist, gelten die Standardsteuersätze',
+
+  'category.hotel': 'Hotelaufenthalt',
+  'category.flight': 'Flüge',
+  'category.carRental': 'Mietwagen',
+  'category.entertainment': 'Freizeit',
+  'category.rideShare': 'Fahrdienst',
+
+  'season.peak': 'Hochsaison',
+  'season.shoulder': 'Zwischensaison',
+  'season.offPeak': 'Nebensaison',
+  'season.regular': 'Normalsaison',
+
+  'lineItemKind.base': 'Grundpreis',
+  'lineItemKind.seasonal': 'Saisonale Anpassungen',
+  'lineItemKind.discount': 'Rabatte',
+  'lineItemKind.fee': 'Gebühren und Zuschläge',
+  'lineItemKind.tax': 'Steuern',
+  'lineItemKind.points': 'Eingelöste Punkte',
+
+  'lineItem.hotel.roomRate.one': 'Zimmerpreis ({count} Nacht)',
+  'lineItem.hotel.roomRate.other': 'Zimmerpreis ({count} Nächte)',
+  'lineItem.hotel.roomType': 'Zimmer-Upgrade',
+  'lineItem.hotel.weekend': 'Wochenendnächte',
+  'lineItem.hotel.lengthOfStay': 'Rabatt für längeren Aufenthalt',
+  'lineItem.hotel.resortFee': 'Resortgebühr',
+  'lineItem.hotel.serviceFee': 'Servicegebühr',
+  'lineItem.hotel.amenityFee': 'Ausstattungsgebühr',
+  'lineItem.hotel.destinationFee': 'Destinationsgebühr',
+  'lineItem.hotel.extraPerson': 'Zuschlag für zusätzliche Person',
+  'lineItem.hotel.valetParking': 'Parkservice',
+  'lineItem.hotel.selfParking': 'Selbstparken',
+  'lineItem.flight.domesticFare': 'Inlands-Grundtarif',
+  'lineItem.flight.internationalFare': 'Internationaler Grundtarif',
+  'lineItem.flight.peakSeason': 'Hochsaisonzuschlag',
+  'lineItem.flight.advancePurchase': 'Frühbucherrabatt',
+  'lineItem.flight.segmentFees': 'Segmentgebühren',
+  'lineItem.flight.securityFee': 'TSA-Sicherheitsgebühr',
+  'lineItem.flight.facilityCharges': 'Passagierentgelte',
+  'lineItem.flight.carrierSurcharge': 'Airline-Zuschlag',
+  'lineItem.flight.fuelSurcharge': 'Treibstoffzuschlag',
+  'lineItem.flight.serviceFee': 'Servicegebühr',
+  'lineItem.flight.customsFees': 'Einreise- und Zollgebühren',
+  'lineItem.flight.airportTax': 'Flughafensteuer',
+  'lineItem.flight.segmentTax': 'Segmentsteuer',
+  'lineItem.flight.departureTax': '{name} ({airport})',
+  'lineItem.car.baseRental': 'Grundmiete',
+  'lineItem.car.lengthDiscount': 'Mietdauerrabatt',
+  'lineItem.car.insurance': 'Versicherung',
+  'lineItem.car.airportFee': 'Flughafen-Konzessionsgebühr',
+  'lineItem.car.licenseFee': 'Zulassungsgebühr',
+  'lineItem.car.facilityFee': 'Einrichtungsgebühr',
+  'lineItem.rideShare.rides.one': '{count} Fahrt',
+  'lineItem.rideShare.rides.other': '{count} Fahrten',
+  'lineItem.rideShare.surge': 'Spitzenzuschlag',
+  'lineItem.event': '{name} × {quantity}',
+  'lineItem.tax': '{name}',
+  'lineItem.points': 'Hilton Honors Punkte ({points} Pkt.)',
+
+  'earningSource.base': 'Basispunkte',
+  'earningSource.eliteBonus': 'Elite-Bonus',
+  'earningSource.lyft': 'Lyft-Partnerschaft',
+  'earningSource.carRentalPartner': 'Mietwagenpartner',
+
+  'tier.member': 'Member',
+  'tier.silver': 'Silver',
+  'tier.gold': 'Gold',
+  'tier.diamond': 'Diamond',
+  'tier.lifetimeDiamond': 'Lifetime Diamond',
+
+  'calculator.linkReset': 'Einige Werte im geteilten Link waren ungültig und wurden zurückgesetzt: {issues}',
+  'calculator.linkError.corrupted': 'Der geteilte Reiselink ist beschädigt und konnte nicht gelesen werden.',
+  'calculator.linkError.noVersion': 'Der geteilte Reiselink hat keine erkennbare Version.',
+  'calculator.linkError.newerVersion': 'Der geteilte Reiselink wurde mit einer neueren Version des Rechners erstellt.',
+
+  'wallet.title': 'Hilton Honors Punktekonto',
+  'wallet.optimize': 'Punkte optimieren',
+  'wallet.optimizing': 'Punkte werden optimiert',
+  'wallet.balance': 'Punktestand',
+  'wallet.balancePlaceholder': 'Punkte eingeben (optional)',
+  'wallet.allocated': 'Zugeteilt',
+  'wallet.unallocated': 'Nicht zugeteilt',
+  'wallet.tier': 'Elite-Status',
+  'wallet.tierBonus': '{percent} Bonus auf Basispunkte',
+  'wallet.baseline': 'Referenzwert pro Punkt (¢)',
+  'wallet.baselineHelp': 'Einlösungen mit geringerem Wert pro Punkt werden markiert',
+  'wallet.optimizedHelp': 'Die Punkte werden automatisch für die größte Ersparnis aufgeteilt. Schalten Sie die Optimierung aus, um die Aufteilung selbst festzulegen.',
+
+  'rates.title': 'Wechselkurse',
+  'rates.custom': 'Eigene Kurse · {date}',
+  'rates.default': 'Standardkurse',
+  'rates.help': 'Preise sind in {base} angegeben und werden für die Anzeige umgerechnet. Kurse sind Einheiten der jeweiligen Währung pro 1 {base}.',
+  'rates.import': 'Kurse importieren',
+  'rates.importPlaceholder': '{"EUR": 0.92, "JPY": 150}\noder ein Paar „CODE,Kurs“ pro Zeile',
+  'rates.importButton': 'Importieren',
+  'rates.upload': 'JSON oder CSV hochladen',
+  'rates.reset': 'Auf Standard zurücksetzen',
+  'rates.issue.empty': 'Nichts zu importieren.',
+  'rates.issue.invalidJson': 'Die Kurstabelle ist kein gültiges JSON.',
+  'rates.issue.unsupported': 'Nicht unterstützte Währung „{currency}“ übersprungen.',
+  'rates.issue.baseCurrency': '{currency} ist die Basiswährung und bleibt bei 1.',
+  'rates.issue.invalidRate': '{currency} übersprungen: Der Kurs muss eine positive Zahl sein.',
+  'rates.issue.noRates': 'Keine Wechselkurse gefunden.',
+
+  'hotel.title': 'Hotelauswahl',
+  'hotel.brand': 'Hilton-Marke',
+  'hotel.allBrands': 'Alle Marken',
+  'hotel.property': 'Hotel auswählen',
+  'hotel.propertyPlaceholder': 'Hotel auswählen',
+  'hotel.checkIn': 'Anreisedatum',
+  'hotel.checkOut': 'Abreisedatum',
+  'hotel.rooms': 'Anzahl der Zimmer',
+  'hotel.room.add': 'Zimmer hinzufügen',
+  'hotel.room.remove': 'Zimmer entfernen',
+  'hotel.room.label': 'Zimmer {number}',
+  'hotel.room.adults': 'Erwachsene',
+  'hotel.room.children': 'Kinder',
+  'hotel.room.maxOccupancy': 'Bis zu {count} Personen',
+  'hotel.room.overOccupancy': 'Dieses Zimmer bietet höchstens {count} Gästen Platz. Wählen Sie eine andere Kategorie oder verteilen Sie die Gäste.',
+  'hotel.room.extraPerson': 'Der Preis gilt für {adults} Erwachsene pro Zimmer; jeder weitere Erwachsene kostet {amount} pro Nacht.',
+  'hotel.room.type.king': 'King',
+  'hotel.room.type.doubleQueen': 'Zwei Queensize-Betten',
+  'hotel.room.type.executive': 'Executive',
+  'hotel.room.type.suite': 'Suite',
+  'hotel.visitWebsite': 'Hotel-Website besuchen',
+  'hotel.baseRate': 'Grundpreis (pro Nacht):',
+  'hotel.localRate': 'Lokaler Preis ({currency}):',
+  'hotel.seasonalAdjustment': 'Saisonale Anpassung:',
+  'hotel.roomTypeAdjustment': 'Aufpreis Zimmerkategorie:',
+  'hotel.weekendNights.one': '{count} Wochenendnacht:',
+  'hotel.weekendNights.other': '{count} Wochenendnächte:',
+  'hotel.lengthDiscount': 'Rabatt ab {nights} Nächten:',
+  'hotel.resortFee': 'Resortgebühr:',
+  'hotel.serviceFee': 'Servicegebühr:',
+  'hotel.amenityFee': 'Ausstattungsgebühr:',
+  'hotel.selfParking': 'Selbstparken:',
+  'hotel.valetParking': 'Parkservice:',
+  'hotel.destinationFee': 'Destinationsgebühr:',
+  'hotel.extraPerson': 'Zuschlag für Zusatzperson:',
+  'hotel.perRoomNight': '{amount} pro Zimmer und Nacht',
+  'hotel.perNight': '{amount} pro Nacht',
+  'hotel.localTotal': '{amount} in Landeswährung',
+  'hotel.amenities': 'Ausstattung',
+  'hotel.calendar.title': 'Preise pro Nacht',
+  'hotel.calendar.previous': 'Vorheriger Monat',
+  'hotel.calendar.next': 'Nächster Monat',
+  'hotel.calendar.select': 'An diesem Datum einchecken',
+  'hotel.calendar.legend': 'Ein Zimmer pro Nacht vor Rabatten, Steuern und Gebühren. Freitag- und Samstagnächte kosten mehr.',
+  'hotel.calendar.cheapest': 'Günstigster Aufenthalt ({nights}) in diesem Monat: Check-in am {date} ({amount})',
+  'hotel.rateType': 'Tarifart',
+  'hotel.rateType.cash': 'Barpreis',
+  'hotel.rateType.standardReward': 'Standard Room Reward',
+  'hotel.rateType.premiumReward': 'Premium Room Reward',
+  'hotel.pointsAndMoney': 'Fehlende Punkte mit Points & Money bezahlen',
+  'hotel.parkCar': 'Ich reise mit dem Auto an',
+  'hotel.noParking': 'Dieses Hotel hat keine Parkplätze vor Ort.',
+  'hotel.award.nightly': 'Punkte pro Nacht:',
+  'hotel.award.fifthNightFree': 'Fünfte Nacht gratis:',
+  'hotel.award.freeNights.one': '{count} Gratisnacht pro Zimmer',
+  'hotel.award.freeNights.other': '{count} Gratisnächte pro Zimmer',
+  'hotel.award.total': 'Punkte gesamt:',
+  'hotel.award.pointsAndMoney': '{points} Punkte + Zuzahlung:',
+  'hotel.award.cashFees': 'Bar zu zahlende Gebühren:',
+  'hotel.award.resortFeeWaived': 'Resortgebühr entfällt bei Prämienaufenthalten',
+  'hotel.award.shortfall': 'Für diese Prämie fehlen {points} Hotelpunkte, daher wird der Aufenthalt zum Barpreis berechnet.',
+  'hotel.award.value': 'Prämienwert:',
+  'hotel.award.pointsBetter': 'Punkte lohnen sich an diesen Daten mehr (Referenz {baseline})',
+  'hotel.award.cashBetter': 'Barzahlung lohnt sich an diesen Daten mehr (Referenz {baseline})',
+
+  'flight.title': 'Flugauswahl',
+  'flight.origin': 'Abflughafen',
+  'flight.destination': 'Zielflughafen',
+  'flight.selectAirport': 'Flughafen auswählen',
+  'flight.departDate': 'Abflugdatum',
+  'flight.returnDate': 'Rückflugdatum',
+  'flight.class': 'Klasse',
+  'flight.passengers': 'Reisende',
+  'flight.tripType': 'Reiseart',
+  'flight.roundTrip': 'Hin- und Rückflug',
+  'flight.oneWay': 'Nur Hinflug',
+  'flight.multiCity': 'Gabelflug / mehrere Städte',
+  'flight.flightType': 'Flugart',
+  'flight.nonStop': 'Nonstop',
+  'flight.layover': 'Mit Umstiegen',
+  'flight.segment.title': 'Weitere Flüge',
+  'flight.segment.add': 'Flug hinzufügen',
+  'flight.segment.remove': 'Flug entfernen',
+  'flight.segment.label': 'Flug {number}',
+  'flight.segment.date': 'Flugdatum',
+  'flight.segment.hint': 'Fügen Sie jeden Flug nach dem ersten hinzu. Für Hinflug in eine Stadt und Rückflug aus einer anderen fügen Sie den Rückflug ab der zweiten Stadt hinzu.',
+  'flight.segment.domestic': 'Inland',
+  'flight.segment.international': 'International',
+  'flight.passenger.adult': 'Erwachsene (18–64)',
+  'flight.passenger.senior': 'Senioren (65+)',
+  'flight.passenger.child': 'Kinder (2–17)',
+  'flight.passenger.infantInSeat': 'Kleinkinder mit Sitz (unter 2)',
+  'flight.passenger.infantInLap': 'Kleinkinder auf dem Schoß (unter 2)',
+  'flight.passenger.fullFare': 'Voller Tarif',
+  'flight.passenger.fareShare': '{percent} des Erwachsenentarifs',
+  'flight.passenger.issue.noAdult': 'Fügen Sie mindestens einen Erwachsenen oder Senior hinzu.',
+  'flight.passenger.issue.lapInfants': 'Jedes Kleinkind auf dem Schoß muss bei einem Erwachsenen oder Senior sitzen.',
+  'flight.passenger.issue.tooManySeats': 'Eine Buchung umfasst höchstens {max} Sitzplätze; Kleinkinder auf dem Schoß brauchen keinen.',
+  'flight.passenger.flowsTo': 'Hotelgäste und Veranstaltungstickets richten sich nach diesen Reisenden.',
+  'flight.details': 'Flugdetails',
+  'flight.distance': 'Entfernung:',
+  'flight.duration': 'Geschätzte Flugzeit:',
+  'flight.miles': '{miles} mi',
+  'flight.hoursMinutes': '{hours} Std. {minutes} Min.',
+  'flight.baseFare': 'Grundtarif:',
+  'flight.peakSeason': 'Hochsaisonzuschlag:',
+  'flight.advancePurchase': 'Frühbucherrabatt:',
+  'flexible.toggle': 'Flexible Daten (±{days} Tage)',
+  'flexible.needsDates': 'Wählen Sie einen Aufenthalt oder ein Flugdatum, um nahe Termine zu suchen.',
+  'flexible.stay': 'Aufenthalt {checkIn} – {checkOut}',
+  'flexible.departs': 'Abflug {date}',
+  'flexible.split': 'Hotel {hotel} · Flug {flight}',
+  'flexible.current': 'Aktuell',
+  'flexible.apply': 'Übernehmen',
+  'flexible.footnote': 'Hotel- und Flugdaten werden gemeinsam verschoben. Die übrigen Reisekosten hängen nicht vom Datum ab.',
+
+  'car.title': 'Mietwagen',
+  'car.company': 'Vermieter',
+  'car.selectCompany': 'Vermieter auswählen',
+  'car.category': 'Fahrzeugklasse',
+  'car.selectCategory': 'Klasse auswählen',
+  'car.economy': 'Economy',
+  'car.midsize': 'Mittelklasse',
+  'car.luxury': 'Oberklasse',
+  'car.days': 'Miettage',
+  'car.dailyRate': 'Grundpreis (pro Tag):',
+  'car.lengthDiscount': 'Langzeitrabatt:',
+
+  'itinerary.title': 'Reiseroute mit mehreren Städten',
+  'itinerary.summary.one': '{count} Station',
+  'itinerary.summary.other': '{count} Stationen',
+  'itinerary.add': 'Station hinzufügen',
+  'itinerary.stop': 'Station {number}',
+  'itinerary.stopIn': 'Station {number}: {city}',
+  'itinerary.remove': 'Station entfernen',
+  'itinerary.rentCar': 'An dieser Station ein Auto mieten',
+  'itinerary.issue.gap.one': '{count} Nacht ohne Hotel zwischen Station {from} und {to}',
+  'itinerary.issue.gap.other': '{count} Nächte ohne Hotel zwischen Station {from} und {to}',
+  'itinerary.issue.overlap.one': 'Station {from} und {to} überschneiden sich um {count} Nacht',
+  'itinerary.issue.overlap.other': 'Station {from} und {to} überschneiden sich um {count} Nächte',
+  'itinerary.issue.flightDate': 'Der Flug zu Station {to} startet vor dem Check-out an Station {from} oder nach dem Check-in an Station {to}',
+  'itinerary.issue.disconnected': 'Der Flug zu Station {to} startet nicht in der Stadt, in der Station {from} ankam',
+  'itinerary.moreStops.one': '+{count} weitere Station',
+  'itinerary.moreStops.other': '+{count} weitere Stationen',
+
+  'entertainment.selectHotel': 'Wählen Sie ein Hotel, um die Freizeitangebote vor Ort zu sehen.',
+  'entertainment.none': 'Für diesen Ort sind derzeit keine Freizeitangebote verfügbar.',
+  'entertainment.title': 'Freizeit und Aktivitäten in {city}',
+  'entertainment.location': 'in {location}',
+  'entertainment.perPerson': '{price}/Person',
+  'entertainment.pointsDiscount': 'Bis zu {percent} mit Punkten',
+  'entertainment.quantity': 'Anzahl',
+
+  'rideShare.title': 'Fahrdienst',
+  'rideShare.service': 'Dienst',
+  'rideShare.miles': 'Geschätzte Meilen',
+  'rideShare.minutes': 'Geschätzte Minuten',
+  'rideShare.numberOfRides': 'Anzahl der Fahrten',
+  'rideShare.timeOfDay': 'Tageszeit',
+  'rideShare.standard': 'Normal',
+  'rideShare.peak': 'Stoßzeiten',
+  'rideShare.event': 'Sonderveranstaltung',
+  'rideShare.suggestion': '{airport} nach {property}: ca. {miles} mi und {minutes} Min., {rides}',
+  'rideShare.applySuggestion': 'Schätzung übernehmen',
+  'rideShare.rides.one': '{count} Fahrt',
+  'rideShare.rides.other': '{count} Fahrten',
+  'rideShare.forRides.one': 'Für {count} Fahrt',
+  'rideShare.forRides.other': 'Für {count} Fahrten',
+  'rideShare.lyftEarning': 'Hilton Honors Punkte über die Lyft-Partnerschaft',
+
+  'summary.title': 'Übersicht der Reisekosten',
+  'summary.cashPrice': 'Barpreis:',
+  'summary.pointsSavings': 'Ersparnis durch Punkte:',
+  'summary.original': 'Ursprünglich:',
+  'summary.pointsRedeemed': 'Eingelöste Punkte:',
+  'summary.pointsEarned': 'Gesammelte Punkte:',
+  'summary.showBreakdown': 'Aufschlüsselung anzeigen',
+  'summary.hideBreakdown': 'Aufschlüsselung ausblenden',
+  'summary.showTripBreakdown': 'Aufschlüsselung der Reise anzeigen',
+  'summary.hideTripBreakdown': 'Aufschlüsselung der Reise ausblenden',
+  'summary.totalCash': 'Barpreis gesamt',
+  'summary.totalPointsValue': 'Punktewert gesamt',
+  'summary.finalCost': 'Endpreis',
+  'summary.walletBalance': 'Punktestand',
+  'summary.walletRedeemed': 'Eingelöste Punkte',
+  'summary.walletLeftOver': 'Verbleibende Punkte',
+  'summary.walletEarned': 'Gesammelte Punkte',
+  'summary.redeemedLedger': 'Eingelöste Punkte',
+  'summary.earnedLedger': 'Punkte, die Sie sammeln',
+  'summary.noneRedeemed': 'Für diese Reise werden keine Punkte eingelöst',
+  'summary.noneEarned': 'Noch keine Punkte gesammelt',
+  'summary.ledgerTotal': 'Gesamt',
+  'summary.balanceAfterTrip': 'Kontostand nach der Reise',
+  'summary.valuePerPoint': 'Wert pro Punkt',
+  'summary.poorRedemptions.one': '{count} Einlösung liegt unter Ihrer Referenz von {baseline}',
+  'summary.poorRedemptions.other': '{count} Einlösungen liegen unter Ihrer Referenz von {baseline}',
+  'summary.goodRedemptions': 'Alle Einlösungen erreichen Ihre Referenz von {baseline}',
+  'summary.optimizedSplit': 'Optimierte Punkteaufteilung: {amount} gespart',
+  'summary.optimizer.firstCapped': '{category} zu {rate} (bester Kurs, zuerst gefüllt): {points} Pkt. erreichen die Obergrenze von {amount}.',
+  'summary.optimizer.firstPartial': '{category} zu {rate} (bester Kurs, zuerst gefüllt): die letzten {points} Pkt. decken {amount}.',
+  'summary.optimizer.nextCapped': '{category} zu {rate} (nächstbester Kurs): {points} Pkt. erreichen die Obergrenze von {amount}.',
+  'summary.optimizer.nextPartial': '{category} zu {rate} (nächstbester Kurs): die letzten {points} Pkt. decken {amount}.',
+  'summary.optimizer.exhausted': '{category} zu {rate}: nichts mehr übrig, der Saldo ging an bessere Einlösungen.',
+  'summary.optimizer.leftover': '{points} Pkt. übrig: jede Kategorie hat ihre Punktegrenze erreicht.',
+  'summary.footnoteRates': '* Punktewerte basieren auf den aktuellen Einlösekursen von Hilton Honors',
+  'summary.footnoteEntertainment': '* Rabatte auf Freizeitangebote variieren je nach Veranstaltungsort und Art',
+  'summary.footnoteConversion': '* Preise in {base}, umgerechnet zu 1 {base} = {rate} {currency}',
+
+  'breakdown.empty': 'Noch nichts berechnet.',
+  'breakdown.netTotal': 'Netto gesamt',
+
+  'share.copy': 'Angebotslink kopieren',
+  'share.copied': 'Link kopiert',
+  'share.prompt': 'Kopieren Sie diesen Link, um das Angebot zu teilen:',
+
+  'saved.title': 'Gespeicherte Reisen',
+  'saved.namePlaceholder': 'Reise benennen',
+  'saved.save': 'Aktuelle Reise speichern',
+  'saved.empty': 'Noch keine gespeicherten Reisen. Erstellen Sie ein Angebot und speichern Sie es hier, um es später wieder zu laden.',
+  'saved.saveName': 'Namen speichern',
+  'saved.overwrite': 'Mit aktueller Reise überschreiben',
+  'saved.rename': 'Umbenennen',
+  'saved.duplicate': 'Duplizieren',
+  'saved.delete': 'Löschen',
+  'saved.confirmDelete': '„{name}“ löschen?',
+  'saved.noDates': 'Keine Daten',
+  'saved.untitled': 'Unbenannte Reise',
+  'saved.copyName': '{name} (Kopie)',
+
+  'compare.title': 'Szenarien vergleichen',
+  'compare.add': 'Aktuelle Reise hinzufügen',
+  'compare.help': 'Fügen Sie {min} bis {max} Reisen hinzu, um sie nebeneinander zu vergleichen. Laden Sie ein Szenario in den Rechner, um es zu bearbeiten, und übernehmen Sie die Änderungen anschließend mit Aktualisieren.',
+  'compare.optionName': 'Option {letter}',
+  'compare.noHotel': 'Kein Hotel',
+  'compare.category': 'Kategorie',
+  'compare.load': 'In den Rechner laden',
+  'compare.update': 'Aus aktueller Reise aktualisieren',
+  'compare.remove': 'Entfernen',
+  'compare.net': 'Netto {amount}',
+  'compare.netDelta': '{delta} netto',
+  'compare.totalCash': 'Bar gesamt',
+  'compare.netAfterPoints': 'Netto nach Punkten',
+  'compare.footnote': 'Differenzen beziehen sich auf das erste Szenario. Die günstigste Option nach Barpreis und nach Nettokosten ist hervorgehoben.',
+
+  'diamond.title': 'Wert der Hilton Honors Vorteile',
+  'diamond.daily': 'Tägliche Vorteile',
+  'diamond.breakfast': 'Frühstück ({guests} Gäste)',
+  'diamond.foodCredit': 'Speisen- und Getränkeguthaben ({guests} Gäste)',
+  'diamond.wifi': 'Premium-WLAN',
+  'diamond.water': 'Wasser in Flaschen',
+  'diamond.lounge': 'Executive Lounge',
+  'diamond.dailyTotal': 'Summe pro Tag',
+  'diamond.stay': 'Vorteile pro Aufenthalt',
+  'diamond.upgrade': 'Zimmer-Upgrade',
+  'diamond.lateCheckout': 'Später Check-out',
+  'diamond.earlyCheckin': 'Früher Check-in',
+  'diamond.status': 'Elite-Status',
+  'diamond.stayTotal': 'Summe Aufenthalt',
+  'diamond.points': 'Punktevorteile',
+  'diamond.basePoints': 'Wert der Basispunkte',
+  'diamond.bonusPoints': 'Bonuspunkte ({percent})',
+  'diamond.pointsTotal': 'Summe Punkte',
+  'diamond.notIncluded': 'In diesem Status nicht enthalten',
+  'diamond.total': 'Gesamtwert der Vorteile',
+  'diamond.totalHelp': 'Gesamtwert Ihrer {tier}-Vorteile',
+  'diamond.footnoteEstimates': '* Die Werte sind Schätzungen auf Basis durchschnittlicher Marktpreise und können je nach Ort abweichen',
+  'diamond.footnoteAvailability': '* Upgrades und Lounge-Zugang je nach Verfügbarkeit',
+
+  'status.title': 'Qualifikation für den Elite-Status',
+  'status.year': 'Qualifikationsjahr',
+  'status.addCurrent': 'Diese Reise zu geplanten Aufenthalten hinzufügen',
+  'status.completed': 'Abgeschlossen',
+  'status.planned': 'Geplant',
+  'status.projected': 'Prognose für das Jahr',
+  'status.includesCurrent': 'Enthält die berechnete Reise ({nights})',
+  'status.stays.one': '{count} Aufenthalt',
+  'status.stays.other': '{count} Aufenthalte',
+  'status.basePointsValue': '{points} Basispunkte',
+  'status.moreNights.one': 'Noch {count} Nacht bis {tier}',
+  'status.moreNights.other': 'Noch {count} Nächte bis {tier}',
+  'status.topTier': 'Ihre Aufenthalte erreichen Diamond, den höchsten Status',
+  'status.qualifies': 'Auf dem Weg zu {tier}',
+  'status.nightsOf': '{nights} / {required} Nächte',
+  'status.met': 'Erreicht',
+  'status.remaining': 'Noch {nights} Nächte, {stays} Aufenthalte oder {points} Basispunkte',
+  'status.legend': 'Dunkle Balken zeigen abgeschlossene Nächte, helle Balken ergänzen geplante Aufenthalte.',
+  'status.history': 'Erfasste Aufenthalte',
+  'status.empty': 'Noch keine Aufenthalte erfasst. Fügen Sie unten frühere Aufenthalte hinzu, um Ihren Fortschritt zu verfolgen.',
+  'status.completedStay': 'Abgeschlossen',
+  'status.plannedStay': 'Geplant',
+  'status.markCompleted': 'Als abgeschlossen markieren',
+  'status.delete': 'Aufenthalt löschen',
+  'status.hotel': 'Hotel',
+  'status.hotelPlaceholder': 'Name des Hotels',
+  'status.basePoints': 'Basispunkte',
+  'status.add': 'Aufenthalt hinzufügen',
+  'status.defaultName': 'Hilton-Aufenthalt',
+
+  'sources.title': 'Preisquellen',
+  'sources.hotel': 'Hotelpreise und Verfügbarkeit',
+  'sources.flights': 'Flüge',
+  'sources.carRentals': 'Mietwagen',
+  'sources.rideShare': 'Fahrdienste',
+  'sources.loyalty': 'Treueprogramme und Punkte',
+  'sources.footnote': 'Alle Preise werden in Echtzeit über offizielle APIs und Partnerschaften aktualisiert. Schätzungen für Fahrdienste berücksichtigen die Lyft-Partnerschaft und die damit sammelbaren Hilton Honors Punkte.'
+};
@@ -0,0 +1,440 @@
+// Source catalog: every other locale must provide the same keys.
+// `{name}` placeholders are filled by `t`; `.one`/`.other` pairs are picked by `tn`.
+export const en = {
+  'app.title': 'Hilton Honors Travel & Savings',
+  'app.language': 'Language',
+  'app.displayCurrency': 'Display currency',
+
+  'common.totalCost': 'Total Cost',
+  'common.pointsValue': 'Points Value',
+  'common.pointsSavings': 'Points Savings',
+  'common.finalCost': 'Final Cost',
+  'common.allTaxesIncluded': 'All taxes & fees included',
+  'common.afterPointsSavings': 'After points savings',
+  'common.usingPoints': 'Using {points} Hilton Points',
+  'common.rateDetails': 'Rate Details',
+  'common.feesAndSurcharges': 'Fees & Surcharges:',
+  'common.taxes': 'Taxes:',
+  'common.dismiss': 'Dismiss',
+  'common.cancel': 'Cancel',
+  'common.nights.one': '{count} night',
+  'common.nights.other': '{count} nights',
+  'common.pointsPerDollarRate': '{cents}¢/pt',
+  'common.pointsEarned': 'Points Earned',
+  'common.poorRedemption': '{cents} is below your {baseline} baseline',
+  'common.taxJurisdiction': 'Taxes for {name}',
+  'common.taxDefault': 'No tax data for {place}; default rates apply',
+  'common.taxNoLocation': 'Default tax rates apply until a location is chosen',
+
+  'category.hotel': 'Hotel Stay',
+  'category.flight': 'Flights',
+  'category.carRental': 'Car Rental',
+  'category.entertainment': 'Entertainment',
+  'category.rideShare': 'Ride Share',
+
+  'season.peak': 'Peak Season',
+  'season.shoulder': 'Shoulder Season',
+  'season.offPeak': 'Off-Peak Season',
+  'season.regular': 'Regular Season',
+
+  'lineItemKind.base': 'Base Price',
+  'lineItemKind.seasonal': 'Seasonal Adjustments',
+  'lineItemKind.discount': 'Discounts',
+  'lineItemKind.fee': 'Fees & Surcharges',
+  'lineItemKind.tax': 'Taxes',
+  'lineItemKind.points': 'Points Redeemed',
+
+  'lineItem.hotel.roomRate.one': 'Room rate ({count} night)',
+  'lineItem.hotel.roomRate.other': 'Room rate ({count} nights)',
+  'lineItem.hotel.roomType': 'Room type upgrade',
+  'lineItem.hotel.weekend': 'Weekend nights',
+  'lineItem.hotel.lengthOfStay': 'Length-of-stay discount',
+  'lineItem.hotel.resortFee': 'Resort fee',
+  'lineItem.hotel.serviceFee': 'Service fee',
+  'lineItem.hotel.amenityFee': 'Amenity fee',
+  'lineItem.hotel.destinationFee': 'Destination fee',
+  'lineItem.hotel.extraPerson': 'Extra person charge',
+  'lineItem.hotel.valetParking': 'Valet parking',
+  'lineItem.hotel.selfParking': 'Self parking',
+  'lineItem.flight.domesticFare': 'Domestic base fare',
+  'lineItem.flight.internationalFare': 'International base fare',
+  'lineItem.flight.peakSeason': 'Peak season adjustment',
+  'lineItem.flight.advancePurchase': 'Advance purchase discount',
+  'lineItem.flight.segmentFees': 'Segment fees',
+  'lineItem.flight.securityFee': 'TSA security fee',
+  'lineItem.flight.facilityCharges': 'Passenger facility charges',
+  'lineItem.flight.carrierSurcharge': 'Carrier surcharge',
+  'lineItem.flight.fuelSurcharge': 'Fuel surcharge',
+  'lineItem.flight.serviceFee': 'Service fee',
+  'lineItem.flight.customsFees': 'Immigration & customs fees',
+  'lineItem.flight.airportTax': 'Airport tax',
+  'lineItem.flight.segmentTax': 'Segment tax',
+  'lineItem.flight.departureTax': '{name} ({airport})',
+  'lineItem.car.baseRental': 'Base rental',
+  'lineItem.car.lengthDiscount': 'Length discount',
+  'lineItem.car.insurance': 'Insurance',
+  'lineItem.car.airportFee': 'Airport concession fee',
+  'lineItem.car.licenseFee': 'Vehicle license fee',
+  'lineItem.car.facilityFee': 'Facility fee',
+  'lineItem.rideShare.rides.one': '{count} ride',
+  'lineItem.rideShare.rides.other': '{count} rides',
+  'lineItem.rideShare.surge': 'Surge pricing',
+  'lineItem.event': '{name} × {quantity}',
+  'lineItem.tax': '{name}',
+  'lineItem.points': 'Hilton Honors points ({points} pts)',
+
+  'earningSource.base': 'Base points',
+  'earningSource.eliteBonus': 'Elite bonus',
+  'earningSource.lyft': 'Lyft partnership',
+  'earningSource.carRentalPartner': 'Car rental partners',
+
+  'tier.member': 'Member',
+  'tier.silver': 'Silver',
+  'tier.gold': 'Gold',
+  'tier.diamond': 'Diamond',
+  'tier.lifetimeDiamond': 'Lifetime Diamond',
+
+  'calculator.linkReset': 'Some values in the shared link were invalid and have been reset: {issues}',
+  'calculator.linkError.corrupted': 'The shared trip link is corrupted and could not be read.',
+  'calculator.linkError.noVersion': 'The shared trip link has no recognizable version.',
+  'calculator.linkError.newerVersion': 'The shared trip link was made by a newer version of the calculator.',
+
+  'wallet.title': 'Hilton Honors Points Wallet',
+  'wallet.optimize': 'Optimize My Points',
+  'wallet.optimizing': 'Optimizing My Points',
+  'wallet.balance': 'Points Balance',
+  'wallet.balancePlaceholder': 'Enter points (optional)',
+  'wallet.allocated': 'Allocated',
+  'wallet.unallocated': 'Unallocated',
+  'wallet.tier': 'Elite Tier',
+  'wallet.tierBonus': '{percent} bonus on base points',
+  'wallet.baseline': 'Point Value Baseline (¢)',
+  'wallet.baselineHelp': 'Redemptions worth less per point are flagged',
+  'wallet.optimizedHelp': 'Points are split automatically for the largest dollar savings. Switch off optimizing to set the split by hand.',
+
+  'rates.title': 'Exchange Rates',
+  'rates.custom': 'Custom rates · {date}',
+  'rates.default': 'Default rates',
+  'rates.help': 'Prices are quoted in {base} and converted for display. Rates are units of each currency per 1 {base}.',
+  'rates.import': 'Import Rates',
+  'rates.importPlaceholder': '{"EUR": 0.92, "JPY": 150}\nor one "CODE,rate" pair per line',
+  'rates.importButton': 'Import',
+  'rates.upload': 'Upload JSON or CSV',
+  'rates.reset': 'Reset to defaults',
+  'rates.issue.empty': 'Nothing to import.',
+  'rates.issue.invalidJson': 'The rate table is not valid JSON.',
+  'rates.issue.unsupported': 'Skipped unsupported currency "{currency}".',
+  'rates.issue.baseCurrency': '{currency} is the base currency and stays at 1.',
+  'rates.issue.invalidRate': 'Skipped {currency}: rate must be a positive number.',
+  'rates.issue.noRates': 'No exchange rates found.',
+
+  'hotel.title': 'Hotel Selection',
+  'hotel.brand': 'Hilton Brand',
+  'hotel.allBrands': 'All Brands',
+  'hotel.property': 'Select Property',
+  'hotel.propertyPlaceholder': 'Select a Property',
+  'hotel.checkIn': 'Check-in Date',
+  'hotel.checkOut': 'Check-out Date',
+  'hotel.rooms': 'Number of Rooms',
+  'hotel.room.add': 'Add room',
+  'hotel.room.remove': 'Remove room',
+  'hotel.room.label': 'Room {number}',
+  'hotel.room.adults': 'Adults',
+  'hotel.room.children': 'Children',
+  'hotel.room.maxOccupancy': 'Sleeps up to {count}',
+  'hotel.room.overOccupancy': 'This room sleeps at most {count} guests. Change the room type or move guests to another room.',
+  'hotel.room.extraPerson': 'Rates include {adults} adults per room; each extra adult adds {amount} per night.',
+  'hotel.room.type.king': 'King',
+  'hotel.room.type.doubleQueen': 'Double Queen',
+  'hotel.room.type.executive': 'Executive',
+  'hotel.room.type.suite': 'Suite',
+  'hotel.visitWebsite': 'Visit Hotel Website',
+  'hotel.baseRate': 'Base Rate (per night):',
+  'hotel.localRate': 'Local Rate ({currency}):',
+  'hotel.seasonalAdjustment': 'Seasonal Adjustment:',
+  'hotel.roomTypeAdjustment': 'Room Type Upgrade:',
+  'hotel.weekendNights.one': '{count} Weekend Night:',
+  'hotel.weekendNights.other': '{count} Weekend Nights:',
+  'hotel.lengthDiscount': '{nights}+ Nights Discount:',
+  'hotel.resortFee': 'Resort Fee:',
+  'hotel.serviceFee': 'Service Fee:',
+  'hotel.amenityFee': 'Amenity Fee:',
+  'hotel.selfParking': 'Self Parking:',
+  'hotel.valetParking': 'Valet Parking:',
+  'hotel.destinationFee': 'Destination Fee:',
+  'hotel.extraPerson': 'Extra Person Charge:',
+  'hotel.perRoomNight': '{amount} per room night',
+  'hotel.perNight': '{amount} per night',
+  'hotel.localTotal': '{amount} local',
+  'hotel.amenities': 'Amenities',
+  'hotel.calendar.title': 'Nightly Rates',
+  'hotel.calendar.previous': 'Previous month',
+  'hotel.calendar.next': 'Next month',
+  'hotel.calendar.select': 'Check in on this date',
+  'hotel.calendar.legend': 'One room per night before discounts, taxes and fees. Friday and Saturday nights cost more.',
+  'hotel.calendar.cheapest': 'Cheapest {nights} this month: check in {date} ({amount})',
+  'hotel.rateType': 'Rate Type',
+  'hotel.rateType.cash': 'Cash Rate',
+  'hotel.rateType.standardReward': 'Standard Room Reward',
+  'hotel.rateType.premiumReward': 'Premium Room Reward',
+  'hotel.pointsAndMoney': 'Pay any missing points with Points & Money',
+  'hotel.parkCar': "I'll park a car",
+  'hotel.noParking': 'This property has no on-site parking.',
+  'hotel.award.nightly': 'Points per night:',
+  'hotel.award.fifthNightFree': 'Fifth night free:',
+  'hotel.award.freeNights.one': '{count} free night per room',
+  'hotel.award.freeNights.other': '{count} free nights per room',
+  'hotel.award.total': 'Total points:',
+  'hotel.award.pointsAndMoney': '{points} points + cash:',
+  'hotel.award.cashFees': 'Fees paid in cash:',
+  'hotel.award.resortFeeWaived': 'Resort fee waived on Reward stays',
+  'hotel.award.shortfall': "Your hotel points are {points} short of this award, so the stay is priced at the cash rate.",
+  'hotel.award.value': 'Award value:',
+  'hotel.award.pointsBetter': 'Points are the better value for these dates (baseline {baseline})',
+  'hotel.award.cashBetter': 'Cash is the better value for these dates (baseline {baseline})',
+
+  'flight.title': 'Flight Selection',
+  'flight.origin': 'Departing Airport',
+  'flight.destination': 'Destination Airport',
+  'flight.selectAirport': 'Select Airport',
+  'flight.departDate': 'Departure Date',
+  'flight.returnDate': 'Return Date',
+  'flight.class': 'Class',
+  'flight.passengers': 'Passengers',
+  'flight.tripType': 'Trip Type',
+  'flight.roundTrip': 'Round Trip',
+  'flight.oneWay': 'One Way',
+  'flight.multiCity': 'Multi-City / Open-Jaw',
+  'flight.flightType': 'Flight Type',
+  'flight.nonStop': 'Non-Stop',
+  'flight.layover': 'Including Layovers',
+  'flight.segment.title': 'Further Flights',
+  'flight.segment.add': 'Add flight',
+  'flight.segment.remove': 'Remove flight',
+  'flight.segment.label': 'Flight {number}',
+  'flight.segment.date': 'Flight date',
+  'flight.segment.hint': 'Add every flight after the first. To fly into one city and home from another, add the return from the second city.',
+  'flight.segment.domestic': 'Domestic',
+  'flight.segment.international': 'International',
+  'flight.passenger.adult': 'Adults (18–64)',
+  'flight.passenger.senior': 'Seniors (65+)',
+  'flight.passenger.child': 'Children (2–17)',
+  'flight.passenger.infantInSeat': 'Infants in seat (under 2)',
+  'flight.passenger.infantInLap': 'Infants on lap (under 2)',
+  'flight.passenger.fullFare': 'Full fare',
+  'flight.passenger.fareShare': '{percent} of the adult fare',
+  'flight.passenger.issue.noAdult': 'Add at least one adult or senior.',
+  'flight.passenger.issue.lapInfants': 'Each lap infant must travel on the lap of an adult or senior.',
+  'flight.passenger.issue.tooManySeats': 'One booking holds at most {max} seats; lap infants don’t need one.',
+  'flight.passenger.flowsTo': 'Hotel guests and event tickets follow these travelers.',
+  'flight.details': 'Flight Details',
+  'flight.distance': 'Distance:',
+  'flight.duration': 'Est. Flight Time:',
+  'flight.miles': '{miles} mi',
+  'flight.hoursMinutes': '{hours}h {minutes}m',
+  'flight.baseFare': 'Base Fare:',
+  'flight.peakSeason': 'Peak Season Adjustment:',
+  'flight.advancePurchase': 'Advance Purchase Discount:',
+  'flexible.toggle': 'Flexible dates (±{days} days)',
+  'flexible.needsDates': 'Choose a hotel stay or a flight date to search nearby dates.',
+  'flexible.stay': 'Stay {checkIn} – {checkOut}',
+  'flexible.departs': 'Fly out {date}',
+  'flexible.split': 'Hotel {hotel} · Flight {flight}',
+  'flexible.current': 'Current',
+  'flexible.apply': 'Apply',
+  'flexible.footnote': "Hotel and flight dates move together. Other trip costs don't depend on the dates.",
+
+  'car.title': 'Car Rental',
+  'car.company': 'Rental Company',
+  'car.selectCompany': 'Select Company',
+  'car.category': 'Car Category',
+  'car.selectCategory': 'Select Category',
+  'car.economy': 'Economy',
+  'car.midsize': 'Midsize',
+  'car.luxury': 'Luxury',
+  'car.days': 'Rental Days',
+  'car.dailyRate': 'Base Rate (per day):',
+  'car.lengthDiscount': 'Length Discount:',
+
+  'itinerary.title': 'Multi-city itinerary',
+  'itinerary.summary.one': '{count} stop',
+  'itinerary.summary.other': '{count} stops',
+  'itinerary.add': 'Add a stop',
+  'itinerary.stop': 'Stop {number}',
+  'itinerary.stopIn': 'Stop {number}: {city}',
+  'itinerary.remove': 'Remove stop',
+  'itinerary.rentCar': 'Rent a car at this stop',
+  'itinerary.issue.gap.one': '{count} night without a hotel between stops {from} and {to}',
+  'itinerary.issue.gap.other': '{count} nights without a hotel between stops {from} and {to}',
+  'itinerary.issue.overlap.one': 'Stops {from} and {to} overlap by {count} night',
+  'itinerary.issue.overlap.other': 'Stops {from} and {to} overlap by {count} nights',
+  'itinerary.issue.flightDate': 'The flight to stop {to} leaves before stop {from} checks out or after stop {to} checks in',
+  'itinerary.issue.disconnected': "The flight to stop {to} doesn't leave from the city stop {from} arrived in",
+  'itinerary.moreStops.one': '+{count} more stop',
+  'itinerary.moreStops.other': '+{count} more stops',
+
+  'entertainment.selectHotel': 'Please select a hotel to view available entertainment options for that location.',
+  'entertainment.none': 'No entertainment options are currently available for this location.',
+  'entertainment.title': 'Entertainment & Activities in {city}',
+  'entertainment.location': 'at {location}',
+  'entertainment.perPerson': '{price}/person',
+  'entertainment.pointsDiscount': 'Up to {percent} with points',
+  'entertainment.quantity': 'Quantity',
+
+  'rideShare.title': 'Ride Share',
+  'rideShare.service': 'Service Type',
+  'rideShare.miles': 'Estimated Miles',
+  'rideShare.minutes': 'Estimated Minutes',
+  'rideShare.numberOfRides': 'Number of Rides',
+  'rideShare.timeOfDay': 'Time of Day',
+  'rideShare.standard': 'Standard',
+  'rideShare.peak': 'Peak Hours',
+  'rideShare.event': 'Special Event',
+  'rideShare.suggestion': '{airport} to {property}: about {miles} mi and {minutes} min, {rides}',
+  'rideShare.applySuggestion': 'Use estimate',
+  'rideShare.rides.one': '{count} ride',
+  'rideShare.rides.other': '{count} rides',
+  'rideShare.forRides.one': 'For {count} ride',
+  'rideShare.forRides.other': 'For {count} rides',
+  'rideShare.lyftEarning': 'Hilton Honors points through the Lyft partnership',
+
+  'summary.title': 'Total Trip Cost Summary',
+  'summary.cashPrice': 'Cash Price:',
+  'summary.pointsSavings': 'Points Savings:',
+  'summary.original': 'Original:',
+  'summary.pointsRedeemed': 'Points Redeemed:',
+  'summary.pointsEarned': 'Points Earned:',
+  'summary.showBreakdown': 'Show breakdown',
+  'summary.hideBreakdown': 'Hide breakdown',
+  'summary.showTripBreakdown': 'Show whole-trip breakdown',
+  'summary.hideTripBreakdown': 'Hide whole-trip breakdown',
+  'summary.totalCash': 'Total Cash Price',
+  'summary.totalPointsValue': 'Total Points Value',
+  'summary.finalCost': 'Final Cost',
+  'summary.walletBalance': 'Points Balance',
+  'summary.walletRedeemed': 'Points Redeemed',
+  'summary.walletLeftOver': 'Points Left Over',
+  'summary.walletEarned': 'Points Earned',
+  'summary.redeemedLedger': 'Points redeemed',
+  'summary.earnedLedger': "Points you'll earn",
+  'summary.noneRedeemed': 'No points redeemed on this trip',
+  'summary.noneEarned': 'No points earned yet',
+  'summary.ledgerTotal': 'Total',
+  'summary.balanceAfterTrip': 'Balance after trip',
+  'summary.valuePerPoint': 'Value per point',
+  'summary.poorRedemptions.one': '{count} redemption is worth less than your {baseline} baseline',
+  'summary.poorRedemptions.other': '{count} redemptions are worth less than your {baseline} baseline',
+  'summary.goodRedemptions': 'Every redemption meets your {baseline} baseline',
+  'summary.optimizedSplit': 'Optimized Points Split: {amount} saved',
+  'summary.optimizer.firstCapped': '{category} at {rate} (best rate, filled first): {points} pts reach the {amount} cap.',
+  'summary.optimizer.firstPartial': '{category} at {rate} (best rate, filled first): the last {points} pts cover {amount}.',
+  'summary.optimizer.nextCapped': '{category} at {rate} (next best rate): {points} pts reach the {amount} cap.',
+  'summary.optimizer.nextPartial': '{category} at {rate} (next best rate): the last {points} pts cover {amount}.',
+  'summary.optimizer.exhausted': '{category} at {rate}: nothing left, the balance went to better redemptions.',
+  'summary.optimizer.leftover': '{points} pts left over: every category has hit its points cap.',
+  'summary.footnoteRates': '* Points values are calculated based on current Hilton Honors redemption rates',
+  'summary.footnoteEntertainment': '* Entertainment discounts vary by venue and event type',
+  'summary.footnoteConversion': '* Prices are quoted in {base} and converted at 1 {base} = {rate} {currency}',
+
+  'breakdown.empty': 'Nothing priced yet.',
+  'breakdown.netTotal': 'Net Total',
+
+  'share.copy': 'Copy Shareable Quote Link',
+  'share.copied': 'Link Copied',
+  'share.prompt': 'Copy this link to share the quote:',
+
+  'saved.title': 'Saved Trips',
+  'saved.namePlaceholder': 'Name this trip',
+  'saved.save': 'Save current trip',
+  'saved.empty': 'No saved trips yet. Build a quote and save it here to reload it later.',
+  'saved.saveName': 'Save name',
+  'saved.overwrite': 'Overwrite with current trip',
+  'saved.rename': 'Rename',
+  'saved.duplicate': 'Duplicate',
+  'saved.delete': 'Delete',
+  'saved.confirmDelete': 'Delete "{name}"?',
+  'saved.noDates': 'No dates',
+  'saved.untitled': 'Untitled trip',
+  'saved.copyName': '{name} (copy)',
+
+  'compare.title': 'Compare Scenarios',
+  'compare.add': 'Add Current Trip',
+  'compare.help': 'Add {min} to {max} trips to compare them side by side. Load a scenario to edit it in the calculator, then use update to capture your changes.',
+  'compare.optionName': 'Option {letter}',
+  'compare.noHotel': 'No hotel',
+  'compare.category': 'Category',
+  'compare.load': 'Load into calculator',
+  'compare.update': 'Update from current trip',
+  'compare.remove': 'Remove',
+  'compare.net': 'Net {amount}',
+  'compare.netDelta': '{delta} net',
+  'compare.totalCash': 'Total Cash',
+  'compare.netAfterPoints': 'Net After Points',
+  'compare.footnote': 'Deltas are relative to the first scenario. The cheapest option for cash and for net cost after points is highlighted.',
+
+  'diamond.title': 'Hilton Honors Benefits Value',
+  'diamond.daily': 'Daily Benefits',
+  'diamond.breakfast': 'Breakfast ({guests} guests)',
+  'diamond.foodCredit': 'Food & Beverage Credit ({guests} guests)',
+  'diamond.wifi': 'Premium WiFi',
+  'diamond.water': 'Bottled Water',
+  'diamond.lounge': 'Executive Lounge',
+  'diamond.dailyTotal': 'Daily Total',
+  'diamond.stay': 'Stay Benefits',
+  'diamond.upgrade': 'Room Upgrade',
+  'diamond.lateCheckout': 'Late Checkout',
+  'diamond.earlyCheckin': 'Early Check-in',
+  'diamond.status': 'Elite Status',
+  'diamond.stayTotal': 'Stay Total',
+  'diamond.points': 'Points Benefits',
+  'diamond.basePoints': 'Base Points Value',
+  'diamond.bonusPoints': 'Bonus Points ({percent})',
+  'diamond.pointsTotal': 'Points Total',
+  'diamond.notIncluded': 'Not included at this tier',
+  'diamond.total': 'Total Benefits Value',
+  'diamond.totalHelp': 'Combined value of your {tier} benefits',
+  'diamond.footnoteEstimates': '* Benefits values are estimates based on average market rates and may vary by location',
+  'diamond.footnoteAvailability': '* Space-available upgrades and lounge access are subject to availability',
+
+  'status.title': 'Elite Status Qualification',
+  'status.year': 'Qualification year',
+  'status.addCurrent': 'Add this trip to planned stays',
+  'status.completed': 'Completed',
+  'status.planned': 'Planned',
+  'status.projected': 'Projected for the year',
+  'status.includesCurrent': "Includes the trip you're pricing ({nights})",
+  'status.stays.one': '{count} stay',
+  'status.stays.other': '{count} stays',
+  'status.basePointsValue': '{points} base points',
+  'status.moreNights.one': '{count} more night to {tier}',
+  'status.moreNights.other': '{count} more nights to {tier}',
+  'status.topTier': 'Your stays reach Diamond, the top qualifying tier',
+  'status.qualifies': 'On track for {tier}',
+  'status.nightsOf': '{nights} / {required} nights',
+  'status.met': 'Qualified',
+  'status.remaining': '{nights} more nights, {stays} more stays or {points} more base points',
+  'status.legend': 'Dark bars are completed nights; light bars add planned stays.',
+  'status.history': 'Recorded Stays',
+  'status.empty': 'No stays recorded yet. Add past stays below to track your progress.',
+  'status.completedStay': 'Completed',
+  'status.plannedStay': 'Planned',
+  'status.markCompleted': 'Mark as completed',
+  'status.delete': 'Delete stay',
+  'status.hotel': 'Hotel',
+  'status.hotelPlaceholder': 'Hotel name',
+  'status.basePoints': 'Base Points',
+  'status.add': 'Add stay',
+  'status.defaultName': 'Hilton stay',
+
+  'sources.title': 'Pricing Data Sources',
+  'sources.hotel': 'Hotel Rates & Availability',
+  'sources.flights': 'Flights',
+  'sources.carRentals': 'Car Rentals',
+  'sources.rideShare': 'Ride Share',
+  'sources.loyalty': 'Loyalty Programs & Points',
+  'sources.footnote': 'All pricing data is updated in real-time through official APIs and partnerships. Ride share estimates include Lyft partnership benefits with Hilton Honors points earning potential.'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,436 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.title': 'Hilton Honors Viajes y Ahorro',
+  'app.language': 'Idioma',
+  'app.displayCurrency': 'Moneda de visualización',
+
+  'common.totalCost': 'Coste total',
+  'common.pointsValue': 'Valor de los puntos',
+  'common.pointsSavings': 'Ahorro con puntos',
+  'common.finalCost': 'Coste final',
+  'common.allTaxesIncluded': 'Impuestos y cargos incluidos',
+  'common.afterPointsSavings': 'Tras el ahorro con puntos',
+  'common.usingPoints': 'Usando {points} puntos Hilton',
+  'common.rateDetails': 'Detalle de la tarifa',
+  'common.feesAndSurcharges': 'Cargos y recargos:',
+  'common.taxes': 'Impuestos:',
+  'common.dismiss': 'Cerrar',
+  'common.cancel': 'Cancelar',
+  'common.nights.one': '{count} noche',
+  'common.nights.other': '{count} noches',
+  'common.pointsPerDollarRate': '{cents} ¢/pt',
+  'common.pointsEarned': 'Puntos obtenidos',
+  'common.poorRedemption': '{cents} está por debajo de tu referencia de {baseline}',
+  'common.taxJurisdiction': 'Impuestos de {name}',
+  'common.taxDefault': 'Sin datos fiscales para {place}; se aplican las tasas predeterminadas',
+  'common.taxNoLocation': 'Se aplican las tasas predeterminadas hasta elegir una ubicación',
+
+  'category.hotel': 'Estancia en hotel',
+  'category.flight': 'Vuelos',
+  'category.carRental': 'Alquiler de coche',
+  'category.entertainment': 'Ocio',
+  'category.rideShare': 'VTC',
+
+  'season.peak': 'Temporada alta',
+  'season.shoulder': 'Temporada media',
+  'season.offPeak': 'Temporada baja',
+  'season.regular': 'Temporada normal',
+
+  'lineItemKind.base': 'Precio base',
+  'lineItemKind.seasonal': 'Ajustes de temporada',
+  'lineItemKind.discount': 'Descuentos',
+  'lineItemKind.fee': 'Cargos y recargos',
+  'lineItemKind.tax': 'Impuestos',
+  'lineItemKind.points': 'Puntos canjeados',
+
+  'lineItem.hotel.roomRate.one': 'Tarifa de la habitación ({count} noche)',
+  'lineItem.hotel.roomRate.other': 'Tarifa de la habitación ({count} noches)',
+  'lineItem.hotel.roomType': 'Mejora de tipo de habitación',
+  'lineItem.hotel.weekend': 'Noches de fin de semana',
+  'lineItem.hotel.lengthOfStay': 'Descuento por estancia larga',
+  'lineItem.hotel.resortFee': 'Tarifa de resort',
+  'lineItem.hotel.serviceFee': 'Cargo por servicio',
+  'lineItem.hotel.amenityFee': 'Cargo por servicios adicionales',
+  'lineItem.hotel.destinationFee': 'Tarifa de destino',
+  'lineItem.hotel.extraPerson': 'Cargo por persona adicional',
+  'lineItem.hotel.valetParking': 'Aparcacoches',
+  'lineItem.hotel.selfParking': 'Estacionamiento propio',
+  'lineItem.flight.domesticFare': 'Tarifa base nacional',
+  'lineItem.flight.internationalFare': 'Tarifa base internacional',
+  'lineItem.flight.peakSeason': 'Ajuste de temporada alta',
+  'lineItem.flight.advancePurchase': 'Descuento por compra anticipada',
+  'lineItem.flight.segmentFees': 'Cargos por segmento',
+  'lineItem.flight.securityFee': 'Tasa de seguridad TSA',
+  'lineItem.flight.facilityCharges': 'Cargos por instalaciones para pasajeros',
+  'lineItem.flight.carrierSurcharge': 'Recargo de la aerolínea',
+  'lineItem.flight.fuelSurcharge': 'Recargo por combustible',
+  'lineItem.flight.serviceFee': 'Cargo por servicio',
+  'lineItem.flight.customsFees': 'Tasas de inmigración y aduanas',
+  'lineItem.flight.airportTax': 'Tasa aeroportuaria',
+  'lineItem.flight.segmentTax': 'Impuesto por segmento',
+  'lineItem.flight.departureTax': '{name} ({airport})',
+  'lineItem.car.baseRental': 'Alquiler base',
+  'lineItem.car.lengthDiscount': 'Descuento por duración',
+  'lineItem.car.insurance': 'Seguro',
+  'lineItem.car.airportFee': 'Tasa de concesión aeroportuaria',
+  'lineItem.car.licenseFee': 'Tasa de matriculación',
+  'lineItem.car.facilityFee': 'Cargo por instalaciones',
+  'lineItem.rideShare.rides.one': '{count} viaje',
+  'lineItem.rideShare.rides.other': '{count} viajes',
+  'lineItem.rideShare.surge': 'Tarifa dinámica',
+  'lineItem.event': '{name} × {quantity}',
+  'lineItem.tax': '{name}',
+  'lineItem.points': 'Puntos Hilton Honors ({points} pts)',
+
+  'earningSource.base': 'Puntos base',
+  'earningSource.eliteBonus': 'Bonificación de estatus',
+  'earningSource.lyft': 'Alianza con Lyft',
+  'earningSource.carRentalPartner': 'Socios de alquiler de coches',
+
+  'tier.member': 'Miembro',
+  'tier.silver': 'Silver',
+  'tier.gold': 'Gold',
+  'tier.diamond': 'Diamond',
+  'tier.lifetimeDiamond': 'Diamond vitalicio',
+
+  'calculator.linkReset': 'Algunos valores del enlace compartido no eran válidos y se han restablecido: {issues}',
+  'calculator.linkError.corrupted': 'El enlace del viaje compartido está dañado y no se pudo leer.',
+  'calculator.linkError.noVersion': 'El enlace del viaje compartido no tiene una versión reconocible.',
+  'calculator.linkError.newerVersion': 'El enlace del viaje compartido se creó con una versión más reciente de la calculadora.',
+
+  'wallet.title': 'Monedero de puntos Hilton Honors',
+  'wallet.optimize': 'Optimizar mis puntos',
+  'wallet.optimizing': 'Optimizando mis puntos',
+  'wallet.balance': 'Saldo de puntos',
+  'wallet.balancePlaceholder': 'Introduce puntos (opcional)',
+  'wallet.allocated': 'Asignados',
+  'wallet.unallocated': 'Sin asignar',
+  'wallet.tier': 'Estatus élite',
+  'wallet.tierBonus': 'Bonificación del {percent} sobre los puntos base',
+  'wallet.baseline': 'Valor de referencia por punto (¢)',
+  'wallet.baselineHelp': 'Se marcan los canjes que rinden menos por punto',
+  'wallet.optimizedHelp': 'Los puntos se reparten automáticamente para lograr el mayor ahorro. Desactiva la optimización para repartirlos a mano.',
+
+  'rates.title': 'Tipos de cambio',
+  'rates.custom': 'Tipos personalizados · {date}',
+  'rates.default': 'Tipos predeterminados',
+  'rates.help': 'Los precios están en {base} y se convierten para mostrarlos. Los tipos indican las unidades de cada moneda por 1 {base}.',
+  'rates.import': 'Importar tipos',
+  'rates.importPlaceholder': '{"EUR": 0.92, "JPY": 150}\no un par «CÓDIGO,tipo» por línea',
+  'rates.importButton': 'Importar',
+  'rates.upload': 'Subir JSON o CSV',
+  'rates.reset': 'Restablecer valores predeterminados',
+  'rates.issue.empty': 'No hay nada que importar.',
+  'rates.issue.invalidJson': 'La tabla de tipos no es un JSON válido.',
+  'rates.issue.unsupported': 'Se omitió la moneda no admitida «{currency}».',
+  'rates.issue.baseCurrency': '{currency} es la moneda base y se mantiene en 1.',
+  'rates.issue.invalidRate': 'Se omitió {currency}: el tipo debe ser un número positivo.',
+  'rates.issue.noRates': 'No se encontraron tipos de cambio.',
+
+  'hotel.title': 'Selección de hotel',
+  'hotel.brand': 'Marca Hilton',
+  'hotel.allBrands': 'Todas las marcas',
+  'hotel.property': 'Seleccionar hotel',
+  'hotel.propertyPlaceholder': 'Selecciona un hotel',
+  'hotel.checkIn': 'Fecha de entrada',
+  'hotel.checkOut': 'Fecha de salida',
+  'hotel.rooms': 'Número de habitaciones',
+  'hotel.room.add': 'Añadir habitación',
+  'hotel.room.remove': 'Quitar habitación',
+  'hotel.room.label': 'Habitación {number}',
+  'hotel.room.adults': 'Adultos',
+  'hotel.room.children': 'Niños',
+  'hotel.room.maxOccupancy': 'Hasta {count} personas',
+  'hotel.room.overOccupancy': 'Esta habitación admite como máximo {count} huéspedes. Cambia el tipo de habitación o reparte a los huéspedes.',
+  'hotel.room.extraPerson': 'La tarifa incluye {adults} adultos por habitación; cada adulto adicional suma {amount} por noche.',
+  'hotel.room.type.king': 'King',
+  'hotel.room.type.doubleQueen': 'Dos camas Queen',
+  'hotel.room.type.executive': 'Ejecutiva',
+  'hotel.room.type.suite': 'Suite',
+  'hotel.visitWebsite': 'Visitar la web del hotel',
+  'hotel.baseRate': 'Tarifa base (por noche):',
+  'hotel.localRate': 'Tarifa local ({currency}):',
+  'hotel.seasonalAdjustment': 'Ajuste de temporada:',
+  'hotel.roomTypeAdjustment': 'Suplemento por tipo de habitación:',
+  'hotel.weekendNights.one': '{count} noche de fin de semana:',
+  'hotel.weekendNights.other': '{count} noches de fin de semana:',
+  'hotel.lengthDiscount': 'Descuento desde {nights} noches:',
+  'hotel.resortFee': 'Tasa de resort:',
+  'hotel.serviceFee': 'Cargo por servicio:',
+  'hotel.amenityFee': 'Cargo por servicios adicionales:',
+  'hotel.selfParking': 'Aparcamiento propio:',
+  'hotel.valetParking': 'Aparcacoches:',
+  'hotel.destinationFee': 'Tasa de destino:',
+  'hotel.extraPerson': 'Cargo por persona adicional:',
+  'hotel.perRoomNight': '{amount} por habitación y noche',
+  'hotel.perNight': '{amount} por noche',
+  'hotel.localTotal': '{amount} en moneda local',
+  'hotel.amenities': 'Servicios',
+  'hotel.calendar.title': 'Tarifas por noche',
+  'hotel.calendar.previous': 'Mes anterior',
+  'hotel.calendar.next': 'Mes siguiente',
+  'hotel.calendar.select': 'Llegar en esta fecha',
+  'hotel.calendar.legend': 'Una habitación por noche, antes de descuentos, impuestos y cargos. Las noches de viernes y sábado cuestan más.',
+  'hotel.calendar.cheapest': 'Estancia de {nights} más barata este mes: llegada el {date} ({amount})',
+  'hotel.rateType': 'Tipo de tarifa',
+  'hotel.rateType.cash': 'Tarifa en efectivo',
+  'hotel.rateType.standardReward': 'Standard Room Reward',
+  'hotel.rateType.premiumReward': 'Premium Room Reward',
+  'hotel.pointsAndMoney': 'Completar los puntos que falten con Points & Money',
+  'hotel.parkCar': 'Voy a aparcar un coche',
+  'hotel.noParking': 'Este hotel no tiene aparcamiento propio.',
+  'hotel.award.nightly': 'Puntos por noche:',
+  'hotel.award.fifthNightFree': 'Quinta noche gratis:',
+  'hotel.award.freeNights.one': '{count} noche gratis por habitación',
+  'hotel.award.freeNights.other': '{count} noches gratis por habitación',
+  'hotel.award.total': 'Total de puntos:',
+  'hotel.award.pointsAndMoney': '{points} puntos + efectivo:',
+  'hotel.award.cashFees': 'Cargos pagados en efectivo:',
+  'hotel.award.resortFeeWaived': 'Sin cargo de resort en estancias con puntos',
+  'hotel.award.shortfall': 'Faltan {points} puntos de hotel para esta recompensa, así que la estancia se calcula con la tarifa en efectivo.',
+  'hotel.award.value': 'Valor de la recompensa:',
+  'hotel.award.pointsBetter': 'Los puntos rinden más en estas fechas (referencia {baseline})',
+  'hotel.award.cashBetter': 'Pagar en efectivo rinde más en estas fechas (referencia {baseline})',
+
+  'flight.title': 'Selección de vuelo',
+  'flight.origin': 'Aeropuerto de salida',
+  'flight.destination': 'Aeropuerto de destino',
+  'flight.selectAirport': 'Selecciona un aeropuerto',
+  'flight.departDate': 'Fecha de ida',
+  'flight.returnDate': 'Fecha de vuelta',
+  'flight.class': 'Clase',
+  'flight.passengers': 'Pasajeros',
+  'flight.tripType': 'Tipo de viaje',
+  'flight.roundTrip': 'Ida y vuelta',
+  'flight.oneWay': 'Solo ida',
+  'flight.multiCity': 'Multidestino / open jaw',
+  'flight.flightType': 'Tipo de vuelo',
+  'flight.nonStop': 'Directo',
+  'flight.layover': 'Con escalas',
+  'flight.segment.title': 'Vuelos siguientes',
+  'flight.segment.add': 'Añadir vuelo',
+  'flight.segment.remove': 'Quitar vuelo',
+  'flight.segment.label': 'Vuelo {number}',
+  'flight.segment.date': 'Fecha del vuelo',
+  'flight.segment.hint': 'Añada cada vuelo después del primero. Para llegar a una ciudad y volver desde otra, añada el regreso desde la segunda ciudad.',
+  'flight.segment.domestic': 'Nacional',
+  'flight.segment.international': 'Internacional',
+  'flight.passenger.adult': 'Adultos (18–64)',
+  'flight.passenger.senior': 'Mayores (65+)',
+  'flight.passenger.child': 'Niños (2–17)',
+  'flight.passenger.infantInSeat': 'Bebés con asiento (menores de 2)',
+  'flight.passenger.infantInLap': 'Bebés en brazos (menores de 2)',
+  'flight.passenger.fullFare': 'Tarifa completa',
+  'flight.passenger.fareShare': '{percent} de la tarifa de adulto',
+  'flight.passenger.issue.noAdult': 'Añada al menos un adulto o una persona mayor.',
+  'flight.passenger.issue.lapInfants': 'Cada bebé en brazos debe viajar con un adulto o una persona mayor.',
+  'flight.passenger.issue.tooManySeats': 'Una reserva admite como máximo {max} asientos; los bebés en brazos no lo necesitan.',
+  'flight.passenger.flowsTo': 'Los huéspedes del hotel y las entradas siguen a estos viajeros.',
+  'flight.details': 'Detalle del vuelo',
+  'flight.distance': 'Distancia:',
+  'flight.duration': 'Tiempo de vuelo estimado:',
+  'flight.miles': '{miles} mi',
+  'flight.hoursMinutes': '{hours} h {minutes} min',
+  'flight.baseFare': 'Tarifa base:',
+  'flight.peakSeason': 'Recargo de temporada alta:',
+  'flight.advancePurchase': 'Descuento por compra anticipada:',
+  'flexible.toggle': 'Fechas flexibles (±{days} días)',
+  'flexible.needsDates': 'Elige una estancia o una fecha de vuelo para buscar fechas cercanas.',
+  'flexible.stay': 'Estancia del {checkIn} al {checkOut}',
+  'flexible.departs': 'Salida el {date}',
+  'flexible.split': 'Hotel {hotel} · Vuelo {flight}',
+  'flexible.current': 'Actual',
+  'flexible.apply': 'Aplicar',
+  'flexible.footnote': 'Las fechas de hotel y vuelo se mueven juntas. Los demás costes del viaje no dependen de las fechas.',
+
+  'car.title': 'Alquiler de coche',
+  'car.company': 'Empresa de alquiler',
+  'car.selectCompany': 'Selecciona una empresa',
+  'car.category': 'Categoría del coche',
+  'car.selectCategory': 'Selecciona una categoría',
+  'car.economy': 'Económico',
+  'car.midsize': 'Intermedio',
+  'car.luxury': 'Lujo',
+  'car.days': 'Días de alquiler',
+  'car.dailyRate': 'Tarifa base (por día):',
+  'car.lengthDiscount': 'Descuento por duración:',
+
+  'itinerary.title': 'Itinerario con varias ciudades',
+  'itinerary.summary.one': '{count} parada',
+  'itinerary.summary.other': '{count} paradas',
+  'itinerary.add': 'Añadir una parada',
+  'itinerary.stop': 'Parada {number}',
+  'itinerary.stopIn': 'Parada {number}: {city}',
+  'itinerary.remove': 'Quitar parada',
+  'itinerary.rentCar': 'Alquilar un coche en esta parada',
+  'itinerary.issue.gap.one': '{count} noche sin hotel entre las paradas {from} y {to}',
+  'itinerary.issue.gap.other': '{count} noches sin hotel entre las paradas {from} y {to}',
+  'itinerary.issue.overlap.one': 'Las paradas {from} y {to} se solapan {count} noche',
+  'itinerary.issue.overlap.other': 'Las paradas {from} y {to} se solapan {count} noches',
+  'itinerary.issue.flightDate': 'El vuelo a la parada {to} sale antes de la salida de la parada {from} o después de la llegada a la parada {to}',
+  'itinerary.issue.disconnected': 'El vuelo a la parada {to} no sale de la ciudad a la que llegó la parada {from}',
+  'itinerary.moreStops.one': '+{count} parada más',
+  'itinerary.moreStops.other': '+{count} paradas más',
+
+  'entertainment.selectHotel': 'Selecciona un hotel para ver las opciones de ocio disponibles en esa zona.',
+  'entertainment.none': 'No hay opciones de ocio disponibles en esta zona por ahora.',
+  'entertainment.title': 'Ocio y actividades en {city}',
+  'entertainment.location': 'en {location}',
+  'entertainment.perPerson': '{price}/persona',
+  'entertainment.pointsDiscount': 'Hasta un {percent} con puntos',
+  'entertainment.quantity': 'Cantidad',
+
+  'rideShare.title': 'VTC',
+  'rideShare.service': 'Tipo de servicio',
+  'rideShare.miles': 'Millas estimadas',
+  'rideShare.minutes': 'Minutos estimados',
+  'rideShare.numberOfRides': 'Número de viajes',
+  'rideShare.timeOfDay': 'Franja horaria',
+  'rideShare.standard': 'Estándar',
+  'rideShare.peak': 'Hora punta',
+  'rideShare.event': 'Evento especial',
+  'rideShare.suggestion': '{airport} a {property}: unas {miles} mi y {minutes} min, {rides}',
+  'rideShare.applySuggestion': 'Usar estimación',
+  'rideShare.rides.one': '{count} viaje',
+  'rideShare.rides.other': '{count} viajes',
+  'rideShare.forRides.one': 'Para {count} viaje',
+  'rideShare.forRides.other': 'Para {count} viajes',
+  'rideShare.lyftEarning': 'Puntos Hilton Honors gracias a la alianza con Lyft',
+
+  'summary.title': 'Resumen del coste del viaje',
+  'summary.cashPrice': 'Precio en efectivo:',
+  'summary.pointsSavings': 'Ahorro con puntos:',
+  'summary.original': 'Original:',
+  'summary.pointsRedeemed': 'Puntos canjeados:',
+  'summary.pointsEarned': 'Puntos obtenidos:',
+  'summary.showBreakdown': 'Ver desglose',
+  'summary.hideBreakdown': 'Ocultar desglose',
+  'summary.showTripBreakdown': 'Ver desglose del viaje',
+  'summary.hideTripBreakdown': 'Ocultar desglose del viaje',
+  'summary.totalCash': 'Precio total en efectivo',
+  'summary.totalPointsValue': 'Valor total de los puntos',
+  'summary.finalCost': 'Coste final',
+  'summary.walletBalance': 'Saldo de puntos',
+  'summary.walletRedeemed': 'Puntos canjeados',
+  'summary.walletLeftOver': 'Puntos sobrantes',
+  'summary.walletEarned': 'Puntos obtenidos',
+  'summary.redeemedLedger': 'Puntos canjeados',
+  'summary.earnedLedger': 'Puntos que obtendrá',
+  'summary.noneRedeemed': 'No se canjean puntos en este viaje',
+  'summary.noneEarned': 'Aún no se han obtenido puntos',
+  'summary.ledgerTotal': 'Total',
+  'summary.balanceAfterTrip': 'Saldo tras el viaje',
+  'summary.valuePerPoint': 'Valor por punto',
+  'summary.poorRedemptions.one': '{count} canje rinde menos que tu referencia de {baseline}',
+  'summary.poorRedemptions.other': '{count} canjes rinden menos que tu referencia de {baseline}',
+  'summary.goodRedemptions': 'Todos los canjes alcanzan tu referencia de {baseline}',
+  'summary.optimizedSplit': 'Reparto optimizado de puntos: {amount} de ahorro',
+  'summary.optimizer.firstCapped': '{category} a {rate} (mejor tasa, se llena primero): {points} pts alcanzan el límite de {amount}.',
+  'summary.optimizer.firstPartial': '{category} a {rate} (mejor tasa, se llena primero): los últimos {points} pts cubren {amount}.',
+  'summary.optimizer.nextCapped': '{category} a {rate} (siguiente mejor tasa): {points} pts alcanzan el límite de {amount}.',
+  'summary.optimizer.nextPartial': '{category} a {rate} (siguiente mejor tasa): los últimos {points} pts cubren {amount}.',
+  'summary.optimizer.exhausted': '{category} a {rate}: no queda nada, el saldo se destinó a mejores canjes.',
+  'summary.optimizer.leftover': 'Sobran {points} pts: todas las categorías han alcanzado su límite de puntos.',
+  'summary.footnoteRates': '* El valor de los puntos se calcula con los tipos de canje actuales de Hilton Honors',
+  'summary.footnoteEntertainment': '* Los descuentos de ocio varían según el recinto y el tipo de evento',
+  'summary.footnoteConversion': '* Precios en {base} convertidos a 1 {base} = {rate} {currency}',
+
+  'breakdown.empty': 'Todavía no hay nada calculado.',
+  'breakdown.netTotal': 'Total neto',
+
+  'share.copy': 'Copiar enlace del presupuesto',
+  'share.copied': 'Enlace copiado',
+  'share.prompt': 'Copia este enlace para compartir el presupuesto:',
+
+  'saved.title': 'Viajes guardados',
+  'saved.namePlaceholder': 'Pon nombre a este viaje',
+  'saved.save': 'Guardar el viaje actual',
+  'saved.empty': 'Aún no hay viajes guardados. Prepara un presupuesto y guárdalo aquí para recuperarlo más tarde.',
+  'saved.saveName': 'Guardar nombre',
+  'saved.overwrite': 'Sobrescribir con el viaje actual',
+  'saved.rename': 'Cambiar nombre',
+  'saved.duplicate': 'Duplicar',
+  'saved.delete': 'Eliminar',
+  'saved.confirmDelete': '¿Eliminar «{name}»?',
+  'saved.noDates': 'Sin fechas',
+  'saved.untitled': 'Viaje sin título',
+  'saved.copyName': '{name} (copia)',
+
+  'compare.title': 'Comparar escenarios',
+  'compare.add': 'Añadir el viaje actual',
+  'compare.help': 'Añade de {min} a {max} viajes para compararlos en paralelo. Carga un escenario para editarlo en la calculadora y luego actualízalo para guardar los cambios.',
+  'compare.optionName': 'Opción {letter}',
+  'compare.noHotel': 'Sin hotel',
+  'compare.category': 'Categoría',
+  'compare.load': 'Cargar en la calculadora',
+  'compare.update': 'Actualizar con el viaje actual',
+  'compare.remove': 'Quitar',
+  'compare.net': 'Neto {amount}',
+  'compare.netDelta': '{delta} neto',
+  'compare.totalCash': 'Total en efectivo',
+  'compare.netAfterPoints': 'Neto tras puntos',
+  'compare.footnote': 'Las diferencias son respecto al primer escenario. Se destaca la opción más barata en efectivo y en coste neto tras puntos.',
+
+  'diamond.title': 'Valor de las ventajas Hilton Honors',
+  'diamond.daily': 'Ventajas diarias',
+  'diamond.breakfast': 'Desayuno ({guests} huéspedes)',
+  'diamond.foodCredit': 'Crédito de comida y bebida ({guests} huéspedes)',
+  'diamond.wifi': 'Wi-Fi premium',
+  'diamond.water': 'Agua embotellada',
+  'diamond.lounge': 'Salón ejecutivo',
+  'diamond.dailyTotal': 'Total diario',
+  'diamond.stay': 'Ventajas por estancia',
+  'diamond.upgrade': 'Mejora de habitación',
+  'diamond.lateCheckout': 'Salida tardía',
+  'diamond.earlyCheckin': 'Entrada anticipada',
+  'diamond.status': 'Estatus Elite',
+  'diamond.stayTotal': 'Total de la estancia',
+  'diamond.points': 'Ventajas en puntos',
+  'diamond.basePoints': 'Valor de los puntos base',
+  'diamond.bonusPoints': 'Puntos extra ({percent})',
+  'diamond.pointsTotal': 'Total de puntos',
+  'diamond.notIncluded': 'No incluido en este estatus',
+  'diamond.total': 'Valor total de las ventajas',
+  'diamond.totalHelp': 'Valor combinado de sus ventajas {tier}',
+  'diamond.footnoteEstimates': '* Los valores son estimaciones basadas en precios medios de mercado y pueden variar según el destino',
+  'diamond.footnoteAvailability': '* Las mejoras y el acceso al salón están sujetos a disponibilidad',
+
+  'status.title': 'Calificación para el estatus élite',
+  'status.year': 'Año de calificación',
+  'status.addCurrent': 'Añadir este viaje a las estancias previstas',
+  'status.completed': 'Completadas',
+  'status.planned': 'Previstas',
+  'status.projected': 'Previsión del año',
+  'status.includesCurrent': 'Incluye el viaje que está calculando ({nights})',
+  'status.stays.one': '{count} estancia',
+  'status.stays.other': '{count} estancias',
+  'status.basePointsValue': '{points} puntos base',
+  'status.moreNights.one': 'Falta {count} noche para {tier}',
+  'status.moreNights.other': 'Faltan {count} noches para {tier}',
+  'status.topTier': 'Sus estancias alcanzan Diamond, el estatus más alto',
+  'status.qualifies': 'En camino a {tier}',
+  'status.nightsOf': '{nights} / {required} noches',
+  'status.met': 'Conseguido',
+  'status.remaining': 'Faltan {nights} noches, {stays} estancias o {points} puntos base',
+  'status.legend': 'Las barras oscuras son noches completadas; las claras añaden las estancias previstas.',
+  'status.history': 'Estancias registradas',
+  'status.empty': 'Aún no hay estancias registradas. Añada abajo sus estancias anteriores para seguir su progreso.',
+  'status.completedStay': 'Completada',
+  'status.plannedStay': 'Prevista',
+  'status.markCompleted': 'Marcar como completada',
+  'status.delete': 'Eliminar estancia',
+  'status.hotel': 'Hotel',
+  'status.hotelPlaceholder': 'Nombre del hotel',
+  'status.basePoints': 'Puntos base',
+  'status.add': 'Añadir estancia',
+  'status.defaultName': 'Estancia Hilton',
+
+  'sources.title': 'Fuentes de precios',
+  'sources.hotel': 'Tarifas y disponibilidad de hoteles',
+  'sources.flights': 'Vuelos',
+  'sources.carRentals': 'Alquiler de coches',
+  'sources.rideShare': 'VTC',
+  'sources.loyalty': 'Programas de fidelidad y puntos',
+  'sources.footnote': 'Todos los precios se actualizan en tiempo real mediante API oficiales y acuerdos con socios. Las estimaciones de VTC incluyen las ventajas de la colaboración con Lyft y los puntos Hilton Honors que se pueden ganar.'
+};
@@ -0,0 +1,436 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'app.title': 'Hilton Honors Voyages & Économies',
+  'app.language': 'Langue',
+  'app.displayCurrency': 'Devise d’affichage',
+
+  'common.totalCost': 'Coût total',
+  'common.pointsValue': 'Valeur des points',
+  'common.pointsSavings': 'Économies en points',
+  'common.finalCost': 'Coût final',
+  'common.allTaxesIncluded': 'Taxes et frais inclus',
+  'common.afterPointsSavings': 'Après économies en points',
+  'common.usingPoints': 'Avec {points} points Hilton',
+  'common.rateDetails': 'Détail du tarif',
+  'common.feesAndSurcharges': 'Frais et suppléments :',
+  'common.taxes': 'Taxes :',
+  'common.dismiss': 'Fermer',
+  'common.cancel': 'Annuler',
+  'common.nights.one': '{count} nuit',
+  'common.nights.other': '{count} nuits',
+  'common.pointsPerDollarRate': '{cents} ¢/pt',
+  'common.pointsEarned': 'Points gagnés',
+  'common.poorRedemption': '{cents} est inférieur à votre référence de {baseline}',
+  'common.taxJurisdiction': 'Taxes applicables : {name}',
+  'common.taxDefault': 'Aucune donnée fiscale pour {place} ; taux par défaut appliqués',
+  'common.taxNoLocation': 'Taux de taxe par défaut tant qu’aucun lieu n’est choisi',
+
+  'category.hotel': 'Séjour à l’hôtel',
+  'category.flight': 'Vols',
+  'category.carRental': 'Location de voiture',
+  'category.entertainment': 'Loisirs',
+  'category.rideShare': 'VTC',
+
+  'season.peak': 'Haute saison',
+  'season.shoulder': 'Moyenne saison',
+  'season.offPeak': 'Basse saison',
+  'season.regular': 'Saison normale',
+
+  'lineItemKind.base': 'Prix de base',
+  'lineItemKind.seasonal': 'Ajustements saisonniers',
+  'lineItemKind.discount': 'Remises',
+  'lineItemKind.fee': 'Frais et suppléments',
+  'lineItemKind.tax': 'Taxes',
+  'lineItemKind.points': 'Points utilisés',
+
+  'lineItem.hotel.roomRate.one': 'Tarif de la chambre ({count} nuit)',
+  'lineItem.hotel.roomRate.other': 'Tarif de la chambre ({count} nuits)',
+  'lineItem.hotel.roomType': 'Surclassement de chambre',
+  'lineItem.hotel.weekend': 'Nuits de week-end',
+  'lineItem.hotel.lengthOfStay': 'Réduction long séjour',
+  'lineItem.hotel.resortFee': 'Frais de complexe',
+  'lineItem.hotel.serviceFee': 'Frais de service',
+  'lineItem.hotel.amenityFee': 'Frais d’équipements',
+  'lineItem.hotel.destinationFee': 'Frais de destination',
+  'lineItem.hotel.extraPerson': 'Supplément personne supplémentaire',
+  'lineItem.hotel.valetParking': 'Voiturier',
+  'lineItem.hotel.selfParking': 'Parking libre-service',
+  'lineItem.flight.domesticFare': 'Tarif de base intérieur',
+  'lineItem.flight.internationalFare': 'Tarif de base international',
+  'lineItem.flight.peakSeason': 'Majoration haute saison',
+  'lineItem.flight.advancePurchase': 'Réduction achat anticipé',
+  'lineItem.flight.segmentFees': 'Frais par segment',
+  'lineItem.flight.securityFee': 'Frais de sûreté TSA',
+  'lineItem.flight.facilityCharges': 'Redevances passagers',
+  'lineItem.flight.carrierSurcharge': 'Surcharge transporteur',
+  'lineItem.flight.fuelSurcharge': 'Surcharge carburant',
+  'lineItem.flight.serviceFee': 'Frais de service',
+  'lineItem.flight.customsFees': 'Frais d’immigration et de douane',
+  'lineItem.flight.airportTax': 'Taxe d’aéroport',
+  'lineItem.flight.segmentTax': 'Taxe par segment',
+  'lineItem.flight.departureTax': '{name} ({airport})',
+  'lineItem.car.baseRental': 'Location de base',
+  'lineItem.car.lengthDiscount': 'Réduction de durée',
+  'lineItem.car.insurance': 'Assurance',
+  'lineItem.car.airportFee': 'Redevance de concession aéroportuaire',
+  'lineItem.car.licenseFee': 'Frais d’immatriculation',
+  'lineItem.car.facilityFee': 'Frais d’installation',
+  'lineItem.rideShare.rides.one': '{count} trajet',
+  'lineItem.rideShare.rides.other': '{count} trajets',
+  'lineItem.rideShare.surge': 'Majoration de pointe',
+  'lineItem.event': '{name} × {quantity}',
+  'lineItem.tax': '{name}',
+  'lineItem.points': 'Points Hilton Honors ({points} pts)',
+
+  'earningSource.base': 'Points de base',
+  'earningSource.eliteBonus': 'Bonus de statut',
+  'earningSource.lyft': 'Partenariat Lyft',
+  'earningSource.carRentalPartner': 'Loueurs partenaires',
+
+  'tier.member': 'Membre',
+  'tier.silver': 'Silver',
+  'tier.gold': 'Gold',
+  'tier.diamond': 'Diamond',
+  'tier.lifetimeDiamond': 'Diamond à vie',
+
+  'calculator.linkReset': 'Certaines valeurs du lien partagé étaient invalides et ont été réinitialisées : {issues}',
+  'calculator.linkError.corrupted': 'Le lien de voyage partagé est corrompu et n’a pas pu être lu.',
+  'calculator.linkError.noVersion': 'Le lien de voyage partagé n’a pas de version reconnaissable.',
+  'calculator.linkError.newerVersion': 'Le lien de voyage partagé a été créé par une version plus récente du calculateur.',
+
+  'wallet.title': 'Portefeuille de points Hilton Honors',
+  'wallet.optimize': 'Optimiser mes points',
+  'wallet.optimizing': 'Optimisation de mes points',
+  'wallet.balance': 'Solde de points',
+  'wallet.balancePlaceholder': 'Saisir des points (facultatif)',
+  'wallet.allocated': 'Attribués',
+  'wallet.unallocated': 'Non attribués',
+  'wallet.tier': 'Statut Elite',
+  'wallet.tierBonus': 'Bonus de {percent} sur les points de base',
+  'wallet.baseline': 'Valeur de référence du point (¢)',
+  'wallet.baselineHelp': 'Les utilisations qui rapportent moins par point sont signalées',
+  'wallet.optimizedHelp': 'Les points sont répartis automatiquement pour maximiser les économies. Désactivez l’optimisation pour choisir la répartition vous-même.',
+
+  'rates.title': 'Taux de change',
+  'rates.custom': 'Taux personnalisés · {date}',
+  'rates.default': 'Taux par défaut',
+  'rates.help': 'Les prix sont exprimés en {base} et convertis pour l’affichage. Les taux indiquent le nombre d’unités de chaque devise pour 1 {base}.',
+  'rates.import': 'Importer des taux',
+  'rates.importPlaceholder': '{"EUR": 0.92, "JPY": 150}\nou une paire « CODE,taux » par ligne',
+  'rates.importButton': 'Importer',
+  'rates.upload': 'Téléverser un JSON ou CSV',
+  'rates.reset': 'Rétablir les valeurs par défaut',
+  'rates.issue.empty': 'Rien à importer.',
+  'rates.issue.invalidJson': 'La table des taux n’est pas un JSON valide.',
+  'rates.issue.unsupported': 'Devise non prise en charge ignorée : « {currency} ».',
+  'rates.issue.baseCurrency': '{currency} est la devise de référence et reste à 1.',
+  'rates.issue.invalidRate': '{currency} ignorée : le taux doit être un nombre positif.',
+  'rates.issue.noRates': 'Aucun taux de change trouvé.',
+
+  'hotel.title': 'Choix de l’hôtel',
+  'hotel.brand': 'Marque Hilton',
+  'hotel.allBrands': 'Toutes les marques',
+  'hotel.property': 'Choisir un établissement',
+  'hotel.propertyPlaceholder': 'Sélectionnez un établissement',
+  'hotel.checkIn': 'Date d’arrivée',
+  'hotel.checkOut': 'Date de départ',
+  'hotel.rooms': 'Nombre de chambres',
+  'hotel.room.add': 'Ajouter une chambre',
+  'hotel.room.remove': 'Retirer la chambre',
+  'hotel.room.label': 'Chambre {number}',
+  'hotel.room.adults': 'Adultes',
+  'hotel.room.children': 'Enfants',
+  'hotel.room.maxOccupancy': 'Jusqu’à {count} personnes',
+  'hotel.room.overOccupancy': 'Cette chambre accueille au maximum {count} personnes. Changez de type de chambre ou répartissez les voyageurs.',
+  'hotel.room.extraPerson': 'Le tarif comprend {adults} adultes par chambre ; chaque adulte supplémentaire coûte {amount} par nuit.',
+  'hotel.room.type.king': 'King',
+  'hotel.room.type.doubleQueen': 'Deux lits Queen',
+  'hotel.room.type.executive': 'Exécutive',
+  'hotel.room.type.suite': 'Suite',
+  'hotel.visitWebsite': 'Voir le site de l’hôtel',
+  'hotel.baseRate': 'Tarif de base (par nuit) :',
+  'hotel.localRate': 'Tarif local ({currency}) :',
+  'hotel.seasonalAdjustment': 'Ajustement saisonnier :',
+  'hotel.roomTypeAdjustment': 'Supplément catégorie de chambre :',
+  'hotel.weekendNights.one': '{count} nuit de week-end :',
+  'hotel.weekendNights.other': '{count} nuits de week-end :',
+  'hotel.lengthDiscount': 'Remise {nights} nuits et plus :',
+  'hotel.resortFee': 'Frais de complexe :',
+  'hotel.serviceFee': 'Frais de service :',
+  'hotel.amenityFee': 'Frais d’équipements :',
+  'hotel.selfParking': 'Stationnement libre-service :',
+  'hotel.valetParking': 'Voiturier :',
+  'hotel.destinationFee': 'Frais de destination :',
+  'hotel.extraPerson': 'Supplément personne supplémentaire :',
+  'hotel.perRoomNight': '{amount} par chambre et par nuit',
+  'hotel.perNight': '{amount} par nuit',
+  'hotel.localTotal': '{amount} en devise locale',
+  'hotel.amenities': 'Équipements',
+  'hotel.calendar.title': 'Tarifs par nuit',
+  'hotel.calendar.previous': 'Mois précédent',
+  'hotel.calendar.next': 'Mois suivant',
+  'hotel.calendar.select': 'Arriver à cette date',
+  'hotel.calendar.legend': 'Une chambre par nuit, avant réductions, taxes et frais. Les nuits du vendredi et du samedi coûtent plus cher.',
+  'hotel.calendar.cheapest': 'Séjour de {nights} le moins cher ce mois-ci : arrivée le {date} ({amount})',
+  'hotel.rateType': 'Type de tarif',
+  'hotel.rateType.cash': 'Tarif en espèces',
+  'hotel.rateType.standardReward': 'Standard Room Reward',
+  'hotel.rateType.premiumReward': 'Premium Room Reward',
+  'hotel.pointsAndMoney': 'Compléter les points manquants avec Points & Money',
+  'hotel.parkCar': 'Je viens en voiture',
+  'hotel.noParking': 'Cet hôtel ne dispose pas de parking sur place.',
+  'hotel.award.nightly': 'Points par nuit :',
+  'hotel.award.fifthNightFree': 'Cinquième nuit offerte :',
+  'hotel.award.freeNights.one': '{count} nuit offerte par chambre',
+  'hotel.award.freeNights.other': '{count} nuits offertes par chambre',
+  'hotel.award.total': 'Total des points :',
+  'hotel.award.pointsAndMoney': '{points} points + espèces :',
+  'hotel.award.cashFees': 'Frais payés en espèces :',
+  'hotel.award.resortFeeWaived': 'Frais de resort offerts pour les séjours Récompense',
+  'hotel.award.shortfall': 'Il manque {points} points hôtel pour cette récompense : le séjour est calculé au tarif en espèces.',
+  'hotel.award.value': 'Valeur de la récompense :',
+  'hotel.award.pointsBetter': 'Les points sont plus avantageux à ces dates (référence {baseline})',
+  'hotel.award.cashBetter': 'Payer en espèces est plus avantageux à ces dates (référence {baseline})',
+
+  'flight.title': 'Choix du vol',
+  'flight.origin': 'Aéroport de départ',
+  'flight.destination': 'Aéroport d’arrivée',
+  'flight.selectAirport': 'Sélectionnez un aéroport',
+  'flight.departDate': 'Date de départ',
+  'flight.returnDate': 'Date de retour',
+  'flight.class': 'Classe',
+  'flight.passengers': 'Passagers',
+  'flight.tripType': 'Type de voyage',
+  'flight.roundTrip': 'Aller-retour',
+  'flight.oneWay': 'Aller simple',
+  'flight.multiCity': 'Multi-destinations / open-jaw',
+  'flight.flightType': 'Type de vol',
+  'flight.nonStop': 'Sans escale',
+  'flight.layover': 'Avec escales',
+  'flight.segment.title': 'Vols suivants',
+  'flight.segment.add': 'Ajouter un vol',
+  'flight.segment.remove': 'Supprimer le vol',
+  'flight.segment.label': 'Vol {number}',
+  'flight.segment.date': 'Date du vol',
+  'flight.segment.hint': 'Ajoutez chaque vol après le premier. Pour arriver dans une ville et repartir d’une autre, ajoutez le retour depuis la seconde ville.',
+  'flight.segment.domestic': 'National',
+  'flight.segment.international': 'International',
+  'flight.passenger.adult': 'Adultes (18–64 ans)',
+  'flight.passenger.senior': 'Seniors (65 ans et +)',
+  'flight.passenger.child': 'Enfants (2–17 ans)',
+  'flight.passenger.infantInSeat': 'Bébés avec siège (moins de 2 ans)',
+  'flight.passenger.infantInLap': 'Bébés sur les genoux (moins de 2 ans)',
+  'flight.passenger.fullFare': 'Plein tarif',
+  'flight.passenger.fareShare': '{percent} du tarif adulte',
+  'flight.passenger.issue.noAdult': 'Ajoutez au moins un adulte ou un senior.',
+  'flight.passenger.issue.lapInfants': 'Chaque bébé sur les genoux doit voyager avec un adulte ou un senior.',
+  'flight.passenger.issue.tooManySeats': 'Une réservation compte au plus {max} sièges ; les bébés sur les genoux n’en ont pas besoin.',
+  'flight.passenger.flowsTo': 'Les clients de l’hôtel et les billets d’activités suivent ces voyageurs.',
+  'flight.details': 'Détail du vol',
+  'flight.distance': 'Distance :',
+  'flight.duration': 'Durée de vol estimée :',
+  'flight.miles': '{miles} mi',
+  'flight.hoursMinutes': '{hours} h {minutes} min',
+  'flight.baseFare': 'Tarif de base :',
+  'flight.peakSeason': 'Supplément haute saison :',
+  'flight.advancePurchase': 'Remise réservation anticipée :',
+  'flexible.toggle': 'Dates flexibles (±{days} jours)',
+  'flexible.needsDates': 'Choisissez un séjour ou une date de vol pour chercher des dates proches.',
+  'flexible.stay': 'Séjour du {checkIn} au {checkOut}',
+  'flexible.departs': 'Départ le {date}',
+  'flexible.split': 'Hôtel {hotel} · Vol {flight}',
+  'flexible.current': 'Actuel',
+  'flexible.apply': 'Appliquer',
+  'flexible.footnote': 'Les dates d’hôtel et de vol sont décalées ensemble. Les autres frais du voyage ne dépendent pas des dates.',
+
+  'car.title': 'Location de voiture',
+  'car.company': 'Loueur',
+  'car.selectCompany': 'Sélectionnez un loueur',
+  'car.category': 'Catégorie de véhicule',
+  'car.selectCategory': 'Sélectionnez une catégorie',
+  'car.economy': 'Économique',
+  'car.midsize': 'Intermédiaire',
+  'car.luxury': 'Luxe',
+  'car.days': 'Jours de location',
+  'car.dailyRate': 'Tarif de base (par jour) :',
+  'car.lengthDiscount': 'Remise durée :',
+
+  'itinerary.title': 'Itinéraire multi-villes',
+  'itinerary.summary.one': '{count} étape',
+  'itinerary.summary.other': '{count} étapes',
+  'itinerary.add': 'Ajouter une étape',
+  'itinerary.stop': 'Étape {number}',
+  'itinerary.stopIn': 'Étape {number} : {city}',
+  'itinerary.remove': 'Retirer l’étape',
+  'itinerary.rentCar': 'Louer une voiture à cette étape',
+  'itinerary.issue.gap.one': '{count} nuit sans hôtel entre les étapes {from} et {to}',
+  'itinerary.issue.gap.other': '{count} nuits sans hôtel entre les étapes {from} et {to}',
+  'itinerary.issue.overlap.one': 'Les étapes {from} et {to} se chevauchent de {count} nuit',
+  'itinerary.issue.overlap.other': 'Les étapes {from} et {to} se chevauchent de {count} nuits',
+  'itinerary.issue.flightDate': 'Le vol vers l’étape {to} part avant le départ de l’étape {from} ou après l’arrivée à l’étape {to}',
+  'itinerary.issue.disconnected': 'Le vol vers l’étape {to} ne part pas de la ville d’arrivée de l’étape {from}',
+  'itinerary.moreStops.one': '+{count} autre étape',
+  'itinerary.moreStops.other': '+{count} autres étapes',
+
+  'entertainment.selectHotel': 'Sélectionnez un hôtel pour voir les activités disponibles à cet endroit.',
+  'entertainment.none': 'Aucune activité n’est disponible pour cet endroit pour le moment.',
+  'entertainment.title': 'Loisirs et activités à {city}',
+  'entertainment.location': 'à {location}',
+  'entertainment.perPerson': '{price}/personne',
+  'entertainment.pointsDiscount': 'Jusqu’à {percent} avec des points',
+  'entertainment.quantity': 'Quantité',
+
+  'rideShare.title': 'VTC',
+  'rideShare.service': 'Type de service',
+  'rideShare.miles': 'Miles estimés',
+  'rideShare.minutes': 'Minutes estimées',
+  'rideShare.numberOfRides': 'Nombre de trajets',
+  'rideShare.timeOfDay': 'Moment de la journée',
+  'rideShare.standard': 'Standard',
+  'rideShare.peak': 'Heures de pointe',
+  'rideShare.event': 'Événement spécial',
+  'rideShare.suggestion': '{airport} → {property} : environ {miles} mi et {minutes} min, {rides}',
+  'rideShare.applySuggestion': 'Utiliser l’estimation',
+  'rideShare.rides.one': '{count} trajet',
+  'rideShare.rides.other': '{count} trajets',
+  'rideShare.forRides.one': 'Pour {count} trajet',
+  'rideShare.forRides.other': 'Pour {count} trajets',
+  'rideShare.lyftEarning': 'Points Hilton Honors grâce au partenariat Lyft',
+
+  'summary.title': 'Récapitulatif du coût du voyage',
+  'summary.cashPrice': 'Prix en espèces :',
+  'summary.pointsSavings': 'Économies en points :',
+  'summary.original': 'Montant d’origine :',
+  'summary.pointsRedeemed': 'Points utilisés :',
+  'summary.pointsEarned': 'Points gagnés :',
+  'summary.showBreakdown': 'Afficher le détail',
+  'summary.hideBreakdown': 'Masquer le détail',
+  'summary.showTripBreakdown': 'Afficher le détail du voyage',
+  'summary.hideTripBreakdown': 'Masquer le détail du voyage',
+  'summary.totalCash': 'Prix total en espèces',
+  'summary.totalPointsValue': 'Valeur totale des points',
+  'summary.finalCost': 'Coût final',
+  'summary.walletBalance': 'Solde de points',
+  'summary.walletRedeemed': 'Points utilisés',
+  'summary.walletLeftOver': 'Points restants',
+  'summary.walletEarned': 'Points gagnés',
+  'summary.redeemedLedger': 'Points utilisés',
+  'summary.earnedLedger': 'Points que vous gagnerez',
+  'summary.noneRedeemed': 'Aucun point utilisé pour ce voyage',
+  'summary.noneEarned': 'Aucun point gagné pour l’instant',
+  'summary.ledgerTotal': 'Total',
+  'summary.balanceAfterTrip': 'Solde après le voyage',
+  'summary.valuePerPoint': 'Valeur par point',
+  'summary.poorRedemptions.one': '{count} utilisation rapporte moins que votre référence de {baseline}',
+  'summary.poorRedemptions.other': '{count} utilisations rapportent moins que votre référence de {baseline}',
+  'summary.goodRedemptions': 'Toutes les utilisations atteignent votre référence de {baseline}',
+  'summary.optimizedSplit': 'Répartition optimisée : {amount} économisés',
+  'summary.optimizer.firstCapped': '{category} à {rate} (meilleur taux, servi en premier) : {points} pts atteignent le plafond de {amount}.',
+  'summary.optimizer.firstPartial': '{category} à {rate} (meilleur taux, servi en premier) : les {points} derniers pts couvrent {amount}.',
+  'summary.optimizer.nextCapped': '{category} à {rate} (taux suivant) : {points} pts atteignent le plafond de {amount}.',
+  'summary.optimizer.nextPartial': '{category} à {rate} (taux suivant) : les {points} derniers pts couvrent {amount}.',
+  'summary.optimizer.exhausted': '{category} à {rate} : plus rien, le solde est allé à de meilleures utilisations.',
+  'summary.optimizer.leftover': '{points} pts restants : toutes les catégories ont atteint leur plafond de points.',
+  'summary.footnoteRates': '* La valeur des points est calculée d’après les taux d’échange Hilton Honors actuels',
+  'summary.footnoteEntertainment': '* Les remises sur les loisirs varient selon le lieu et le type d’événement',
+  'summary.footnoteConversion': '* Prix exprimés en {base} et convertis au taux de 1 {base} = {rate} {currency}',
+
+  'breakdown.empty': 'Rien n’est encore chiffré.',
+  'breakdown.netTotal': 'Total net',
+
+  'share.copy': 'Copier le lien du devis',
+  'share.copied': 'Lien copié',
+  'share.prompt': 'Copiez ce lien pour partager le devis :',
+
+  'saved.title': 'Voyages enregistrés',
+  'saved.namePlaceholder': 'Nommer ce voyage',
+  'saved.save': 'Enregistrer le voyage actuel',
+  'saved.empty': 'Aucun voyage enregistré. Préparez un devis et enregistrez-le ici pour le retrouver plus tard.',
+  'saved.saveName': 'Enregistrer le nom',
+  'saved.overwrite': 'Remplacer par le voyage actuel',
+  'saved.rename': 'Renommer',
+  'saved.duplicate': 'Dupliquer',
+  'saved.delete': 'Supprimer',
+  'saved.confirmDelete': 'Supprimer « {name} » ?',
+  'saved.noDates': 'Aucune date',
+  'saved.untitled': 'Voyage sans titre',
+  'saved.copyName': '{name} (copie)',
+
+  'compare.title': 'Comparer des scénarios',
+  'compare.add': 'Ajouter le voyage actuel',
+  'compare.help': 'Ajoutez de {min} à {max} voyages pour les comparer côte à côte. Chargez un scénario pour le modifier dans le calculateur, puis mettez-le à jour pour enregistrer vos changements.',
+  'compare.optionName': 'Option {letter}',
+  'compare.noHotel': 'Aucun hôtel',
+  'compare.category': 'Catégorie',
+  'compare.load': 'Charger dans le calculateur',
+  'compare.update': 'Mettre à jour depuis le voyage actuel',
+  'compare.remove': 'Retirer',
+  'compare.net': 'Net {amount}',
+  'compare.netDelta': '{delta} net',
+  'compare.totalCash': 'Total en espèces',
+  'compare.netAfterPoints': 'Net après points',
+  'compare.footnote': 'Les écarts sont calculés par rapport au premier scénario. L’option la moins chère en espèces et en coût net après points est mise en évidence.',
+
+  'diamond.title': 'Valeur des avantages Hilton Honors',
+  'diamond.daily': 'Avantages quotidiens',
+  'diamond.breakfast': 'Petit-déjeuner ({guests} personnes)',
+  'diamond.foodCredit': 'Crédit restauration ({guests} personnes)',
+  'diamond.wifi': 'Wi-Fi premium',
+  'diamond.water': 'Eau en bouteille',
+  'diamond.lounge': 'Salon exécutif',
+  'diamond.dailyTotal': 'Total quotidien',
+  'diamond.stay': 'Avantages du séjour',
+  'diamond.upgrade': 'Surclassement',
+  'diamond.lateCheckout': 'Départ tardif',
+  'diamond.earlyCheckin': 'Arrivée anticipée',
+  'diamond.status': 'Statut Elite',
+  'diamond.stayTotal': 'Total du séjour',
+  'diamond.points': 'Avantages en points',
+  'diamond.basePoints': 'Valeur des points de base',
+  'diamond.bonusPoints': 'Points bonus ({percent})',
+  'diamond.pointsTotal': 'Total des points',
+  'diamond.notIncluded': 'Non inclus à ce statut',
+  'diamond.total': 'Valeur totale des avantages',
+  'diamond.totalHelp': 'Valeur cumulée de vos avantages {tier}',
+  'diamond.footnoteEstimates': '* La valeur des avantages est estimée d’après les prix moyens du marché et peut varier selon le lieu',
+  'diamond.footnoteAvailability': '* Les surclassements et l’accès au salon sont soumis à disponibilité',
+
+  'status.title': 'Qualification au statut Elite',
+  'status.year': 'Année de qualification',
+  'status.addCurrent': 'Ajouter ce voyage aux séjours prévus',
+  'status.completed': 'Effectués',
+  'status.planned': 'Prévus',
+  'status.projected': 'Prévision sur l’année',
+  'status.includesCurrent': 'Inclut le voyage en cours de calcul ({nights})',
+  'status.stays.one': '{count} séjour',
+  'status.stays.other': '{count} séjours',
+  'status.basePointsValue': '{points} points de base',
+  'status.moreNights.one': 'Encore {count} nuit pour le statut {tier}',
+  'status.moreNights.other': 'Encore {count} nuits pour le statut {tier}',
+  'status.topTier': 'Vos séjours atteignent Diamond, le statut le plus élevé',
+  'status.qualifies': 'En bonne voie pour {tier}',
+  'status.nightsOf': '{nights} / {required} nuits',
+  'status.met': 'Atteint',
+  'status.remaining': 'Encore {nights} nuits, {stays} séjours ou {points} points de base',
+  'status.legend': 'Les barres foncées sont les nuits effectuées ; les barres claires ajoutent les séjours prévus.',
+  'status.history': 'Séjours enregistrés',
+  'status.empty': 'Aucun séjour enregistré. Ajoutez vos séjours passés ci-dessous pour suivre votre progression.',
+  'status.completedStay': 'Effectué',
+  'status.plannedStay': 'Prévu',
+  'status.markCompleted': 'Marquer comme effectué',
+  'status.delete': 'Supprimer le séjour',
+  'status.hotel': 'Hôtel',
+  'status.hotelPlaceholder': 'Nom de l’hôtel',
+  'status.basePoints': 'Points de base',
+  'status.add': 'Ajouter le séjour',
+  'status.defaultName': 'Séjour Hilton',
+
+  'sources.title': 'Sources des prix',
+  'sources.hotel': 'Tarifs et disponibilités des hôtels',
+  'sources.flights': 'Vols',
+  'sources.carRentals': 'Location de voitures',
+  'sources.rideShare': 'VTC',
+  'sources.loyalty': 'Programmes de fidélité et points',
+  'sources.footnote': 'Les prix sont mis à jour en temps réel via les API officielles et nos partenariats. Les estimations VTC incluent les avantages du partenariat Lyft et les points Hilton Honors à gagner.'
+};
@@ -0,0 +1,436 @@
+import { Messages } from './en';
+
+export const ja: Messages = {
+  'app.title': 'ヒルトン・オナーズ 旅行＆節約プランナー',
+  'app.language': '言語',
+  'app.displayCurrency': '表示通貨',
+
+  'common.totalCost': '合計金額',
+  'common.pointsValue': 'ポイント換算額',
+  'common.pointsSavings': 'ポイントによる割引',
+  'common.finalCost': 'お支払い額',
+  'common.allTaxesIncluded': '税金・手数料込み',
+  'common.afterPointsSavings': 'ポイント利用後',
+  'common.usingPoints': 'ヒルトン・ポイント {points} pt を利用',
+  'common.rateDetails': '料金の内訳',
+  'common.feesAndSurcharges': '手数料・追加料金：',
+  'common.taxes': '税金：',
+  'common.dismiss': '閉じる',
+  'common.cancel': 'キャンセル',
+  'common.nights.one': '{count}泊',
+  'common.nights.other': '{count}泊',
+  'common.pointsPerDollarRate': '{cents}¢/pt',
+  'common.pointsEarned': '獲得ポイント',
+  'common.poorRedemption': '{cents}は基準値 {baseline} を下回っています',
+  'common.taxJurisdiction': '{name}の税率を適用',
+  'common.taxDefault': '{place}の税データがないため、標準税率を適用しています',
+  'common.taxNoLocation': '場所を選択するまで標準税率が適用されます',
+
+  'category.hotel': 'ホテル宿泊',
+  'category.flight': '航空券',
+  'category.carRental': 'レンタカー',
+  'category.entertainment': 'エンターテインメント',
+  'category.rideShare': '配車サービス',
+
+  'season.peak': '繁忙期',
+  'season.shoulder': '準繁忙期',
+  'season.offPeak': '閑散期',
+  'season.regular': '通常期',
+
+  'lineItemKind.base': '基本料金',
+  'lineItemKind.seasonal': '季節調整',
+  'lineItemKind.discount': '割引',
+  'lineItemKind.fee': '手数料・追加料金',
+  'lineItemKind.tax': '税金',
+  'lineItemKind.points': '利用ポイント',
+
+  'lineItem.hotel.roomRate.one': '客室料金（{count}泊）',
+  'lineItem.hotel.roomRate.other': '客室料金（{count}泊）',
+  'lineItem.hotel.roomType': '客室タイプのアップグレード',
+  'lineItem.hotel.weekend': '週末の宿泊',
+  'lineItem.hotel.lengthOfStay': '連泊割引',
+  'lineItem.hotel.resortFee': 'リゾート料金',
+  'lineItem.hotel.serviceFee': 'サービス料',
+  'lineItem.hotel.amenityFee': 'アメニティ料金',
+  'lineItem.hotel.destinationFee': 'デスティネーション料金',
+  'lineItem.hotel.extraPerson': '追加人数料金',
+  'lineItem.hotel.valetParking': 'バレーパーキング',
+  'lineItem.hotel.selfParking': 'セルフパーキング',
+  'lineItem.flight.domesticFare': '国内線基本運賃',
+  'lineItem.flight.internationalFare': '国際線基本運賃',
+  'lineItem.flight.peakSeason': '繁忙期加算',
+  'lineItem.flight.advancePurchase': '早期購入割引',
+  'lineItem.flight.segmentFees': '区間料金',
+  'lineItem.flight.securityFee': 'TSA保安料',
+  'lineItem.flight.facilityCharges': '旅客施設使用料',
+  'lineItem.flight.carrierSurcharge': '航空会社サーチャージ',
+  'lineItem.flight.fuelSurcharge': '燃油サーチャージ',
+  'lineItem.flight.serviceFee': 'サービス料',
+  'lineItem.flight.customsFees': '出入国・税関手数料',
+  'lineItem.flight.airportTax': '空港税',
+  'lineItem.flight.segmentTax': '区間税',
+  'lineItem.flight.departureTax': '{name}（{airport}）',
+  'lineItem.car.baseRental': '基本レンタル料金',
+  'lineItem.car.lengthDiscount': '期間割引',
+  'lineItem.car.insurance': '保険',
+  'lineItem.car.airportFee': '空港営業料',
+  'lineItem.car.licenseFee': '車両登録料',
+  'lineItem.car.facilityFee': '施設使用料',
+  'lineItem.rideShare.rides.one': '{count}回の乗車',
+  'lineItem.rideShare.rides.other': '{count}回の乗車',
+  'lineItem.rideShare.surge': 'ピーク料金',
+  'lineItem.event': '{name} × {quantity}',
+  'lineItem.tax': '{name}',
+  'lineItem.points': 'ヒルトン・オナーズ ポイント（{points} pt）',
+
+  'earningSource.base': 'ベースポイント',
+  'earningSource.eliteBonus': 'エリートボーナス',
+  'earningSource.lyft': 'Lyft 提携',
+  'earningSource.carRentalPartner': 'レンタカー提携',
+
+  'tier.member': 'メンバー',
+  'tier.silver': 'シルバー',
+  'tier.gold': 'ゴールド',
+  'tier.diamond': 'ダイヤモンド',
+  'tier.lifetimeDiamond': 'ライフタイムダイヤモンド',
+
+  'calculator.linkReset': '共有リンクの一部の値が無効だったため、リセットしました：{issues}',
+  'calculator.linkError.corrupted': '共有された旅行リンクが壊れているため、読み込めませんでした。',
+  'calculator.linkError.noVersion': '共有された旅行リンクのバージョンを認識できません。',
+  'calculator.linkError.newerVersion': '共有された旅行リンクは、より新しいバージョンの計算ツールで作成されています。',
+
+  'wallet.title': 'ヒルトン・オナーズ ポイントウォレット',
+  'wallet.optimize': 'ポイントを最適化',
+  'wallet.optimizing': 'ポイント最適化中',
+  'wallet.balance': 'ポイント残高',
+  'wallet.balancePlaceholder': 'ポイント数を入力（任意）',
+  'wallet.allocated': '割り当て済み',
+  'wallet.unallocated': '未割り当て',
+  'wallet.tier': 'エリートステータス',
+  'wallet.tierBonus': 'ベースポイントに {percent} のボーナス',
+  'wallet.baseline': '1ポイントの基準価値（¢）',
+  'wallet.baselineHelp': 'これを下回る交換には警告を表示します',
+  'wallet.optimizedHelp': '割引額が最大になるようにポイントを自動で配分します。手動で配分する場合は最適化をオフにしてください。',
+
+  'rates.title': '為替レート',
+  'rates.custom': 'カスタムレート・{date}',
+  'rates.default': '標準レート',
+  'rates.help': '価格は{base}建てで、表示用に換算されます。レートは1 {base}あたりの各通貨の単位数です。',
+  'rates.import': 'レートを取り込む',
+  'rates.importPlaceholder': '{"EUR": 0.92, "JPY": 150}\nまたは1行に「通貨コード,レート」を1組',
+  'rates.importButton': '取り込む',
+  'rates.upload': 'JSON または CSV をアップロード',
+  'rates.reset': '標準に戻す',
+  'rates.issue.empty': 'インポートする内容がありません。',
+  'rates.issue.invalidJson': 'レート表が有効なJSONではありません。',
+  'rates.issue.unsupported': '対応していない通貨「{currency}」をスキップしました。',
+  'rates.issue.baseCurrency': '{currency}は基準通貨のため、1のままです。',
+  'rates.issue.invalidRate': '{currency}をスキップしました：レートは正の数である必要があります。',
+  'rates.issue.noRates': '為替レートが見つかりませんでした。',
+
+  'hotel.title': 'ホテルの選択',
+  'hotel.brand': 'ヒルトンのブランド',
+  'hotel.allBrands': 'すべてのブランド',
+  'hotel.property': 'ホテルを選択',
+  'hotel.propertyPlaceholder': 'ホテルを選択してください',
+  'hotel.checkIn': 'チェックイン日',
+  'hotel.checkOut': 'チェックアウト日',
+  'hotel.rooms': '客室数',
+  'hotel.room.add': '客室を追加',
+  'hotel.room.remove': '客室を削除',
+  'hotel.room.label': '客室 {number}',
+  'hotel.room.adults': '大人',
+  'hotel.room.children': '子供',
+  'hotel.room.maxOccupancy': '最大 {count} 名',
+  'hotel.room.overOccupancy': 'この客室の定員は {count} 名です。客室タイプを変更するか、別の客室に分けてください。',
+  'hotel.room.extraPerson': '料金には1室あたり大人 {adults} 名が含まれます。追加の大人1名につき1泊 {amount} かかります。',
+  'hotel.room.type.king': 'キング',
+  'hotel.room.type.doubleQueen': 'クイーン2台',
+  'hotel.room.type.executive': 'エグゼクティブ',
+  'hotel.room.type.suite': 'スイート',
+  'hotel.visitWebsite': 'ホテルのウェブサイトへ',
+  'hotel.baseRate': '基本料金（1泊）：',
+  'hotel.localRate': '現地料金（{currency}）：',
+  'hotel.seasonalAdjustment': '季節調整：',
+  'hotel.roomTypeAdjustment': '客室タイプ追加料金：',
+  'hotel.weekendNights.one': '週末{count}泊：',
+  'hotel.weekendNights.other': '週末{count}泊：',
+  'hotel.lengthDiscount': '{nights}泊以上の割引：',
+  'hotel.resortFee': 'リゾート料金：',
+  'hotel.serviceFee': 'サービス料：',
+  'hotel.amenityFee': 'アメニティ料金：',
+  'hotel.selfParking': 'セルフパーキング：',
+  'hotel.valetParking': 'バレーパーキング：',
+  'hotel.destinationFee': 'デスティネーション料金：',
+  'hotel.extraPerson': '追加人数料金：',
+  'hotel.perRoomNight': '1室1泊あたり {amount}',
+  'hotel.perNight': '1泊あたり {amount}',
+  'hotel.localTotal': '現地通貨で {amount}',
+  'hotel.amenities': '設備・サービス',
+  'hotel.calendar.title': '1泊ごとの料金',
+  'hotel.calendar.previous': '前の月',
+  'hotel.calendar.next': '次の月',
+  'hotel.calendar.select': 'この日にチェックイン',
+  'hotel.calendar.legend': '1室1泊あたり、割引・税金・手数料を除く料金です。金曜・土曜の夜は高くなります。',
+  'hotel.calendar.cheapest': '今月最安の{nights}：{date}チェックイン（{amount}）',
+  'hotel.rateType': '料金タイプ',
+  'hotel.rateType.cash': '現金料金',
+  'hotel.rateType.standardReward': 'スタンダード・ルーム特典',
+  'hotel.rateType.premiumReward': 'プレミアム・ルーム特典',
+  'hotel.pointsAndMoney': '不足ポイントをポイント＆マネーで支払う',
+  'hotel.parkCar': '車で行く',
+  'hotel.noParking': 'このホテルには敷地内駐車場がありません。',
+  'hotel.award.nightly': '1泊あたりのポイント：',
+  'hotel.award.fifthNightFree': '5泊目無料：',
+  'hotel.award.freeNights.one': '1室あたり{count}泊無料',
+  'hotel.award.freeNights.other': '1室あたり{count}泊無料',
+  'hotel.award.total': '合計ポイント：',
+  'hotel.award.pointsAndMoney': '{points}ポイント＋現金：',
+  'hotel.award.cashFees': '現金で支払う料金：',
+  'hotel.award.resortFeeWaived': '特典宿泊ではリゾート料金が免除されます',
+  'hotel.award.shortfall': 'この特典にはホテル用ポイントが{points}不足しているため、現金料金で計算しています。',
+  'hotel.award.value': '特典の価値：',
+  'hotel.award.pointsBetter': 'この日程ではポイント利用がお得です（基準 {baseline}）',
+  'hotel.award.cashBetter': 'この日程では現金払いがお得です（基準 {baseline}）',
+
+  'flight.title': '航空券の選択',
+  'flight.origin': '出発空港',
+  'flight.destination': '到着空港',
+  'flight.selectAirport': '空港を選択',
+  'flight.departDate': '出発日',
+  'flight.returnDate': '復路の日付',
+  'flight.class': 'クラス',
+  'flight.passengers': '搭乗者数',
+  'flight.tripType': '旅程',
+  'flight.roundTrip': '往復',
+  'flight.oneWay': '片道',
+  'flight.multiCity': '周遊 / オープンジョー',
+  'flight.flightType': '便の種類',
+  'flight.nonStop': '直行便',
+  'flight.layover': '乗り継ぎ便を含む',
+  'flight.segment.title': '以降のフライト',
+  'flight.segment.add': 'フライトを追加',
+  'flight.segment.remove': 'フライトを削除',
+  'flight.segment.label': 'フライト {number}',
+  'flight.segment.date': '搭乗日',
+  'flight.segment.hint': '最初の便以降のフライトをすべて追加してください。到着都市と出発都市が異なる場合は、2つ目の都市からの復路を追加します。',
+  'flight.segment.domestic': '国内線',
+  'flight.segment.international': '国際線',
+  'flight.passenger.adult': '大人（18〜64歳）',
+  'flight.passenger.senior': 'シニア（65歳以上）',
+  'flight.passenger.child': '子ども（2〜17歳）',
+  'flight.passenger.infantInSeat': '座席を使用する幼児（2歳未満）',
+  'flight.passenger.infantInLap': '膝上の幼児（2歳未満）',
+  'flight.passenger.fullFare': '大人運賃',
+  'flight.passenger.fareShare': '大人運賃の{percent}',
+  'flight.passenger.issue.noAdult': '大人またはシニアを1人以上追加してください。',
+  'flight.passenger.issue.lapInfants': '膝上の幼児1人につき、大人またはシニア1人が必要です。',
+  'flight.passenger.issue.tooManySeats': '1件の予約で利用できる座席は最大{max}席です（膝上の幼児は座席不要）。',
+  'flight.passenger.flowsTo': 'ホテルの宿泊人数とイベントのチケット枚数はこの旅行者数に連動します。',
+  'flight.details': 'フライトの内訳',
+  'flight.distance': '距離：',
+  'flight.duration': '推定飛行時間：',
+  'flight.miles': '{miles}マイル',
+  'flight.hoursMinutes': '{hours}時間{minutes}分',
+  'flight.baseFare': '基本運賃：',
+  'flight.peakSeason': '繁忙期加算：',
+  'flight.advancePurchase': '早期購入割引：',
+  'flexible.toggle': '日程を柔軟に（±{days}日）',
+  'flexible.needsDates': '近い日程を検索するには、宿泊日またはフライト日を選択してください。',
+  'flexible.stay': '宿泊 {checkIn}〜{checkOut}',
+  'flexible.departs': '出発 {date}',
+  'flexible.split': 'ホテル {hotel}・フライト {flight}',
+  'flexible.current': '現在',
+  'flexible.apply': '適用',
+  'flexible.footnote': 'ホテルとフライトの日程は一緒にずらします。その他の費用は日程に左右されません。',
+
+  'car.title': 'レンタカー',
+  'car.company': 'レンタカー会社',
+  'car.selectCompany': '会社を選択',
+  'car.category': '車種クラス',
+  'car.selectCategory': 'クラスを選択',
+  'car.economy': 'エコノミー',
+  'car.midsize': 'ミッドサイズ',
+  'car.luxury': 'ラグジュアリー',
+  'car.days': 'レンタル日数',
+  'car.dailyRate': '基本料金（1日）：',
+  'car.lengthDiscount': '長期割引：',
+
+  'itinerary.title': '周遊旅程',
+  'itinerary.summary.one': '{count} か所',
+  'itinerary.summary.other': '{count} か所',
+  'itinerary.add': '立ち寄り先を追加',
+  'itinerary.stop': '立ち寄り先 {number}',
+  'itinerary.stopIn': '立ち寄り先 {number}：{city}',
+  'itinerary.remove': '立ち寄り先を削除',
+  'itinerary.rentCar': 'この立ち寄り先でレンタカーを借りる',
+  'itinerary.issue.gap.one': '立ち寄り先 {from} と {to} の間にホテルのない夜が {count} 泊あります',
+  'itinerary.issue.gap.other': '立ち寄り先 {from} と {to} の間にホテルのない夜が {count} 泊あります',
+  'itinerary.issue.overlap.one': '立ち寄り先 {from} と {to} が {count} 泊重複しています',
+  'itinerary.issue.overlap.other': '立ち寄り先 {from} と {to} が {count} 泊重複しています',
+  'itinerary.issue.flightDate': '立ち寄り先 {to} へのフライトが、{from} のチェックアウト前か {to} のチェックイン後に出発します',
+  'itinerary.issue.disconnected': '立ち寄り先 {to} へのフライトが、{from} の到着都市から出発していません',
+  'itinerary.moreStops.one': 'ほか {count} か所',
+  'itinerary.moreStops.other': 'ほか {count} か所',
+
+  'entertainment.selectHotel': 'ホテルを選択すると、その地域で利用できるエンターテインメントが表示されます。',
+  'entertainment.none': 'この地域で現在利用できるエンターテインメントはありません。',
+  'entertainment.title': '{city}のエンターテインメント＆アクティビティ',
+  'entertainment.location': '会場：{location}',
+  'entertainment.perPerson': '{price}/人',
+  'entertainment.pointsDiscount': 'ポイントで最大{percent}割引',
+  'entertainment.quantity': '数量',
+
+  'rideShare.title': '配車サービス',
+  'rideShare.service': 'サービス',
+  'rideShare.miles': '推定距離（マイル）',
+  'rideShare.minutes': '推定時間（分）',
+  'rideShare.numberOfRides': '乗車回数',
+  'rideShare.timeOfDay': '時間帯',
+  'rideShare.standard': '通常',
+  'rideShare.peak': 'ピーク時',
+  'rideShare.event': '特別イベント',
+  'rideShare.suggestion': '{airport} から {property} まで：約 {miles} マイル・{minutes} 分、{rides}',
+  'rideShare.applySuggestion': 'この見積もりを使う',
+  'rideShare.rides.one': '{count} 回',
+  'rideShare.rides.other': '{count} 回',
+  'rideShare.forRides.one': '{count} 回分',
+  'rideShare.forRides.other': '{count} 回分',
+  'rideShare.lyftEarning': 'Lyft 提携による Hilton Honors ポイント',
+
+  'summary.title': '旅行費用の概要',
+  'summary.cashPrice': '現金価格：',
+  'summary.pointsSavings': 'ポイント割引：',
+  'summary.original': '元の金額：',
+  'summary.pointsRedeemed': '利用ポイント：',
+  'summary.pointsEarned': '獲得ポイント：',
+  'summary.showBreakdown': '内訳を表示',
+  'summary.hideBreakdown': '内訳を隠す',
+  'summary.showTripBreakdown': '旅行全体の内訳を表示',
+  'summary.hideTripBreakdown': '旅行全体の内訳を隠す',
+  'summary.totalCash': '現金価格の合計',
+  'summary.totalPointsValue': 'ポイント換算額の合計',
+  'summary.finalCost': 'お支払い額',
+  'summary.walletBalance': 'ポイント残高',
+  'summary.walletRedeemed': '利用ポイント',
+  'summary.walletLeftOver': '残りポイント',
+  'summary.walletEarned': '獲得ポイント',
+  'summary.redeemedLedger': '利用ポイント',
+  'summary.earnedLedger': '獲得予定ポイント',
+  'summary.noneRedeemed': 'この旅行ではポイントを利用しません',
+  'summary.noneEarned': '獲得ポイントはまだありません',
+  'summary.ledgerTotal': '合計',
+  'summary.balanceAfterTrip': '旅行後の残高',
+  'summary.valuePerPoint': '1ポイントあたりの価値',
+  'summary.poorRedemptions.one': '{count}件の交換が基準値 {baseline} を下回っています',
+  'summary.poorRedemptions.other': '{count}件の交換が基準値 {baseline} を下回っています',
+  'summary.goodRedemptions': 'すべての交換が基準値 {baseline} を満たしています',
+  'summary.optimizedSplit': '最適化されたポイント配分：{amount} お得',
+  'summary.optimizer.firstCapped': '{category}（{rate}、最も高いレートのため最初に充当）：{points} ptで上限の{amount}に達します。',
+  'summary.optimizer.firstPartial': '{category}（{rate}、最も高いレートのため最初に充当）：残りの{points} ptで{amount}をカバーします。',
+  'summary.optimizer.nextCapped': '{category}（{rate}、次に高いレート）：{points} ptで上限の{amount}に達します。',
+  'summary.optimizer.nextPartial': '{category}（{rate}、次に高いレート）：残りの{points} ptで{amount}をカバーします。',
+  'summary.optimizer.exhausted': '{category}（{rate}）：残高はより有利な交換に使われたため、ポイントは残っていません。',
+  'summary.optimizer.leftover': '{points} ptが余ります：すべてのカテゴリーがポイント上限に達しています。',
+  'summary.footnoteRates': '※ ポイントの価値は現在のヒルトン・オナーズの交換レートに基づいて計算しています',
+  'summary.footnoteEntertainment': '※ エンターテインメントの割引は会場やイベントの種類によって異なります',
+  'summary.footnoteConversion': '※ 価格は{base}建てで、1 {base} = {rate} {currency} で換算しています',
+
+  'breakdown.empty': 'まだ料金が計算されていません。',
+  'breakdown.netTotal': '差引合計',
+
+  'share.copy': '見積もりリンクをコピー',
+  'share.copied': 'コピーしました',
+  'share.prompt': 'このリンクをコピーして見積もりを共有してください：',
+
+  'saved.title': '保存した旅行',
+  'saved.namePlaceholder': '旅行の名前',
+  'saved.save': '現在の旅行を保存',
+  'saved.empty': '保存した旅行はまだありません。見積もりを作成してここに保存すると、後で呼び出せます。',
+  'saved.saveName': '名前を保存',
+  'saved.overwrite': '現在の旅行で上書き',
+  'saved.rename': '名前を変更',
+  'saved.duplicate': '複製',
+  'saved.delete': '削除',
+  'saved.confirmDelete': '「{name}」を削除しますか？',
+  'saved.noDates': '日付未設定',
+  'saved.untitled': '無題の旅行',
+  'saved.copyName': '{name}（コピー）',
+
+  'compare.title': 'シナリオの比較',
+  'compare.add': '現在の旅行を追加',
+  'compare.help': '{min}〜{max}件の旅行を追加すると並べて比較できます。シナリオを読み込んで計算機で編集し、更新ボタンで変更を反映してください。',
+  'compare.optionName': 'プラン {letter}',
+  'compare.noHotel': 'ホテルなし',
+  'compare.category': 'カテゴリー',
+  'compare.load': '計算機に読み込む',
+  'compare.update': '現在の旅行で更新',
+  'compare.remove': '削除',
+  'compare.net': '差引 {amount}',
+  'compare.netDelta': '差引 {delta}',
+  'compare.totalCash': '現金合計',
+  'compare.netAfterPoints': 'ポイント利用後',
+  'compare.footnote': '差額は最初のシナリオとの比較です。現金価格とポイント利用後の金額それぞれで最も安いプランを強調表示しています。',
+
+  'diamond.title': 'ヒルトン・オナーズ特典の価値',
+  'diamond.daily': '毎日の特典',
+  'diamond.breakfast': '朝食（{guests}名）',
+  'diamond.foodCredit': '飲食クレジット（{guests}名）',
+  'diamond.wifi': 'プレミアム Wi-Fi',
+  'diamond.water': 'ミネラルウォーター',
+  'diamond.lounge': 'エグゼクティブラウンジ',
+  'diamond.dailyTotal': '1日あたりの合計',
+  'diamond.stay': '滞在ごとの特典',
+  'diamond.upgrade': '客室アップグレード',
+  'diamond.lateCheckout': 'レイトチェックアウト',
+  'diamond.earlyCheckin': 'アーリーチェックイン',
+  'diamond.status': 'エリートステータス',
+  'diamond.stayTotal': '滞在の合計',
+  'diamond.points': 'ポイント特典',
+  'diamond.basePoints': 'ベースポイントの価値',
+  'diamond.bonusPoints': 'ボーナスポイント（{percent}）',
+  'diamond.pointsTotal': 'ポイントの合計',
+  'diamond.notIncluded': 'このステータスには含まれません',
+  'diamond.total': '特典の総額',
+  'diamond.totalHelp': '{tier}特典すべての合計額',
+  'diamond.footnoteEstimates': '※ 特典の価値は平均的な市場価格に基づく概算で、地域によって異なる場合があります',
+  'diamond.footnoteAvailability': '※ アップグレードとラウンジの利用は空き状況によります',
+
+  'status.title': 'エリートステータス達成状況',
+  'status.year': '対象年',
+  'status.addCurrent': 'この旅行を予定の滞在に追加',
+  'status.completed': '完了',
+  'status.planned': '予定',
+  'status.projected': '年間見込み',
+  'status.includesCurrent': '計算中の旅行を含みます（{nights}）',
+  'status.stays.one': '{count} 滞在',
+  'status.stays.other': '{count} 滞在',
+  'status.basePointsValue': 'ベースポイント {points}',
+  'status.moreNights.one': '{tier}まであと {count} 泊',
+  'status.moreNights.other': '{tier}まであと {count} 泊',
+  'status.topTier': '最上位のダイヤモンドに到達しています',
+  'status.qualifies': '{tier}達成の見込み',
+  'status.nightsOf': '{nights} / {required} 泊',
+  'status.met': '達成',
+  'status.remaining': 'あと {nights} 泊、{stays} 滞在、またはベースポイント {points}',
+  'status.legend': '濃いバーは完了した宿泊、薄いバーは予定の滞在を加えた数です。',
+  'status.history': '記録した滞在',
+  'status.empty': 'まだ滞在が記録されていません。下のフォームから過去の滞在を追加してください。',
+  'status.completedStay': '完了',
+  'status.plannedStay': '予定',
+  'status.markCompleted': '完了にする',
+  'status.delete': '滞在を削除',
+  'status.hotel': 'ホテル',
+  'status.hotelPlaceholder': 'ホテル名',
+  'status.basePoints': 'ベースポイント',
+  'status.add': '滞在を追加',
+  'status.defaultName': 'ヒルトンでの滞在',
+
+  'sources.title': '料金データの出典',
+  'sources.hotel': 'ホテル料金と空室状況',
+  'sources.flights': '航空券',
+  'sources.carRentals': 'レンタカー',
+  'sources.rideShare': '配車サービス',
+  'sources.loyalty': 'ロイヤルティプログラムとポイント',
+  'sources.footnote': 'すべての料金データは公式 API と提携先を通じてリアルタイムで更新されます。配車サービスの見積もりには、Lyft との提携特典とヒルトン・オナーズのポイント獲得分が含まれます。'
+};
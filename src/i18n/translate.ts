@@ -0,0 +1,29 @@
+import { Locale, LOCALES } from './locales';
+import { en, MessageKey, Messages } from './messages/en';
+import { fr } from './messages/fr';
+import { de } from './messages/de';
+import { ja } from './messages/ja';
+import { es } from './messages/es';
+
+export const CATALOGS: Record<Locale, Messages> = { en, fr, de, ja, es };
+
+export type MessageParams = Record<string, string | number>;
+
+// Base keys of `.one`/`.other` message pairs, e.g. `common.nights`
+export type PluralKey = MessageKey extends infer K
+  ? K extends `${infer Base}.other` ? Base : never
+  : never;
+
+export const interpolate = (template: string, params: MessageParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) =>
+  interpolate(CATALOGS[locale][key] ?? en[key], params);
+
+// Chooses the plural form with the locale's rules; languages without a `one` form always use `other`
+export const translatePlural = (locale: Locale, key: PluralKey, count: number, params?: MessageParams) => {
+  const form = new Intl.PluralRules(LOCALES[locale].intl).select(count) === 'one' ? 'one' : 'other';
+  return translate(locale, `${key}.${form}` as MessageKey, { count, ...params });
+};
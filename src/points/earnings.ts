@@ -0,0 +1,44 @@
+import { EarningSource, EliteTier, PointsEarning } from '../types';
+import { diamondBenefits } from '../data/travelData';
+import { TIER_BENEFITS } from './tiers';
+
+export const EARNING_SOURCES: EarningSource[] = ['base', 'eliteBonus', 'lyft', 'carRentalPartner'];
+
+// Drops sources that earn nothing so ledgers only list points that apply
+export const compactEarnings = (earnings: PointsEarning[]) =>
+  earnings.filter(earning => earning.points > 0);
+
+export const sumEarnings = (earnings: PointsEarning[]) =>
+  earnings.reduce((sum, earning) => sum + earning.points, 0);
+
+export const earningsBySource = (earnings: PointsEarning[]) =>
+  earnings.reduce((acc, earning) => {
+    acc[earning.source] = (acc[earning.source] || 0) + earning.points;
+    return acc;
+  }, {} as Partial<Record<EarningSource, number>>);
+
+/**
+ * Base points are earned per dollar of room rate paid in cash, with the tier's
+ * elite bonus on top. Taxes, fees and the part covered by points earn nothing.
+ */
+export const earnHotelPoints = (pointsPerDollar: number, eligibleSpend: number, tier: EliteTier): PointsEarning[] => {
+  const base = Math.round(Math.max(0, eligibleSpend) * pointsPerDollar);
+
+  return compactEarnings([
+    { points: base, source: 'base' },
+    { points: Math.round(base * TIER_BENEFITS[tier].pointsBonus), source: 'eliteBonus' }
+  ]);
+};
+
+export const earnLyftPoints = (spend: number): PointsEarning[] => {
+  const { pointsPerDollar } = diamondBenefits.lyftPartnership;
+  return compactEarnings([
+    { points: Math.round(Math.max(0, spend) * pointsPerDollar), source: 'lyft' }
+  ]);
+};
+
+// Non-partner companies have a rate of 0 and earn nothing
+export const earnCarRentalPoints = (pointsPerDollar: number, spend: number): PointsEarning[] =>
+  compactEarnings([
+    { points: Math.round(Math.max(0, spend) * pointsPerDollar), source: 'carRentalPartner' }
+  ]);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeAllocation } from './optimizer';
+
+// Dollars points could cover in each category, already limited by its maximum coverage
+const REDEEMABLE = { hotel: 100, flight: 50, carRental: 20, entertainment: 0 };
+
+describe('optimizeAllocation', () => {
+  it('fills the highest-rate categories up to their caps first', () => {
+    const plan = optimizeAllocation(10_000, REDEEMABLE);
+
+    // Flights at 1¢ and cars at 0.8¢ fill up; hotels at 0.5¢ get the rest
+    expect(plan.allocations).toEqual({ hotel: 2500, flight: 5000, carRental: 2500, entertainment: 0 });
+    expect(plan.totalSavings).toBe(82.5);
+    expect(plan.leftover).toBe(0);
+    expect(plan.explanation.map(step => step.kind === 'filled' && [step.category, step.capped])).toEqual([
+      ['flight', true],
+      ['carRental', true],
+      ['hotel', false]
+    ]);
+  });
+
+  it('reports the points left once every category is capped', () => {
+    const plan = optimizeAllocation(100_000, REDEEMABLE);
+
+    expect(plan.allocations).toEqual({ hotel: 20_000, flight: 5000, carRental: 2500, entertainment: 0 });
+    expect(plan.totalSavings).toBe(170);
+    expect(plan.leftover).toBe(72_500);
+    expect(plan.explanation[plan.explanation.length - 1]).toEqual({ kind: 'leftover', points: 72_500 });
+  });
+
+  it('allocates nothing from an empty balance', () => {
+    const plan = optimizeAllocation(0, REDEEMABLE);
+
+    expect(plan.allocations).toEqual({ hotel: 0, flight: 0, carRental: 0, entertainment: 0 });
+    expect(plan.totalSavings).toBe(0);
+    expect(plan.leftover).toBe(0);
+    expect(plan.explanation.map(step => step.kind)).toEqual(['exhausted', 'exhausted', 'exhausted']);
+  });
+});
@@ -0,0 +1,66 @@
+import { PointsCategory } from '../types';
+import { POINTS_CATEGORIES, REDEMPTION_RULES } from './wallet';
+
+// One line of the plan's explanation; amounts are in US dollars and rates in dollars per point
+export type AllocationStep =
+  | { kind: 'filled'; category: PointsCategory; rate: number; first: boolean; capped: boolean; points: number; savings: number }
+  | { kind: 'exhausted'; category: PointsCategory; rate: number } // Nothing left for this category
+  | { kind: 'leftover'; points: number };                         // Every category hit its cap
+
+export interface AllocationPlan {
+  allocations: Record<PointsCategory, number>;
+  totalSavings: number;
+  leftover: number;
+  explanation: AllocationStep[];
+}
+
+/**
+ * Splits a points balance across categories to maximize dollar savings.
+ * Every category pays a flat rate per point up to its cap, so filling the
+ * highest-rate categories first is optimal.
+ */
+export const optimizeAllocation = (
+  balance: number,
+  redeemableValue: Record<PointsCategory, number>,
+  rules = REDEMPTION_RULES
+): AllocationPlan => {
+  const allocations: Record<PointsCategory, number> = { hotel: 0, flight: 0, carRental: 0, entertainment: 0 };
+  const explanation: AllocationStep[] = [];
+  let remaining = Math.max(0, Math.floor(balance));
+  let totalSavings = 0;
+
+  // Stable sort keeps the default category order for equal rates
+  const ranked = [...POINTS_CATEGORIES].sort((a, b) => rules[b].rate - rules[a].rate);
+
+  ranked.forEach((category) => {
+    const { rate } = rules[category];
+    const capacity = Math.ceil(Math.max(0, redeemableValue[category]) / rate);
+
+    if (capacity === 0) return;
+
+    if (remaining === 0) {
+      explanation.push({ kind: 'exhausted', category, rate });
+      return;
+    }
+
+    const points = Math.min(remaining, capacity);
+    const savings = Math.min(points * rate, redeemableValue[category]);
+    const first = totalSavings === 0;
+    allocations[category] = points;
+    remaining -= points;
+    totalSavings += savings;
+
+    explanation.push({ kind: 'filled', category, rate, first, capped: points === capacity, points, savings });
+  });
+
+  if (remaining > 0 && balance > 0) {
+    explanation.push({ kind: 'leftover', points: remaining });
+  }
+
+  return {
+    allocations,
+    totalSavings: Math.round(totalSavings * 100) / 100,
+    leftover: remaining,
+    explanation
+  };
+};
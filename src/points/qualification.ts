@@ -0,0 +1,75 @@
+import { EliteTier } from '../types';
+
+export interface QualificationTotals {
+  nights: number;
+  stays: number;
+  basePoints: number;
+}
+
+export const QUALIFYING_TIERS = ['silver', 'gold', 'diamond'] as const;
+export type QualifyingTier = typeof QUALIFYING_TIERS[number];
+
+// Each tier is reached by meeting any one of its thresholds in a calendar year
+export const TIER_REQUIREMENTS: Record<QualifyingTier, QualificationTotals> = {
+  silver: { nights: 10, stays: 4, basePoints: 25_000 },
+  gold: { nights: 40, stays: 20, basePoints: 75_000 },
+  diamond: { nights: 60, stays: 30, basePoints: 120_000 }
+};
+
+export interface TierProgress {
+  tier: QualifyingTier;
+  met: boolean;
+  remaining: QualificationTotals;
+  progress: number; // 0-1, along whichever threshold is closest
+}
+
+export const emptyTotals = (): QualificationTotals => ({ nights: 0, stays: 0, basePoints: 0 });
+
+export const stayYear = (stay: { checkIn: string }) => Number(stay.checkIn.slice(0, 4));
+
+// Thresholds reset every calendar year, so only stays checking in that year count toward it
+export const staysInYear = <T extends { checkIn: string }>(stays: T[], year: number) =>
+  stays.filter(stay => stayYear(stay) === year);
+
+export const sumStays = (stays: { nights: number; basePoints: number }[]): QualificationTotals =>
+  stays.reduce<QualificationTotals>((totals, stay) => ({
+    nights: totals.nights + stay.nights,
+    stays: totals.stays + 1,
+    basePoints: totals.basePoints + stay.basePoints
+  }), emptyTotals());
+
+export const addTotals = (a: QualificationTotals, b: QualificationTotals): QualificationTotals => ({
+  nights: a.nights + b.nights,
+  stays: a.stays + b.stays,
+  basePoints: a.basePoints + b.basePoints
+});
+
+export const getTierProgress = (totals: QualificationTotals, tier: QualifyingTier): TierProgress => {
+  const required = TIER_REQUIREMENTS[tier];
+  const remaining = {
+    nights: Math.max(0, required.nights - totals.nights),
+    stays: Math.max(0, required.stays - totals.stays),
+    basePoints: Math.max(0, required.basePoints - totals.basePoints)
+  };
+
+  return {
+    tier,
+    met: remaining.nights === 0 || remaining.stays === 0 || remaining.basePoints === 0,
+    remaining,
+    progress: Math.min(1, Math.max(
+      totals.nights / required.nights,
+      totals.stays / required.stays,
+      totals.basePoints / required.basePoints
+    ))
+  };
+};
+
+// Highest tier the totals qualify for
+export const getQualifiedTier = (totals: QualificationTotals): EliteTier =>
+  [...QUALIFYING_TIERS].reverse().find(tier => getTierProgress(totals, tier).met) || 'member';
+
+// Lowest tier not yet reached, or null once Diamond is reached
+export const getNextTier = (totals: QualificationTotals): TierProgress | null =>
+  QUALIFYING_TIERS
+    .map(tier => getTierProgress(totals, tier))
+    .find(progress => !progress.met) || null;
@@ -0,0 +1,139 @@
+import { EliteTier, HotelRoom } from '../types';
+import { diamondBenefits } from '../data/travelData';
+
+export const ELITE_TIERS: EliteTier[] = ['member', 'silver', 'gold', 'diamond', 'lifetimeDiamond'];
+
+export interface TierBenefits {
+  pointsBonus: number;        // Share of base points added on top
+  // Daily, per room
+  breakfastPerGuest: number;  // For up to two guests
+  foodCreditPerGuest: number; // Gold's daily food & beverage credit, for up to two guests
+  wifi: number;
+  water: number;
+  lounge: number;
+  roomUpgrade: number;        // Per night, shown with the stay benefits
+  // Once per stay
+  lateCheckout: number;
+  earlyCheckin: number;
+  status: number;
+}
+
+const DIAMOND_BENEFITS: TierBenefits = {
+  pointsBonus: diamondBenefits.pointsBonus.multiplier - 1,
+  breakfastPerGuest: diamondBenefits.breakfast.value,
+  foodCreditPerGuest: 0,
+  wifi: diamondBenefits.wifi.value,
+  water: diamondBenefits.bottledWater.value,
+  lounge: diamondBenefits.executiveLounge.value,
+  roomUpgrade: diamondBenefits.roomUpgrade.value,
+  lateCheckout: diamondBenefits.latecheckout.value,
+  earlyCheckin: diamondBenefits.earlyCheckin.value,
+  status: diamondBenefits.diamondStatus.value
+};
+
+const NO_BENEFITS: TierBenefits = {
+  pointsBonus: 0,
+  breakfastPerGuest: 0,
+  foodCreditPerGuest: 0,
+  wifi: 0,
+  water: 0,
+  lounge: 0,
+  roomUpgrade: 0,
+  lateCheckout: 0,
+  earlyCheckin: 0,
+  status: 0
+};
+
+export const TIER_BENEFITS: Record<EliteTier, TierBenefits> = {
+  member: NO_BENEFITS,
+  silver: { ...NO_BENEFITS, pointsBonus: 0.2, water: 5, status: 25 },
+  gold: {
+    ...NO_BENEFITS,
+    pointsBonus: 0.8,
+    foodCreditPerGuest: 15,
+    wifi: 15,
+    water: 5,
+    roomUpgrade: 35, // Space-available, up to a preferred room
+    lateCheckout: 50,
+    status: 50
+  },
+  diamond: DIAMOND_BENEFITS,
+  lifetimeDiamond: DIAMOND_BENEFITS
+};
+
+export const DEFAULT_TIER: EliteTier = 'diamond';
+
+export interface TierBenefitsValue {
+  daily: {
+    breakfast: number;
+    foodCredit: number;
+    wifi: number;
+    water: number;
+    lounge: number;
+    total: number;
+  };
+  stay: {
+    upgrade: number;
+    lateCheckout: number;
+    earlyCheckin: number;
+    status: number;
+    total: number;
+  };
+  points: {
+    base: number;
+    bonus: number;
+    total: number;
+  };
+  total: number;
+}
+
+// Adults eating on the meal benefits: up to two in each room
+export const countMealGuests = (rooms: Pick<HotelRoom, 'adults'>[]) =>
+  rooms.reduce((sum, room) => sum + Math.min(2, room.adults), 0);
+
+/**
+ * Dollar value of a tier's benefits over a stay. Daily benefits and the
+ * upgrade apply to every room booked, meal benefits to at most two adults per
+ * room; `points` are the stay's base points, valued at the standard Honors
+ * point value, and the tier bonus is a share of them.
+ */
+export const valueTierBenefits = (
+  tier: EliteTier,
+  stay: { nights: number; rooms: Pick<HotelRoom, 'adults'>[]; points: number }
+): TierBenefitsValue => {
+  const benefits = TIER_BENEFITS[tier];
+  const nights = Math.max(0, stay.nights);
+  const roomNights = stay.rooms.length * nights;
+  const guests = countMealGuests(stay.rooms);
+  const perStay = (value: number) => nights > 0 ? value : 0;
+
+  const daily = {
+    breakfast: benefits.breakfastPerGuest * guests * nights,
+    foodCredit: benefits.foodCreditPerGuest * guests * nights,
+    wifi: benefits.wifi * roomNights,
+    water: benefits.water * roomNights,
+    lounge: benefits.lounge * roomNights,
+    total: 0
+  };
+  daily.total = daily.breakfast + daily.foodCredit + daily.wifi + daily.water + daily.lounge;
+
+  const perStayValues = {
+    upgrade: benefits.roomUpgrade * roomNights,
+    lateCheckout: perStay(benefits.lateCheckout),
+    earlyCheckin: perStay(benefits.earlyCheckin),
+    status: perStay(benefits.status),
+    total: 0
+  };
+  perStayValues.total = perStayValues.upgrade + perStayValues.lateCheckout + perStayValues.earlyCheckin + perStayValues.status;
+
+  const base = stay.points * diamondBenefits.pointsValue;
+  const points = { base, bonus: base * benefits.pointsBonus, total: 0 };
+  points.total = points.base + points.bonus;
+
+  return {
+    daily,
+    stay: perStayValues,
+    points,
+    total: daily.total + perStayValues.total + points.total
+  };
+};
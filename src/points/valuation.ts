@@ -0,0 +1,38 @@
+import { CategoryCost, CostCategory } from '../types';
+
+// Cents a Hilton point is commonly valued at; users can set their own in the wallet
+export const DEFAULT_BASELINE_CENTS = 0.5;
+
+export interface RedemptionValuation {
+  category: CostCategory;
+  pointsUsed: number;
+  savings: number;
+  centsPerPoint: number;
+  poor: boolean; // Worth less per point than the baseline
+}
+
+export const centsPerPoint = (savings: number, pointsUsed: number) =>
+  pointsUsed > 0 ? (savings / pointsUsed) * 100 : 0;
+
+// Redemptions lose a sliver of value to rounding savings to cents and points up to whole points,
+// so anything within what the two-decimal display can show still counts as at the baseline
+const CENTS_TOLERANCE = 0.005;
+
+export const isPoorRedemption = (cents: number, baselineCents: number) => cents < baselineCents - CENTS_TOLERANCE;
+
+export const valueRedemption = (category: CostCategory, cost: CategoryCost, baselineCents: number): RedemptionValuation => {
+  const cents = centsPerPoint(cost.pointsSavings, cost.pointsUsed);
+  return {
+    category,
+    pointsUsed: cost.pointsUsed,
+    savings: cost.pointsSavings,
+    centsPerPoint: cents,
+    poor: isPoorRedemption(cents, baselineCents)
+  };
+};
+
+// Only categories that actually spent points are valued
+export const valueRedemptions = (costs: { key: CostCategory; cost: CategoryCost }[], baselineCents: number) =>
+  costs
+    .filter(({ cost }) => cost.pointsUsed > 0)
+    .map(({ key, cost }) => valueRedemption(key, cost, baselineCents));
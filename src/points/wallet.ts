@@ -0,0 +1,60 @@
+import { PointsCategory, PointsWallet } from '../types';
+import { DEFAULT_TIER } from './tiers';
+import { DEFAULT_BASELINE_CENTS } from './valuation';
+
+export const POINTS_CATEGORIES: PointsCategory[] = ['hotel', 'flight', 'carRental', 'entertainment'];
+
+// Dollar value of one point and the share of the cash price points may cover
+export const REDEMPTION_RULES: Record<PointsCategory, { rate: number; maxCoverage: number }> = {
+  hotel: { rate: 0.005, maxCoverage: 0.8 },
+  flight: { rate: 0.01, maxCoverage: 0.7 },
+  carRental: { rate: 0.008, maxCoverage: 0.5 },
+  entertainment: { rate: 0.005, maxCoverage: 1 } // Further capped per event by maxPointsDiscount
+};
+
+export const createWallet = (balance = 0): PointsWallet => ({
+  balance,
+  allocations: { hotel: 0, flight: 0, carRental: 0, entertainment: 0 },
+  mode: 'manual',
+  tier: DEFAULT_TIER,
+  baselineCents: DEFAULT_BASELINE_CENTS
+});
+
+export const getAllocatedPoints = (wallet: PointsWallet) =>
+  POINTS_CATEGORIES.reduce((sum, category) => sum + wallet.allocations[category], 0);
+
+export const getRemainingPoints = (wallet: PointsWallet) =>
+  Math.max(0, wallet.balance - getAllocatedPoints(wallet));
+
+export const setWalletBalance = (wallet: PointsWallet, balance: number): PointsWallet => {
+  const nextBalance = Math.max(0, Math.floor(balance) || 0);
+  let overflow = getAllocatedPoints(wallet) - nextBalance;
+  const allocations = { ...wallet.allocations };
+
+  // Shrink allocations starting from the last category until they fit the new balance
+  for (const category of [...POINTS_CATEGORIES].reverse()) {
+    if (overflow <= 0) break;
+    const reduction = Math.min(allocations[category], overflow);
+    allocations[category] -= reduction;
+    overflow -= reduction;
+  }
+
+  return { ...wallet, balance: nextBalance, allocations };
+};
+
+export const allocatePoints = (wallet: PointsWallet, category: PointsCategory, points: number): PointsWallet => {
+  const available = wallet.balance - getAllocatedPoints(wallet) + wallet.allocations[category];
+  const allocation = Math.min(Math.max(0, Math.floor(points) || 0), available);
+  return { ...wallet, allocations: { ...wallet.allocations, [category]: allocation } };
+};
+
+// Spends up to `allocated` points at `rate` dollars per point, never saving more than `maxSavings`
+export const redeemPoints = (allocated: number, rate: number, maxSavings: number) => {
+  const savings = Math.min(Math.max(0, allocated) * rate, Math.max(0, maxSavings));
+  const pointsUsed = Math.min(Math.max(0, allocated), Math.ceil(savings / rate));
+
+  return {
+    savings: Math.round(savings * 100) / 100,
+    pointsUsed
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { EliteTier } from '../types';
+import { payForAward, priceAwardStay } from './award';
+import { RoomPricing } from './rooms';
+
+const STANDARD_ROOM: RoomPricing = { rateMultiplier: 1, extraAdults: 0 };
+
+// October nights are regular season, so each costs the chart's 40,000 points
+const award = (checkOut: string, tier: EliteTier = 'diamond') => priceAwardStay({
+  pointsPerNight: 40_000,
+  checkIn: '2024-10-14',
+  checkOut,
+  rooms: [STANDARD_ROOM],
+  type: 'standard',
+  tier
+});
+
+describe('priceAwardStay', () => {
+  it('charges every night of a four-night stay', () => {
+    const stay = award('2024-10-18');
+
+    expect(stay?.nights).toBe(4);
+    expect(stay?.freeNights).toBe(0);
+    expect(stay?.totalPoints).toBe(160_000);
+  });
+
+  it('gives the fifth night free to elite members', () => {
+    const stay = award('2024-10-19');
+
+    expect(stay?.freeNights).toBe(1);
+    expect(stay?.freePoints).toBe(40_000);
+    expect(stay?.totalPoints).toBe(160_000);
+    expect(award('2024-10-19', 'member')?.totalPoints).toBe(200_000);
+  });
+
+  it('gives a free night for each run of five in a ten-night stay', () => {
+    const stay = award('2024-10-24');
+
+    expect(stay?.freeNights).toBe(2);
+    expect(stay?.totalPoints).toBe(320_000);
+  });
+
+  it('prices nothing without a night', () => {
+    expect(award('2024-10-14')).toBeNull();
+  });
+});
+
+describe('payForAward', () => {
+  it('pays in points when the balance covers the award', () => {
+    expect(payForAward(160_000, 200_000, false)).toEqual({ pointsPaid: 160_000, cashPaid: 0, shortfall: 0 });
+  });
+
+  it('reports the shortfall without Points & Money', () => {
+    expect(payForAward(160_000, 100_000, false)).toEqual({ pointsPaid: 0, cashPaid: 0, shortfall: 60_000 });
+  });
+
+  it('buys the missing points back in cash with Points & Money', () => {
+    // 60,000 points at half a cent each
+    expect(payForAward(160_000, 100_000, true)).toEqual({ pointsPaid: 100_000, cashPaid: 300, shortfall: 0 });
+  });
+});
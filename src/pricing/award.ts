@@ -0,0 +1,113 @@
+import { EliteTier } from '../types';
+import { eachNight } from '../utils/dates';
+import { Season, getNightlyRate } from './hotel';
+import { RoomPricing } from './rooms';
+
+export type AwardType = 'standard' | 'premium';
+
+// Standard Room Rewards move far less with the season than cash rates do
+export const STANDARD_AWARD_SEASONAL_RATES: Record<Season, number> = {
+  peak: 1.2,
+  shoulder: 1.1,
+  offPeak: 0.9,
+  regular: 1
+};
+
+// Premium Room Rewards track the cash rate, including its full seasonal and weekend swing
+export const PREMIUM_AWARD_MULTIPLIER = 1.5;
+
+// One free night for every five award nights in a row
+export const FIFTH_NIGHT_FREE_EVERY = 5;
+
+// Cash charged for each point replaced when paying with Points & Money
+export const POINTS_AND_MONEY_CASH_PER_POINT = 0.005;
+
+export interface AwardPricingInput {
+  pointsPerNight: number; // Standard Room Reward at a regular-season rate
+  checkIn: string;
+  checkOut: string;
+  rooms: RoomPricing[];
+  type: AwardType;
+  tier: EliteTier;
+}
+
+export interface AwardNight {
+  date: string;
+  season: Season;
+  points: number;
+}
+
+export interface AwardPriceBreakdown {
+  type: AwardType;
+  nights: number;
+  nightlyPoints: AwardNight[];
+  freeNights: number;     // Per room
+  freePoints: number;     // All rooms, the nights given free
+  totalPoints: number;    // All rooms, after free nights
+}
+
+export interface AwardPayment {
+  pointsPaid: number;
+  cashPaid: number;       // Points & Money cash portion
+  shortfall: number;      // Points still missing for a full award
+}
+
+// Fifth night free applies to Silver and above, on Standard Room Rewards only
+export const getFreeNights = (nights: number, type: AwardType, tier: EliteTier) =>
+  type === 'standard' && tier !== 'member' ? Math.floor(nights / FIFTH_NIGHT_FREE_EVERY) : 0;
+
+export const getNightlyAwardPoints = (pointsPerNight: number, date: string, type: AwardType): AwardNight => {
+  const night = getNightlyRate(pointsPerNight, date);
+  const points = type === 'standard'
+    ? pointsPerNight * STANDARD_AWARD_SEASONAL_RATES[night.season]
+    : night.rate * PREMIUM_AWARD_MULTIPLIER;
+  // Award charts price in steps of 500 points
+  return { date, season: night.season, points: Math.ceil(points / 500) * 500 };
+};
+
+export const priceAwardStay = (input: AwardPricingInput): AwardPriceBreakdown | null => {
+  const nightlyPoints = eachNight(input.checkIn, input.checkOut)
+    .map(date => getNightlyAwardPoints(input.pointsPerNight, date, input.type));
+  const nights = nightlyPoints.length;
+  if (nights === 0) return null;
+
+  // The cheapest night in each run of five is the free one
+  const freeNights = getFreeNights(nights, input.type, input.tier);
+  let freePoints = 0;
+  for (let block = 0; block < freeNights; block++) {
+    const run = nightlyPoints.slice(block * FIFTH_NIGHT_FREE_EVERY, (block + 1) * FIFTH_NIGHT_FREE_EVERY);
+    freePoints += Math.min(...run.map(night => night.points));
+  }
+
+  const stayPoints = nightlyPoints.reduce((sum, night) => sum + night.points, 0);
+  // Larger room types cost proportionally more points, in the chart's 500-point steps
+  const roomPoints = (points: number) => input.rooms
+    .reduce((sum, room) => sum + Math.ceil(points * room.rateMultiplier / 500) * 500, 0);
+
+  return {
+    type: input.type,
+    nights,
+    nightlyPoints,
+    freeNights,
+    freePoints: roomPoints(freePoints),
+    totalPoints: roomPoints(stayPoints) - roomPoints(freePoints)
+  };
+};
+
+/**
+ * Pays an award from the points available. With Points & Money, any points
+ * short of the full award are bought back in cash; without it the award
+ * needs every point and reports the shortfall instead.
+ */
+export const payForAward = (totalPoints: number, availablePoints: number, pointsAndMoney: boolean): AwardPayment => {
+  const available = Math.max(0, Math.floor(availablePoints));
+
+  if (available >= totalPoints) return { pointsPaid: totalPoints, cashPaid: 0, shortfall: 0 };
+  if (!pointsAndMoney) return { pointsPaid: 0, cashPaid: 0, shortfall: totalPoints - available };
+
+  return {
+    pointsPaid: available,
+    cashPaid: Math.round((totalPoints - available) * POINTS_AND_MONEY_CASH_PER_POINT * 100) / 100,
+    shortfall: 0
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { CarRental } from '../types';
+import { getRentalLengthDiscount, priceCarRental } from './carRental';
+
+const RENTAL: CarRental = {
+  company: 'Test',
+  basePrice: 50,
+  categories: { economy: 1, midsize: 1.3, luxury: 2.8, suv: 1.9 },
+  honorsPointsPerDollar: 0
+};
+
+const rent = (days: number, category = 'midsize') => priceCarRental({ rental: RENTAL, category, days });
+
+describe('getRentalLengthDiscount', () => {
+  it('takes 10% off 3 days and 15% off a week', () => {
+    expect(getRentalLengthDiscount(2)).toBe(0);
+    expect(getRentalLengthDiscount(3)).toBe(0.1);
+    expect(getRentalLengthDiscount(7)).toBe(0.15);
+  });
+});
+
+describe('priceCarRental', () => {
+  it('charges sales tax on the discounted rental plus fees and rental tax on the base', () => {
+    const breakdown = rent(5);
+
+    expect(breakdown.dailyRate).toBe(65);
+    expect(breakdown.baseRental).toBe(325);
+    expect(breakdown.discountedBase).toBeCloseTo(292.5);
+    expect(breakdown.fees.total).toBe(120.5);
+    expect(breakdown.taxes.jurisdiction).toBeNull();
+    // 8.25% sales tax on 292.5 + 120.5 and 11.5% rental tax on the undiscounted 325
+    expect(breakdown.taxes.total).toBeCloseTo(413 * 0.0825 + 325 * 0.115);
+    expect(breakdown.total).toBe(484.45);
+  });
+
+  it('takes 15% off a week-long rental', () => {
+    expect(rent(7).total).toBe(633.9);
+  });
+
+  it('falls back to the base rate for an unknown category', () => {
+    expect(rent(1, 'limo').dailyRate).toBe(50);
+  });
+});
@@ -0,0 +1,88 @@
+import { CarRental, LineItem } from '../types';
+import { compactLineItems } from './lineItems';
+import { AppliedTax, TaxLocation, applyTaxRules, getTaxRules, sumTaxes } from './jurisdictions';
+
+export const CAR_RENTAL_FEES = {
+  insurancePerDay: 15,
+  airport: 25,          // One-time airport concession fee
+  vehicleLicense: 8.50,
+  facility: 12,
+};
+
+export interface CarRentalPricingInput {
+  rental: CarRental;
+  category: string;
+  days: number;
+  location?: TaxLocation; // Where the car is picked up; default taxes apply without one
+}
+
+export interface CarRentalPriceBreakdown {
+  dailyRate: number;
+  baseRental: number;
+  discount: number;
+  discountedBase: number;
+  fees: {
+    insurance: number;
+    airport: number;
+    vehicleLicense: number;
+    facility: number;
+    total: number;
+  };
+  taxes: {
+    items: AppliedTax[];
+    jurisdiction: string | null; // Null when the default rates apply
+    total: number;
+  };
+  total: number;
+}
+
+// 15% off weekly rentals, 10% off 3+ days
+export const getRentalLengthDiscount = (days: number) =>
+  days >= 7 ? 0.15 :
+  days >= 3 ? 0.10 : 0;
+
+export const priceCarRental = (input: CarRentalPricingInput): CarRentalPriceBreakdown => {
+  const categoryMultiplier = input.rental.categories[input.category as keyof CarRental['categories']] || 1;
+  const dailyRate = input.rental.basePrice * categoryMultiplier;
+  const baseRental = dailyRate * input.days;
+
+  const fees = {
+    insurance: CAR_RENTAL_FEES.insurancePerDay * input.days,
+    airport: CAR_RENTAL_FEES.airport,
+    vehicleLicense: CAR_RENTAL_FEES.vehicleLicense,
+    facility: CAR_RENTAL_FEES.facility,
+    total: 0
+  };
+  fees.total = fees.insurance + fees.airport + fees.vehicleLicense + fees.facility;
+
+  const discount = getRentalLengthDiscount(input.days);
+  const discountedBase = baseRental * (1 - discount);
+  const subtotal = discountedBase + fees.total;
+
+  // Percentage taxes fall on the discounted rental plus fees unless a rule asks for the
+  // undiscounted base rental; flat ones on each rental day
+  const { rules, jurisdiction } = getTaxRules(input.location, 'car');
+  const items = rules.flatMap(rule => applyTaxRules([rule], rule.onBaseRental ? baseRental : subtotal, input.days));
+  const taxes = { items, jurisdiction, total: sumTaxes(items) };
+
+  return {
+    dailyRate,
+    baseRental,
+    discount,
+    discountedBase,
+    fees,
+    taxes,
+    total: Math.round((subtotal + taxes.total) * 100) / 100
+  };
+};
+
+export const carRentalLineItems = (breakdown: CarRentalPriceBreakdown): LineItem[] =>
+  compactLineItems([
+    { label: { key: 'lineItem.car.baseRental' }, amount: breakdown.baseRental, kind: 'base' },
+    { label: { key: 'lineItem.car.lengthDiscount' }, amount: breakdown.discountedBase - breakdown.baseRental, kind: 'discount' },
+    { label: { key: 'lineItem.car.insurance' }, amount: breakdown.fees.insurance, kind: 'fee' },
+    { label: { key: 'lineItem.car.airportFee' }, amount: breakdown.fees.airport, kind: 'fee' },
+    { label: { key: 'lineItem.car.licenseFee' }, amount: breakdown.fees.vehicleLicense, kind: 'fee' },
+    { label: { key: 'lineItem.car.facilityFee' }, amount: breakdown.fees.facility, kind: 'fee' },
+    ...breakdown.taxes.items.map((tax): LineItem => ({ label: { key: 'lineItem.tax', params: { name: tax.rule.label } }, amount: tax.amount, kind: 'tax' }))
+  ]);
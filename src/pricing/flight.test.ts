@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { FlightDetails } from '../types';
+import {
+  estimateFlightMinutes,
+  getAdvancePurchaseMultiplier,
+  getDistanceFare,
+  getFlightSeasonalMultiplier,
+  priceFlight,
+  resolveFlightSegments
+} from './flight';
+import { createPassengers } from './passengers';
+
+const ONE_WAY: FlightDetails = {
+  origin: 'JFK',
+  destination: 'LAX',
+  departDate: '2024-10-15',
+  returnDate: '',
+  flightClass: 'economy',
+  passengers: createPassengers(),
+  tripType: 'oneWay',
+  flightType: 'nonStop',
+  segments: []
+};
+
+const flight = (changes: Partial<FlightDetails> = {}, today = new Date('2024-09-01')) => {
+  const details = { ...ONE_WAY, ...changes };
+  return priceFlight({ segments: resolveFlightSegments(details) || [], passengers: details.passengers, today });
+};
+
+describe('getFlightSeasonalMultiplier', () => {
+  it('charges more in summer, winter and spring break', () => {
+    expect(getFlightSeasonalMultiplier(6)).toBe(1.3);
+    expect(getFlightSeasonalMultiplier(0)).toBe(1.3);
+    expect(getFlightSeasonalMultiplier(2)).toBe(1.2);
+    expect(getFlightSeasonalMultiplier(9)).toBe(1);
+  });
+});
+
+describe('getAdvancePurchaseMultiplier', () => {
+  it('rewards booking more than one, two and three weeks out', () => {
+    expect(getAdvancePurchaseMultiplier(7)).toBe(1);
+    expect(getAdvancePurchaseMultiplier(8)).toBe(0.95);
+    expect(getAdvancePurchaseMultiplier(15)).toBe(0.9);
+    expect(getAdvancePurchaseMultiplier(22)).toBe(0.85);
+  });
+});
+
+describe('getDistanceFare', () => {
+  it('picks the band the distance falls in', () => {
+    expect(getDistanceFare(400, false)).toBe(150);
+    expect(getDistanceFare(2500, false)).toBe(350);
+    expect(getDistanceFare(3500, true)).toBe(800);
+    expect(getDistanceFare(9000, true)).toBe(1400);
+  });
+});
+
+describe('estimateFlightMinutes', () => {
+  it('adds a take-off and a connection for a layover', () => {
+    expect(estimateFlightMinutes(1000, 'nonStop')).toBe(150);
+    expect(estimateFlightMinutes(1000, 'layover')).toBe(270);
+  });
+});
+
+describe('priceFlight', () => {
+  it('prices a domestic one-way booked well ahead', () => {
+    const breakdown = flight();
+
+    // JFK to LAX is about 2,475 miles, in the 350 band
+    expect(breakdown.segments[0].miles).toBeGreaterThan(2000);
+    expect(breakdown.isInternational).toBe(false);
+    expect(breakdown.advance).toBe(0.85);
+    expect(breakdown.baseFare).toBeCloseTo(297.5);
+    expect(breakdown.fees.total).toBeCloseTo(62.1);
+    // Airport and segment taxes plus the US federal ticket tax: 14.5% of the fare
+    expect(breakdown.taxes.total).toBeCloseTo(43.1375);
+    expect(breakdown.total).toBe(402.74);
+  });
+
+  it('prices an international round trip with a layover in peak season', () => {
+    const breakdown = flight({
+      destination: 'LHR',
+      passengers: { ...createPassengers(), adult: 2 },
+      tripType: 'roundTrip',
+      flightType: 'layover',
+      departDate: '2024-07-15'
+    }, new Date('2024-07-10'));
+
+    // 800 × 2 passengers × 2 directions × 0.8 layover × 1.3 peak
+    expect(breakdown.isInternational).toBe(true);
+    expect(breakdown.baseFare).toBeCloseTo(3328);
+    expect(breakdown.fees.international).toBeCloseTo(55);
+    expect(breakdown.fees.total).toBeCloseTo(199.4);
+    // 7% airport and segment taxes, the US departure tax from JFK and UK duty from LHR per passenger
+    expect(breakdown.taxes.departures.map(departure => departure.airport)).toEqual(['JFK', 'LHR']);
+    expect(breakdown.taxes.total).toBeCloseTo(3328 * 0.07 + 2 * 22.9 + 2 * 60);
+    expect(breakdown.total).toBe(3926.16);
+  });
+
+  it('charges each passenger type its fare share and fees', () => {
+    const breakdown = flight({ passengers: { ...createPassengers(), child: 1, infantInLap: 1 } });
+
+    // An adult, a child at 75% and a lap infant at 10% of the fare; the infant has no seat
+    expect(breakdown.baseFare).toBeCloseTo(350 * 1.85 * 0.85);
+    expect(breakdown.fees.security).toBeCloseTo(2 * 5.6);
+    expect(breakdown.fees.service).toBe(2 * 12.5);
+  });
+
+  it('prices each multi-city segment on its own date', () => {
+    const breakdown = flight({
+      tripType: 'multiCity',
+      segments: [{ origin: 'LAX', destination: 'ORD', date: '2024-12-20', flightClass: 'economy', flightType: 'nonStop' }]
+    });
+
+    expect(breakdown.segments.map(segment => segment.seasonal)).toEqual([1, 1.3]);
+    expect(breakdown.fees.service).toBe(12.5);
+  });
+
+  it('prices nothing until every airport is chosen', () => {
+    expect(resolveFlightSegments({ ...ONE_WAY, destination: '' })).toBeNull();
+  });
+});
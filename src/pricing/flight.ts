@@ -0,0 +1,320 @@
+import { Airport, FlightDetails, FlightSegment, FlightType, LineItem, PassengerCounts } from '../types';
+import { majorAirports, flightClasses } from '../data/travelData';
+import { MS_PER_DAY } from '../utils/dates';
+import { greatCircleMiles } from '../utils/geo';
+import { compactLineItems } from './lineItems';
+import { countAdultFares, countPassengers } from './passengers';
+import { AppliedTax, applyTaxRules, getTaxRules, sumTaxes } from './jurisdictions';
+
+// One-way economy fare per passenger by great-circle distance; crossing a border costs more
+export const DISTANCE_FARE_BANDS = [
+  { maxMiles: 500, domestic: 150, international: 200 },
+  { maxMiles: 1000, domestic: 200, international: 300 },
+  { maxMiles: 2000, domestic: 250, international: 450 },
+  { maxMiles: 3500, domestic: 350, international: 800 },
+  { maxMiles: 5000, domestic: 450, international: 950 },
+  { maxMiles: 7500, domestic: 550, international: 1150 },
+  { maxMiles: Infinity, domestic: 650, international: 1400 }
+];
+
+export const CRUISE_SPEED_MPH = 500;
+export const TAXI_AND_CLIMB_MINUTES = 30; // Added once per take-off
+export const CONNECTION_MINUTES = 90;     // Time on the ground at a layover
+
+export const getDistanceFare = (miles: number, isInternational: boolean) => {
+  const band = DISTANCE_FARE_BANDS.find(b => miles <= b.maxMiles) ?? DISTANCE_FARE_BANDS[DISTANCE_FARE_BANDS.length - 1];
+  return isInternational ? band.international : band.domestic;
+};
+
+// Gate-to-gate estimate; a layover adds a second take-off and the connection
+export const estimateFlightMinutes = (miles: number, flightType: FlightType) =>
+  Math.round(miles / CRUISE_SPEED_MPH * 60 + TAXI_AND_CLIMB_MINUTES +
+    (flightType === 'layover' ? TAXI_AND_CLIMB_MINUTES + CONNECTION_MINUTES : 0));
+
+export const FEES = {
+  segment: 4.50,          // Per flight segment
+  security: 5.60,         // TSA fee per passenger per direction
+  facilityCharge: 4.50,   // Passenger facility charge per airport
+  immigration: 7.00,      // Immigration fee (international only)
+  customs: 6.75,          // Customs fee (international only)
+  carrierSurcharge: 5.50, // Carrier-imposed surcharge per direction
+  fuelSurcharge: 25.00,   // Fuel surcharge per direction
+  serviceFee: 12.50,      // Service fee per ticket
+};
+
+// Charged everywhere; ticket and departure taxes depend on the country flown from
+export const TAX_RATES = {
+  airport: 0.045,        // Airport tax
+  segment: 0.025,        // Segment tax
+};
+
+export const PEAK_DATES = {
+  summer: { start: 5, end: 7 },     // June-August
+  winter: { start: 11, end: 0 },    // December-January
+  spring: { start: 2, end: 3 }      // March-April
+};
+
+// Flights after the first that one multi-city ticket can hold
+export const MAX_FLIGHT_SEGMENTS = 5;
+
+export interface FlightSegmentPricing {
+  origin: Airport;
+  destination: Airport;
+  classMultiplier: number;
+  flightType: FlightType;
+  date: string;
+}
+
+export interface FlightPricingInput {
+  segments: FlightSegmentPricing[]; // Every flight on the ticket, in travel order
+  passengers: PassengerCounts;
+  today: Date;
+}
+
+export interface FlightDepartureTaxes {
+  airport: string;
+  jurisdiction: string | null; // Null when the default rates apply
+  items: AppliedTax[];
+}
+
+export interface FlightSegmentFees {
+  segment: number;
+  security: number;
+  facility: number;
+  carrier: number;
+  fuel: number;
+  international: number;
+  total: number;
+}
+
+export interface FlightSegmentBreakdown {
+  origin: string;
+  destination: string;
+  isInternational: boolean;
+  miles: number;   // Great-circle distance
+  minutes: number; // Estimated time in the air and on the ground
+  fare: number; // Before seasonal and advance-purchase adjustments
+  seasonal: number;
+  advance: number;
+  baseFare: number; // After seasonal and advance-purchase adjustments
+  fees: FlightSegmentFees;
+  taxes: {
+    airport: number;
+    segment: number;
+    departure: FlightDepartureTaxes;
+    total: number;
+  };
+  total: number;
+}
+
+export interface FlightPriceBreakdown {
+  segments: FlightSegmentBreakdown[];
+  isInternational: boolean; // Any segment crosses a border
+  fare: number;
+  seasonal: number; // Fare-weighted across segments
+  advance: number;
+  baseFare: number;
+  fees: FlightSegmentFees & { service: number };
+  taxes: {
+    airport: number;
+    segment: number;
+    departures: FlightDepartureTaxes[];
+    total: number;
+  };
+  total: number;
+}
+
+export const getFlightSeasonalMultiplier = (month: number) => {
+  if ((month >= PEAK_DATES.summer.start && month <= PEAK_DATES.summer.end) ||
+      (month >= PEAK_DATES.winter.start || month <= PEAK_DATES.winter.end)) {
+    return 1.3; // 30% premium for peak seasons
+  }
+  if (month >= PEAK_DATES.spring.start && month <= PEAK_DATES.spring.end) {
+    return 1.2; // 20% premium for spring break
+  }
+  return 1;
+};
+
+export const getAdvancePurchaseMultiplier = (daysUntilFlight: number) =>
+  daysUntilFlight > 21 ? 0.85 :
+  daysUntilFlight > 14 ? 0.9 :
+  daysUntilFlight > 7 ? 0.95 : 1;
+
+// Each segment pays its own ticket taxes where it departs, classified by the countries it connects
+const priceSegment = (segment: FlightSegmentPricing, passengers: PassengerCounts, today: Date): FlightSegmentBreakdown => {
+  const isInternational = segment.origin.country !== segment.destination.country;
+  const miles = greatCircleMiles(segment.origin, segment.destination);
+  const basePrice = getDistanceFare(miles, isInternational);
+  const layover = segment.flightType === 'layover';
+
+  const fare = basePrice * segment.classMultiplier * countAdultFares(passengers) * (layover ? 0.8 : 1);
+
+  const date = segment.date ? new Date(segment.date) : today;
+  const seasonal = getFlightSeasonalMultiplier(date.getMonth());
+  const daysUntilFlight = Math.ceil((date.getTime() - today.getTime()) / MS_PER_DAY);
+  const advance = getAdvancePurchaseMultiplier(daysUntilFlight);
+  const baseFare = fare * seasonal * advance;
+
+  const fees = {
+    segment: FEES.segment * (layover ? 2 : 1),
+    security: FEES.security * countPassengers(passengers, rule => rule.security),
+    facility: FEES.facilityCharge * 2, // Both airports
+    carrier: FEES.carrierSurcharge,
+    fuel: FEES.fuelSurcharge,
+    international: isInternational
+      ? FEES.immigration * countPassengers(passengers, rule => rule.immigration) +
+        FEES.customs * countPassengers(passengers, rule => rule.customs)
+      : 0,
+    total: 0
+  };
+  fees.total = fees.segment + fees.security + fees.facility + fees.carrier + fees.fuel + fees.international;
+
+  const { rules, jurisdiction } = getTaxRules({ city: segment.origin.city, country: segment.origin.country }, 'flight');
+  const departure: FlightDepartureTaxes = {
+    airport: segment.origin.code,
+    jurisdiction,
+    items: applyTaxRules(rules, baseFare, countPassengers(passengers, rule => rule.seat),
+      isInternational ? 'international' : 'domestic')
+  };
+  const taxes = {
+    airport: baseFare * TAX_RATES.airport,
+    segment: baseFare * TAX_RATES.segment,
+    departure,
+    total: 0
+  };
+  taxes.total = taxes.airport + taxes.segment + sumTaxes(departure.items);
+
+  return {
+    origin: segment.origin.code,
+    destination: segment.destination.code,
+    isInternational,
+    miles,
+    minutes: estimateFlightMinutes(miles, segment.flightType),
+    fare,
+    seasonal,
+    advance,
+    baseFare,
+    fees,
+    taxes,
+    total: baseFare + fees.total + taxes.total
+  };
+};
+
+const sumSegments = (segments: FlightSegmentBreakdown[], amount: (segment: FlightSegmentBreakdown) => number) =>
+  segments.reduce((sum, segment) => sum + amount(segment), 0);
+
+/**
+ * Prices every segment on the ticket for all passengers, each paying their
+ * type's share of the fare. `today` drives the advance-purchase discount and
+ * stands in for a segment without a date; the service fee is charged once per
+ * ticketed seat.
+ */
+export const priceFlight = (input: FlightPricingInput): FlightPriceBreakdown => {
+  const segments = input.segments.map(segment => priceSegment(segment, input.passengers, input.today));
+
+  const fare = sumSegments(segments, s => s.fare);
+  const seasonalFare = sumSegments(segments, s => s.fare * s.seasonal);
+  const baseFare = sumSegments(segments, s => s.baseFare);
+
+  const fees = {
+    segment: sumSegments(segments, s => s.fees.segment),
+    security: sumSegments(segments, s => s.fees.security),
+    facility: sumSegments(segments, s => s.fees.facility),
+    carrier: sumSegments(segments, s => s.fees.carrier),
+    fuel: sumSegments(segments, s => s.fees.fuel),
+    international: sumSegments(segments, s => s.fees.international),
+    service: segments.length ? FEES.serviceFee * countPassengers(input.passengers, rule => rule.seat) : 0,
+    total: 0
+  };
+  fees.total = sumSegments(segments, s => s.fees.total) + fees.service;
+
+  const taxes = {
+    airport: sumSegments(segments, s => s.taxes.airport),
+    segment: sumSegments(segments, s => s.taxes.segment),
+    departures: segments.map(s => s.taxes.departure),
+    total: sumSegments(segments, s => s.taxes.total)
+  };
+
+  return {
+    segments,
+    isInternational: segments.some(s => s.isInternational),
+    fare,
+    seasonal: fare > 0 ? seasonalFare / fare : 1,
+    advance: seasonalFare > 0 ? baseFare / seasonalFare : 1,
+    baseFare,
+    fees,
+    taxes,
+    total: Math.round((baseFare + fees.total + taxes.total) * 100) / 100
+  };
+};
+
+/**
+ * The flights a trip's ticket covers: a round trip adds the return, priced on
+ * the return date or the outbound date until one is set, and a multi-city trip
+ * adds its later segments.
+ * Null until every airport on the ticket is chosen.
+ */
+export const resolveFlightSegments = (details: FlightDetails): FlightSegmentPricing[] | null => {
+  const legs = [
+    { origin: details.origin, destination: details.destination, date: details.departDate,
+      flightClass: details.flightClass, flightType: details.flightType },
+    ...(details.tripType === 'roundTrip' ? [{
+      origin: details.destination, destination: details.origin, date: details.returnDate || details.departDate,
+      flightClass: details.flightClass, flightType: details.flightType
+    }] : []),
+    ...(details.tripType === 'multiCity' ? details.segments : [])
+  ];
+
+  const segments: FlightSegmentPricing[] = [];
+  for (const leg of legs) {
+    const origin = majorAirports.find(a => a.code === leg.origin);
+    const destination = majorAirports.find(a => a.code === leg.destination);
+    if (!origin || !destination) return null;
+    segments.push({
+      origin,
+      destination,
+      classMultiplier: flightClasses.find(fc => fc.id === leg.flightClass)?.multiplier || 1,
+      flightType: leg.flightType,
+      date: leg.date
+    });
+  }
+  return segments;
+};
+
+// Starts the next flight where the last one landed, in the same cabin
+export const createSegment = (previous: FlightSegment): FlightSegment => ({
+  origin: previous.destination,
+  destination: '',
+  date: previous.date,
+  flightClass: previous.flightClass,
+  flightType: previous.flightType
+});
+
+export const flightLineItems = (breakdown: FlightPriceBreakdown): LineItem[] => {
+  const seasonalFare = breakdown.fare * breakdown.seasonal;
+
+  return compactLineItems([
+    // Open-jaw and multi-city tickets can mix domestic and international segments
+    ...[false, true].map((isInternational): LineItem => ({
+      label: { key: isInternational ? 'lineItem.flight.internationalFare' : 'lineItem.flight.domesticFare' },
+      amount: sumSegments(breakdown.segments.filter(s => s.isInternational === isInternational), s => s.fare),
+      kind: 'base'
+    })),
+    { label: { key: 'lineItem.flight.peakSeason' }, amount: seasonalFare - breakdown.fare, kind: 'seasonal' },
+    { label: { key: 'lineItem.flight.advancePurchase' }, amount: breakdown.baseFare - seasonalFare, kind: 'discount' },
+    { label: { key: 'lineItem.flight.segmentFees' }, amount: breakdown.fees.segment, kind: 'fee' },
+    { label: { key: 'lineItem.flight.securityFee' }, amount: breakdown.fees.security, kind: 'fee' },
+    { label: { key: 'lineItem.flight.facilityCharges' }, amount: breakdown.fees.facility, kind: 'fee' },
+    { label: { key: 'lineItem.flight.carrierSurcharge' }, amount: breakdown.fees.carrier, kind: 'fee' },
+    { label: { key: 'lineItem.flight.fuelSurcharge' }, amount: breakdown.fees.fuel, kind: 'fee' },
+    { label: { key: 'lineItem.flight.serviceFee' }, amount: breakdown.fees.service, kind: 'fee' },
+    { label: { key: 'lineItem.flight.customsFees' }, amount: breakdown.fees.international, kind: 'fee' },
+    { label: { key: 'lineItem.flight.airportTax' }, amount: breakdown.taxes.airport, kind: 'tax' },
+    { label: { key: 'lineItem.flight.segmentTax' }, amount: breakdown.taxes.segment, kind: 'tax' },
+    ...breakdown.taxes.departures.flatMap(departure => departure.items.map((tax): LineItem => ({
+      label: { key: 'lineItem.flight.departureTax', params: { name: tax.rule.label, airport: departure.airport } },
+      amount: tax.amount,
+      kind: 'tax'
+    })))
+  ]);
+};
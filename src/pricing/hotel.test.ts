@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { PropertyFees } from '../types';
+import { getLengthOfStayMultiplier, getSeason, priceHotelStay } from './hotel';
+import { RoomPricing } from './rooms';
+
+// Places outside the tax table pay the default hotel taxes, 19% in all
+const NOWHERE = { city: 'Nowhere', country: 'Nowhere' };
+const NEW_YORK = { city: 'New York', state: 'NY', country: 'USA' };
+
+const NO_PROPERTY_FEES: PropertyFees = {
+  resortFee: 0,
+  destinationFee: 0,
+  parking: {},
+  waivedOnAwardStays: { resortFee: false, destinationFee: false }
+};
+
+const STANDARD_ROOM: RoomPricing = { rateMultiplier: 1, extraAdults: 0 };
+
+const stay = (checkIn: string, checkOut: string, place: { city: string; state?: string; country: string } = NOWHERE,
+  fees = NO_PROPERTY_FEES, rooms = [STANDARD_ROOM], parkCar = false, extraPersonCharge = 0) => priceHotelStay({
+  basePrice: 200,
+  checkIn,
+  checkOut,
+  rooms,
+  extraPersonCharge,
+  ...place,
+  fees,
+  parkCar
+});
+
+describe('getSeason', () => {
+  it('maps months to seasons', () => {
+    expect(getSeason(6)).toBe('peak');
+    expect(getSeason(3)).toBe('shoulder');
+    expect(getSeason(0)).toBe('offPeak');
+    expect(getSeason(9)).toBe('regular');
+  });
+});
+
+describe('getLengthOfStayMultiplier', () => {
+  it('discounts 2, 4 and 7 nights', () => {
+    expect(getLengthOfStayMultiplier(1)).toBe(1);
+    expect(getLengthOfStayMultiplier(2)).toBe(0.95);
+    expect(getLengthOfStayMultiplier(4)).toBe(0.9);
+    expect(getLengthOfStayMultiplier(7)).toBe(0.85);
+  });
+});
+
+describe('priceHotelStay', () => {
+  it('prices a peak-season stay in New York with resort and destination fees and city taxes', () => {
+    // 200 × 1.4 × 0.9 × 4 weeknights
+    const breakdown = stay('2024-07-15', '2024-07-19', NEW_YORK, { ...NO_PROPERTY_FEES, resortFee: 35, destinationFee: 20 });
+
+    expect(breakdown.nights).toBe(4);
+    expect(breakdown.nightlyRates.every(night => night.season === 'peak' && !night.weekend)).toBe(true);
+    expect(breakdown.seasonalAdjustment).toBeCloseTo(320);
+    expect(breakdown.roomCost).toBeCloseTo(1008);
+    expect(breakdown.fees.resortFee).toBe(140);
+    expect(breakdown.fees.serviceFee).toBe(40);
+    expect(breakdown.fees.amenityFee).toBe(60);
+    expect(breakdown.fees.destinationFee).toBe(80);
+    expect(breakdown.fees.total).toBe(320);
+    // Sales and occupancy taxes (14.75%) plus the $3.50 unit fee per room night
+    expect(breakdown.taxes.jurisdiction).toBe('New York City');
+    expect(breakdown.taxes.total).toBeCloseTo(162.68);
+    expect(breakdown.total).toBeCloseTo(1490.68);
+  });
+
+  it('charges every room per night and applies the default taxes outside the tax table', () => {
+    const breakdown = stay('2024-10-15', '2024-10-16', NOWHERE, NO_PROPERTY_FEES, [STANDARD_ROOM, STANDARD_ROOM]);
+
+    expect(breakdown.nightlyRates[0].season).toBe('regular');
+    expect(breakdown.roomCost).toBe(400);
+    expect(breakdown.fees.total).toBe(50);
+    expect(breakdown.fees.destinationFee).toBe(0);
+    expect(breakdown.taxes.jurisdiction).toBeNull();
+    expect(breakdown.taxes.total).toBeCloseTo(76);
+    expect(breakdown.total).toBeCloseTo(526);
+  });
+
+  it('takes 15% off an off-peak week and charges more for Friday and Saturday', () => {
+    const breakdown = stay('2024-01-08', '2024-01-15');
+
+    expect(breakdown.weekendAdjustment).toBeCloseTo(2 * 160 * 0.15);
+    expect(breakdown.roomCost).toBeCloseTo((5 * 160 + 2 * 184) * 0.85);
+  });
+
+  it('scales the rate by room type and charges extra adults per night', () => {
+    const breakdown = stay('2024-10-15', '2024-10-17', NOWHERE, NO_PROPERTY_FEES,
+      [{ rateMultiplier: 1.2, extraAdults: 1 }], false, 30);
+
+    expect(breakdown.baseRoomCost).toBe(400);
+    expect(breakdown.roomTypeAdjustment).toBeCloseTo(80);
+    expect(breakdown.roomCost).toBeCloseTo(480 * 0.95);
+    expect(breakdown.fees.extraPerson).toBe(60);
+  });
+
+  it('charges self parking per night only when the guest brings a car', () => {
+    const fees = { ...NO_PROPERTY_FEES, parking: { self: 25, valet: 45 } };
+
+    expect(stay('2024-10-15', '2024-10-17', NOWHERE, fees).fees.parking).toBe(0);
+    const parked = stay('2024-10-15', '2024-10-17', NOWHERE, fees, [STANDARD_ROOM], true);
+    expect(parked.fees.parkingType).toBe('self');
+    expect(parked.fees.parking).toBe(50);
+  });
+
+  it('prices nothing for an empty date range', () => {
+    const breakdown = stay('2024-10-07', '2024-10-07');
+
+    expect(breakdown.nights).toBe(0);
+    expect(breakdown.total).toBe(0);
+  });
+});
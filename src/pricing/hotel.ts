@@ -0,0 +1,250 @@
+import { LineItem, PropertyFees } from '../types';
+import { addDays, daysBetween, eachDayOfMonth, eachNight } from '../utils/dates';
+import { compactLineItems } from './lineItems';
+import { AppliedTax, applyTaxRules, getTaxRules, sumTaxes } from './jurisdictions';
+import { RoomPricing } from './rooms';
+
+// Charged by every property; resort, destination and parking fees come from the property itself
+export const HOTEL_FEES = {
+  serviceFee: 10,
+  amenityFee: 15,
+};
+
+export type ParkingType = 'self' | 'valet';
+
+export const SEASONAL_RATES = {
+  peak: 1.4,    // 40% premium for peak season
+  shoulder: 1.2, // 20% premium for shoulder season
+  offPeak: 0.8,  // 20% discount for off-peak
+};
+
+// Friday and Saturday nights cost more than the rest of the week
+export const WEEKEND_RATE = 1.15;
+
+export type Season = 'peak' | 'shoulder' | 'offPeak' | 'regular';
+
+export interface HotelPricingInput {
+  basePrice: number;
+  checkIn: string;
+  checkOut: string;
+  rooms: RoomPricing[];
+  extraPersonCharge: number; // Per extra adult per night
+  city: string;
+  state?: string;
+  country: string;
+  fees: PropertyFees;
+  parkCar?: boolean;
+}
+
+export interface NightlyRate {
+  date: string;
+  season: Season;
+  seasonalRate: number;
+  weekend: boolean;
+  rate: number; // One room, before the length-of-stay discount, fees and taxes
+}
+
+export interface HotelPriceBreakdown {
+  nights: number;
+  nightlyRates: NightlyRate[];
+  lengthMultiplier: number;
+  baseRoomCost: number; // Every room at the base rate, before room type, seasonal, weekend and length-of-stay adjustments
+  roomTypeAdjustment: number;
+  seasonalAdjustment: number;
+  weekendAdjustment: number;
+  roomCost: number;
+  fees: {
+    resortFee: number;
+    serviceFee: number;
+    amenityFee: number;
+    destinationFee: number;
+    extraPerson: number;
+    parking: number;
+    parkingType: ParkingType | null; // Null without a car or when the property has no parking
+    total: number;
+  };
+  taxes: {
+    items: AppliedTax[];
+    jurisdiction: string | null; // Null when the default rates apply
+    total: number;
+  };
+  total: number;
+}
+
+export const getSeason = (month: number): Season => {
+  if (month >= 5 && month <= 7) return 'peak';
+  if (month >= 2 && month <= 4) return 'shoulder';
+  if (month >= 11 || month <= 1) return 'offPeak';
+  return 'regular';
+};
+
+export const getSeasonalRate = (season: Season) =>
+  season === 'regular' ? 1 : SEASONAL_RATES[season];
+
+// Multiplier on the room rate: 15% off a week or more, 10% off 4+ nights, 5% off 2+ nights
+export const getLengthOfStayMultiplier = (nights: number) =>
+  nights >= 7 ? 0.85 :
+  nights >= 4 ? 0.9 :
+  nights >= 2 ? 0.95 : 1;
+
+// ISO dates parse as UTC midnight, so the weekday and month are read in UTC
+export const isWeekendNight = (date: string) => {
+  const day = new Date(date).getUTCDay();
+  return day === 5 || day === 6;
+};
+
+export const getNightlyRate = (basePrice: number, date: string): NightlyRate => {
+  const season = getSeason(new Date(date).getUTCMonth());
+  const seasonalRate = getSeasonalRate(season);
+  const weekend = isWeekendNight(date);
+
+  return {
+    date,
+    season,
+    seasonalRate,
+    weekend,
+    rate: basePrice * seasonalRate * (weekend ? WEEKEND_RATE : 1)
+  };
+};
+
+export const getNightlyRates = (basePrice: number, checkIn: string, checkOut: string) =>
+  eachNight(checkIn, checkOut).map(date => getNightlyRate(basePrice, date));
+
+// Rate calendar for one month (0-based, as Date uses)
+export const getMonthRates = (basePrice: number, year: number, month: number) =>
+  eachDayOfMonth(year, month).map(date => getNightlyRate(basePrice, date));
+
+/**
+ * Cheapest of the candidate check-in dates for a stay of `nights` nights,
+ * by the sum of its nightly rates. Null when there are no candidates.
+ */
+export const findCheapestCheckIn = (basePrice: number, candidates: string[], nights: number) =>
+  candidates.reduce<{ date: string; total: number } | null>((best, date) => {
+    const total = getNightlyRates(basePrice, date, addDays(date, nights))
+      .reduce((sum, night) => sum + night.rate, 0);
+    return !best || total < best.total ? { date, total } : best;
+  }, null);
+
+// Self parking when the property offers it, else valet
+export const chooseParking = (parking: PropertyFees['parking']): { type: ParkingType; rate: number } | null => {
+  if (parking.self !== undefined) return { type: 'self', rate: parking.self };
+  if (parking.valet !== undefined) return { type: 'valet', rate: parking.valet };
+  return null;
+};
+
+const emptyBreakdown = (nights: number): HotelPriceBreakdown => ({
+  nights,
+  nightlyRates: [],
+  lengthMultiplier: 1,
+  baseRoomCost: 0,
+  roomTypeAdjustment: 0,
+  seasonalAdjustment: 0,
+  weekendAdjustment: 0,
+  roomCost: 0,
+  fees: { resortFee: 0, serviceFee: 0, amenityFee: 0, destinationFee: 0, extraPerson: 0, parking: 0, parkingType: null, total: 0 },
+  taxes: { items: [], jurisdiction: null, total: 0 },
+  total: 0
+});
+
+/**
+ * Prices each night of a stay at its own seasonal and weekday or weekend rate,
+ * scaled by each room's type, then applies a length-of-stay discount, the property's per-night fees, parking
+ * for one car when asked, and the taxes of the property's city, state or country.
+ */
+export const priceHotelStay = (input: HotelPricingInput): HotelPriceBreakdown => {
+  const nights = daysBetween(input.checkIn, input.checkOut);
+  if (nights <= 0 || input.rooms.length === 0) return emptyBreakdown(Math.max(0, nights));
+
+  const nightlyRates = getNightlyRates(input.basePrice, input.checkIn, input.checkOut);
+  const lengthMultiplier = getLengthOfStayMultiplier(nights);
+
+  // Every rate scales with the room type, so the rooms can be priced together
+  const roomWeight = input.rooms.reduce((sum, room) => sum + room.rateMultiplier, 0);
+  const sumNights = (amount: (night: NightlyRate) => number) =>
+    nightlyRates.reduce((sum, night) => sum + amount(night), 0) * roomWeight;
+
+  const baseRoomCost = input.basePrice * nights * input.rooms.length;
+  const roomTypeAdjustment = input.basePrice * nights * roomWeight - baseRoomCost;
+  const seasonalAdjustment = sumNights(night => input.basePrice * (night.seasonalRate - 1));
+  const weekendAdjustment = sumNights(night => night.rate - input.basePrice * night.seasonalRate);
+  const roomCost = sumNights(night => night.rate) * lengthMultiplier;
+
+  const location = { city: input.city, state: input.state, country: input.country };
+  const roomNights = nights * input.rooms.length;
+  const extraAdults = input.rooms.reduce((sum, room) => sum + room.extraAdults, 0);
+
+  const parking = input.parkCar ? chooseParking(input.fees.parking) : null;
+
+  const fees = {
+    resortFee: input.fees.resortFee * roomNights,
+    serviceFee: HOTEL_FEES.serviceFee * roomNights,
+    amenityFee: HOTEL_FEES.amenityFee * roomNights,
+    destinationFee: input.fees.destinationFee * roomNights,
+    extraPerson: input.extraPersonCharge * extraAdults * nights,
+    parking: parking ? parking.rate * nights : 0,
+    parkingType: parking?.type ?? null,
+    total: 0
+  };
+  fees.total = fees.resortFee + fees.serviceFee + fees.amenityFee + fees.destinationFee +
+               fees.extraPerson + fees.parking;
+
+  // Percentage taxes fall on the room cost, flat ones on each room night
+  const { rules, jurisdiction } = getTaxRules(location, 'hotel');
+  const items = applyTaxRules(rules, roomCost, roomNights);
+  const taxes = { items, jurisdiction, total: sumTaxes(items) };
+
+  return {
+    nights,
+    nightlyRates,
+    lengthMultiplier,
+    baseRoomCost,
+    roomTypeAdjustment,
+    seasonalAdjustment,
+    weekendAdjustment,
+    roomCost,
+    fees,
+    taxes,
+    total: roomCost + fees.total + taxes.total
+  };
+};
+
+export const hotelLineItems = (breakdown: HotelPriceBreakdown): LineItem[] => {
+  const nightlyCost = breakdown.baseRoomCost + breakdown.roomTypeAdjustment +
+                      breakdown.seasonalAdjustment + breakdown.weekendAdjustment;
+  // One night of every room at the base rate, which each season's rate scales
+  const nightlyBase = breakdown.nights ? (breakdown.baseRoomCost + breakdown.roomTypeAdjustment) / breakdown.nights : 0;
+  // A stay can cross seasons, so each adjusted season it touches gets its own row
+  const seasons = Array.from(new Set(breakdown.nightlyRates
+    .filter(night => night.seasonalRate !== 1)
+    .map(night => night.season)));
+
+  return compactLineItems([
+    { label: { key: 'lineItem.hotel.roomRate', count: breakdown.nights }, amount: breakdown.baseRoomCost, kind: 'base' },
+    { label: { key: 'lineItem.hotel.roomType' }, amount: breakdown.roomTypeAdjustment, kind: 'base' },
+    ...seasons.map((season): LineItem => ({
+      label: { key: `season.${season}` },
+      amount: breakdown.nightlyRates
+        .filter(night => night.season === season)
+        .reduce((sum, night) => sum + nightlyBase * (night.seasonalRate - 1), 0),
+      kind: 'seasonal'
+    })),
+    { label: { key: 'lineItem.hotel.weekend' }, amount: breakdown.weekendAdjustment, kind: 'seasonal' },
+    { label: { key: 'lineItem.hotel.lengthOfStay' }, amount: breakdown.roomCost - nightlyCost, kind: 'discount' },
+    { label: { key: 'lineItem.hotel.resortFee' }, amount: breakdown.fees.resortFee, kind: 'fee' },
+    { label: { key: 'lineItem.hotel.serviceFee' }, amount: breakdown.fees.serviceFee, kind: 'fee' },
+    { label: { key: 'lineItem.hotel.amenityFee' }, amount: breakdown.fees.amenityFee, kind: 'fee' },
+    { label: { key: 'lineItem.hotel.destinationFee' }, amount: breakdown.fees.destinationFee, kind: 'fee' },
+    { label: { key: 'lineItem.hotel.extraPerson' }, amount: breakdown.fees.extraPerson, kind: 'fee' },
+    { label: { key: breakdown.fees.parkingType === 'valet' ? 'lineItem.hotel.valetParking' : 'lineItem.hotel.selfParking' }, amount: breakdown.fees.parking, kind: 'fee' },
+    ...breakdown.taxes.items.map((tax): LineItem => ({ label: { key: 'lineItem.tax', params: { name: tax.rule.label } }, amount: tax.amount, kind: 'tax' }))
+  ]);
+};
+
+/**
+ * The fees a Reward stay still charges in cash: parking, plus any resort or
+ * destination fee the property doesn't waive for award bookings.
+ */
+export const getAwardStayFees = (breakdown: HotelPriceBreakdown, fees: PropertyFees) =>
+  breakdown.fees.parking +
+  (fees.waivedOnAwardStays.resortFee ? 0 : breakdown.fees.resortFee) +
+  (fees.waivedOnAwardStays.destinationFee ? 0 : breakdown.fees.destinationFee);
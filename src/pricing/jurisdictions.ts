@@ -0,0 +1,387 @@
+export type TaxCategory = 'hotel' | 'car' | 'flight';
+
+export interface TaxRule {
+  label: string;
+  rate: number;    // Share of the taxed amount, or US dollars per unit when `flat`
+  flat?: boolean;  // Per room night, rental day or departing passenger
+  scope?: 'domestic' | 'international'; // Flights only; unset applies to both
+  onBaseRental?: boolean; // Cars only: charged on the undiscounted rental instead of the rental plus fees
+}
+
+export interface AppliedTax {
+  rule: TaxRule;
+  amount: number;
+}
+
+export interface TaxLocation {
+  city?: string;
+  state?: string;
+  country: string;
+}
+
+interface Jurisdiction {
+  name: string;
+  hotel?: TaxRule[];
+  car?: TaxRule[];
+  flight?: TaxRule[]; // Charged on departures from the jurisdiction
+}
+
+// Used wherever the table has no rules for a place
+export const DEFAULT_TAX_RULES: Record<TaxCategory, TaxRule[]> = {
+  hotel: [
+    { label: 'Room tax', rate: 0.145 },
+    { label: 'Occupancy tax', rate: 0.035 },
+    { label: 'Tourism levy', rate: 0.01 }
+  ],
+  car: [
+    { label: 'Sales tax', rate: 0.0825 },
+    { label: 'Rental tax', rate: 0.115, onBaseRental: true }
+  ],
+  flight: [
+    { label: 'Domestic ticket tax', rate: 0.075, scope: 'domestic' },
+    { label: 'International ticket tax', rate: 0.18, scope: 'international' }
+  ]
+};
+
+/**
+ * Taxes by country, state (`Country/ST`) and city (`Country/City`), in US
+ * dollars where flat. Figures are approximate published rates; each category
+ * falls back from city to state to country, then to DEFAULT_TAX_RULES.
+ */
+export const JURISDICTIONS: Record<string, Jurisdiction> = {
+  // North America
+  'USA': {
+    name: 'United States',
+    hotel: [{ label: 'Sales tax', rate: 0.06 }, { label: 'Occupancy tax', rate: 0.06 }],
+    car: [{ label: 'Sales tax', rate: 0.07 }, { label: 'Rental tax', rate: 0.05 }],
+    flight: [
+      { label: 'Federal ticket tax', rate: 0.075, scope: 'domestic' },
+      { label: 'International departure tax', rate: 22.9, flat: true, scope: 'international' }
+    ]
+  },
+  'USA/NY': {
+    name: 'New York State',
+    hotel: [{ label: 'State sales tax', rate: 0.04 }, { label: 'Local sales tax', rate: 0.04 }]
+  },
+  'USA/New York': {
+    name: 'New York City',
+    hotel: [
+      { label: 'Sales tax', rate: 0.08875 },
+      { label: 'Hotel room occupancy tax', rate: 0.05875 },
+      { label: 'Hotel unit fee', rate: 3.5, flat: true }
+    ],
+    car: [
+      { label: 'Sales tax', rate: 0.08875 },
+      { label: 'Passenger car rental tax', rate: 0.06 },
+      { label: 'MCTD surcharge', rate: 0.05 }
+    ]
+  },
+  'USA/Chicago': {
+    name: 'Chicago',
+    hotel: [
+      { label: 'State hotel tax', rate: 0.06 },
+      { label: 'City hotel tax', rate: 0.045 },
+      { label: 'Cook County & ISFA taxes', rate: 0.0699 }
+    ],
+    car: [
+      { label: 'Automobile renting tax', rate: 0.05 },
+      { label: 'Personal property lease tax', rate: 0.09 },
+      { label: 'Rental car surcharge', rate: 2.75, flat: true }
+    ]
+  },
+  'USA/Los Angeles': {
+    name: 'Los Angeles',
+    hotel: [
+      { label: 'Transient occupancy tax', rate: 0.14 },
+      { label: 'Tourism marketing district assessment', rate: 0.015 }
+    ],
+    car: [{ label: 'Sales tax', rate: 0.095 }, { label: 'Tourism commission assessment', rate: 0.035 }]
+  },
+  'USA/San Francisco': {
+    name: 'San Francisco',
+    hotel: [
+      { label: 'Transient occupancy tax', rate: 0.14 },
+      { label: 'Tourism improvement district assessment', rate: 0.015 }
+    ],
+    car: [{ label: 'Sales tax', rate: 0.08625 }, { label: 'Tourism commission assessment', rate: 0.035 }]
+  },
+  'USA/Miami': {
+    name: 'Miami',
+    hotel: [{ label: 'Sales tax', rate: 0.07 }, { label: 'Tourist development tax', rate: 0.06 }],
+    car: [{ label: 'Sales tax', rate: 0.07 }, { label: 'Rental car surcharge', rate: 2, flat: true }]
+  },
+  'USA/Orlando': {
+    name: 'Orlando',
+    hotel: [{ label: 'Sales tax', rate: 0.065 }, { label: 'Tourist development tax', rate: 0.06 }],
+    car: [{ label: 'Sales tax', rate: 0.065 }, { label: 'Rental car surcharge', rate: 2, flat: true }]
+  },
+  'USA/Las Vegas': {
+    name: 'Las Vegas',
+    hotel: [{ label: 'Room tax', rate: 0.1338 }],
+    car: [
+      { label: 'Sales tax', rate: 0.08375 },
+      { label: 'Short-term lessor tax', rate: 0.1 },
+      { label: 'Governmental services tax', rate: 0.02 }
+    ]
+  },
+  'USA/Boston': {
+    name: 'Boston',
+    hotel: [
+      { label: 'State room occupancy excise', rate: 0.057 },
+      { label: 'Local room occupancy tax', rate: 0.065 },
+      { label: 'Convention center financing fee', rate: 0.0275 }
+    ],
+    car: [{ label: 'Sales tax', rate: 0.0625 }]
+  },
+  'Canada': {
+    name: 'Canada',
+    hotel: [{ label: 'GST', rate: 0.05 }],
+    car: [{ label: 'GST', rate: 0.05 }],
+    flight: [
+      { label: 'GST on airfare', rate: 0.05, scope: 'domestic' },
+      { label: 'Air travellers security charge', rate: 9.95, flat: true }
+    ]
+  },
+  'Canada/Toronto': {
+    name: 'Toronto',
+    hotel: [{ label: 'HST', rate: 0.13 }, { label: 'Municipal accommodation tax', rate: 0.06 }],
+    car: [{ label: 'HST', rate: 0.13 }]
+  },
+  'Canada/Vancouver': {
+    name: 'Vancouver',
+    hotel: [{ label: 'GST', rate: 0.05 }, { label: 'PST', rate: 0.08 }, { label: 'Municipal & regional district tax', rate: 0.03 }]
+  },
+  'Canada/Montreal': {
+    name: 'Montreal',
+    hotel: [{ label: 'GST', rate: 0.05 }, { label: 'QST', rate: 0.09975 }, { label: 'Lodging tax', rate: 0.035 }]
+  },
+  'Mexico': {
+    name: 'Mexico',
+    hotel: [{ label: 'IVA', rate: 0.16 }, { label: 'Lodging tax', rate: 0.035 }],
+    car: [{ label: 'IVA', rate: 0.16 }]
+  },
+  'Mexico/Mexico City': {
+    name: 'Mexico City',
+    hotel: [{ label: 'IVA', rate: 0.16 }, { label: 'Lodging tax', rate: 0.05 }]
+  },
+
+  // Europe
+  'France': {
+    name: 'France',
+    hotel: [{ label: 'VAT', rate: 0.1 }, { label: 'Taxe de séjour', rate: 3.5, flat: true }],
+    car: [{ label: 'VAT', rate: 0.2 }],
+    flight: [
+      { label: 'VAT on domestic airfare', rate: 0.1, scope: 'domestic' },
+      { label: 'Solidarity & civil aviation taxes', rate: 12, flat: true }
+    ]
+  },
+  'France/Paris': {
+    name: 'Paris',
+    hotel: [{ label: 'VAT', rate: 0.1 }, { label: 'Taxe de séjour', rate: 6.5, flat: true }]
+  },
+  'UK': {
+    name: 'United Kingdom',
+    hotel: [{ label: 'VAT', rate: 0.2 }],
+    car: [{ label: 'VAT', rate: 0.2 }],
+    flight: [
+      { label: 'Air Passenger Duty', rate: 17, flat: true, scope: 'domestic' },
+      { label: 'Air Passenger Duty', rate: 60, flat: true, scope: 'international' }
+    ]
+  },
+  'Germany': {
+    name: 'Germany',
+    hotel: [{ label: 'VAT', rate: 0.07 }],
+    car: [{ label: 'VAT', rate: 0.19 }],
+    flight: [{ label: 'Aviation tax', rate: 17, flat: true }]
+  },
+  'Germany/Berlin': {
+    name: 'Berlin',
+    hotel: [{ label: 'VAT', rate: 0.07 }, { label: 'City tax', rate: 0.075 }]
+  },
+  'Italy': {
+    name: 'Italy',
+    hotel: [{ label: 'VAT', rate: 0.1 }],
+    car: [{ label: 'VAT', rate: 0.22 }],
+    flight: [{ label: 'Municipal boarding tax', rate: 7.5, flat: true }]
+  },
+  'Italy/Rome': {
+    name: 'Rome',
+    hotel: [{ label: 'VAT', rate: 0.1 }, { label: 'Tassa di soggiorno', rate: 8, flat: true }]
+  },
+  'Italy/Milan': {
+    name: 'Milan',
+    hotel: [{ label: 'VAT', rate: 0.1 }, { label: 'Imposta di soggiorno', rate: 6, flat: true }]
+  },
+  'Spain': {
+    name: 'Spain',
+    hotel: [{ label: 'VAT', rate: 0.1 }],
+    car: [{ label: 'VAT', rate: 0.21 }]
+  },
+  'Spain/Barcelona': {
+    name: 'Barcelona',
+    hotel: [{ label: 'VAT', rate: 0.1 }, { label: 'Tourist tax', rate: 6, flat: true }]
+  },
+  'Netherlands': {
+    name: 'Netherlands',
+    hotel: [{ label: 'VAT', rate: 0.09 }],
+    car: [{ label: 'VAT', rate: 0.21 }],
+    flight: [{ label: 'Air passenger tax', rate: 32, flat: true }]
+  },
+  'Netherlands/Amsterdam': {
+    name: 'Amsterdam',
+    hotel: [{ label: 'VAT', rate: 0.09 }, { label: 'Tourist tax', rate: 0.125 }]
+  },
+  'Austria': {
+    name: 'Austria',
+    hotel: [{ label: 'VAT', rate: 0.1 }],
+    car: [{ label: 'VAT', rate: 0.2 }],
+    flight: [{ label: 'Air transport levy', rate: 13, flat: true }]
+  },
+  'Austria/Vienna': {
+    name: 'Vienna',
+    hotel: [{ label: 'VAT', rate: 0.1 }, { label: 'Accommodation tax', rate: 0.032 }]
+  },
+
+  // Asia
+  'Japan': {
+    name: 'Japan',
+    hotel: [{ label: 'Consumption tax', rate: 0.1 }],
+    car: [{ label: 'Consumption tax', rate: 0.1 }],
+    flight: [
+      { label: 'Consumption tax', rate: 0.1, scope: 'domestic' },
+      { label: 'International tourist tax', rate: 7, flat: true, scope: 'international' }
+    ]
+  },
+  'Japan/Tokyo': {
+    name: 'Tokyo',
+    hotel: [{ label: 'Consumption tax', rate: 0.1 }, { label: 'Accommodation tax', rate: 1.35, flat: true }]
+  },
+  'Japan/Osaka': {
+    name: 'Osaka',
+    hotel: [{ label: 'Consumption tax', rate: 0.1 }, { label: 'Accommodation tax', rate: 2, flat: true }]
+  },
+  'Singapore': {
+    name: 'Singapore',
+    hotel: [{ label: 'GST', rate: 0.09 }],
+    car: [{ label: 'GST', rate: 0.09 }],
+    flight: [{ label: 'Passenger service & security fees', rate: 45, flat: true }]
+  },
+  'China': {
+    name: 'China',
+    hotel: [{ label: 'VAT', rate: 0.06 }],
+    car: [{ label: 'VAT', rate: 0.13 }],
+    flight: [{ label: 'Civil aviation development fund', rate: 12, flat: true }]
+  },
+  // Hong Kong charges no hotel or sales tax
+  'China/Hong Kong': {
+    name: 'Hong Kong',
+    hotel: [],
+    car: [],
+    flight: [{ label: 'Air passenger departure tax', rate: 15, flat: true }]
+  },
+  'Thailand': {
+    name: 'Thailand',
+    hotel: [{ label: 'VAT', rate: 0.07 }],
+    car: [{ label: 'VAT', rate: 0.07 }],
+    flight: [{ label: 'Passenger service charge', rate: 20, flat: true, scope: 'international' }]
+  },
+  'South Korea': {
+    name: 'South Korea',
+    hotel: [{ label: 'VAT', rate: 0.1 }],
+    car: [{ label: 'VAT', rate: 0.1 }],
+    flight: [{ label: 'Departure tax', rate: 8, flat: true, scope: 'international' }]
+  },
+  'Taiwan': {
+    name: 'Taiwan',
+    hotel: [{ label: 'Business tax', rate: 0.05 }],
+    car: [{ label: 'Business tax', rate: 0.05 }],
+    flight: [{ label: 'Airport service charge', rate: 16, flat: true, scope: 'international' }]
+  },
+
+  // Middle East
+  'UAE': {
+    name: 'United Arab Emirates',
+    hotel: [{ label: 'VAT', rate: 0.05 }],
+    car: [{ label: 'VAT', rate: 0.05 }],
+    flight: [{ label: 'Passenger facility charge', rate: 20, flat: true }]
+  },
+  'UAE/Dubai': {
+    name: 'Dubai',
+    hotel: [
+      { label: 'VAT', rate: 0.05 },
+      { label: 'Municipality fee', rate: 0.07 },
+      { label: 'Tourism Dirham', rate: 4.1, flat: true }
+    ]
+  },
+  'UAE/Abu Dhabi': {
+    name: 'Abu Dhabi',
+    hotel: [
+      { label: 'VAT', rate: 0.05 },
+      { label: 'Municipality fee', rate: 0.04 },
+      { label: 'Tourism fee', rate: 0.06 },
+      { label: 'Tourism fee per night', rate: 4.1, flat: true }
+    ]
+  },
+  'Saudi Arabia': {
+    name: 'Saudi Arabia',
+    hotel: [{ label: 'VAT', rate: 0.15 }, { label: 'Municipality fee', rate: 0.025 }],
+    car: [{ label: 'VAT', rate: 0.15 }]
+  },
+
+  // Oceania
+  'Australia': {
+    name: 'Australia',
+    hotel: [{ label: 'GST', rate: 0.1 }],
+    car: [{ label: 'GST', rate: 0.1 }],
+    flight: [
+      { label: 'GST on airfare', rate: 0.1, scope: 'domestic' },
+      { label: 'Passenger movement charge', rate: 47, flat: true, scope: 'international' }
+    ]
+  },
+  'New Zealand': {
+    name: 'New Zealand',
+    hotel: [{ label: 'GST', rate: 0.15 }],
+    car: [{ label: 'GST', rate: 0.15 }],
+    flight: [{ label: 'GST on airfare', rate: 0.15, scope: 'domestic' }]
+  }
+};
+
+export interface ResolvedTaxRules {
+  rules: TaxRule[];
+  jurisdiction: string | null; // Null when no data was found and the defaults apply
+}
+
+// Most specific first: city, then state, then country
+const findJurisdictions = (location?: TaxLocation): Jurisdiction[] => {
+  if (!location) return [];
+  return [
+    location.city && JURISDICTIONS[`${location.country}/${location.city}`],
+    location.state && JURISDICTIONS[`${location.country}/${location.state}`],
+    JURISDICTIONS[location.country]
+  ].filter((entry): entry is Jurisdiction => Boolean(entry));
+};
+
+export const getTaxRules = (location: TaxLocation | undefined, category: TaxCategory): ResolvedTaxRules => {
+  const match = findJurisdictions(location).find(entry => entry[category] !== undefined);
+  return match
+    ? { rules: match[category] || [], jurisdiction: match.name }
+    : { rules: DEFAULT_TAX_RULES[category], jurisdiction: null };
+};
+
+/**
+ * Percentage rules are charged on `amount` and flat rules once per unit
+ * (room night, rental day or passenger). Rules scoped to the other kind of
+ * flight are skipped.
+ */
+export const applyTaxRules = (
+  rules: TaxRule[],
+  amount: number,
+  units: number,
+  scope?: 'domestic' | 'international'
+): AppliedTax[] =>
+  rules
+    .filter(rule => !rule.scope || rule.scope === scope)
+    .map(rule => ({ rule, amount: rule.flat ? rule.rate * units : amount * rule.rate }));
+
+export const sumTaxes = (taxes: AppliedTax[]) =>
+  taxes.reduce((sum, tax) => sum + tax.amount, 0);
@@ -0,0 +1,46 @@
+import { CategoryCost, CostCategory, LineItem, LineItemKind } from '../types';
+import { POINTS_CATEGORIES } from '../points/wallet';
+
+// Every category that adds to the trip total, in display order
+export const COST_CATEGORIES: CostCategory[] = [...POINTS_CATEGORIES, 'rideShare'];
+
+export const emptyCost = (): CategoryCost => ({
+  cashPrice: 0,
+  pointsSavings: 0,
+  pointsUsed: 0,
+  redeemableValue: 0,
+  pointsEarned: 0,
+  lineItems: [],
+  earnings: []
+});
+
+// One category's costs across several stops, as a single category
+export const combineCosts = (costs: CategoryCost[]): CategoryCost =>
+  costs.reduce((total, cost) => ({
+    cashPrice: total.cashPrice + cost.cashPrice,
+    pointsSavings: total.pointsSavings + cost.pointsSavings,
+    pointsUsed: total.pointsUsed + cost.pointsUsed,
+    redeemableValue: total.redeemableValue + cost.redeemableValue,
+    pointsEarned: total.pointsEarned + cost.pointsEarned,
+    lineItems: [...total.lineItems, ...cost.lineItems],
+    earnings: [...total.earnings, ...cost.earnings]
+  }), emptyCost());
+
+// Drops zero-amount rows so breakdowns only list charges that apply
+export const compactLineItems = (items: LineItem[]) =>
+  items.filter(item => Math.abs(item.amount) >= 0.005);
+
+export const sumLineItems = (items: LineItem[]) =>
+  items.reduce((sum, item) => sum + item.amount, 0);
+
+export const pointsLineItem = (pointsUsed: number, savings: number): LineItem => ({
+  label: { key: 'lineItem.points', params: { points: pointsUsed } },
+  amount: -savings,
+  kind: 'points'
+});
+
+export const totalsByKind = (items: LineItem[]) =>
+  items.reduce((acc, item) => {
+    acc[item.kind] = (acc[item.kind] || 0) + item.amount;
+    return acc;
+  }, {} as Partial<Record<LineItemKind, number>>);
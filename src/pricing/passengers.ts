@@ -0,0 +1,53 @@
+import { PassengerCounts, PassengerType } from '../types';
+
+export const PASSENGER_TYPES: PassengerType[] = ['adult', 'senior', 'child', 'infantInSeat', 'infantInLap'];
+
+// Seats one booking can hold; lap infants don't take one
+export const MAX_SEATED_PASSENGERS = 9;
+
+export interface PassengerFareRule {
+  fareShare: number;    // Share of the adult fare
+  seat: boolean;        // Ticketed seat, which pays the service fee and per-passenger taxes
+  security: boolean;    // TSA security fee
+  immigration: boolean; // Immigration fee on international segments
+  customs: boolean;     // Customs fee on international segments
+}
+
+export const PASSENGER_FARE_RULES: Record<PassengerType, PassengerFareRule> = {
+  adult: { fareShare: 1, seat: true, security: true, immigration: true, customs: true },
+  senior: { fareShare: 0.9, seat: true, security: true, immigration: true, customs: true },
+  child: { fareShare: 0.75, seat: true, security: true, immigration: true, customs: true },
+  infantInSeat: { fareShare: 0.5, seat: true, security: true, immigration: true, customs: false },
+  infantInLap: { fareShare: 0.1, seat: false, security: false, immigration: true, customs: false }
+};
+
+export type PassengerIssue = 'noAdult' | 'lapInfants' | 'tooManySeats';
+
+export const createPassengers = (): PassengerCounts => ({ adult: 1, senior: 0, child: 0, infantInSeat: 0, infantInLap: 0 });
+
+// Travelers whose fare rule passes `applies`; everyone by default
+export const countPassengers = (passengers: PassengerCounts, applies: (rule: PassengerFareRule) => boolean = () => true) =>
+  PASSENGER_TYPES.reduce((sum, type) => sum + (applies(PASSENGER_FARE_RULES[type]) ? passengers[type] : 0), 0);
+
+// The group's fare as a number of adult fares
+export const countAdultFares = (passengers: PassengerCounts) =>
+  PASSENGER_TYPES.reduce((sum, type) => sum + passengers[type] * PASSENGER_FARE_RULES[type].fareShare, 0);
+
+// Null when the group can fly together: an adult or senior aboard, one lap infant each, and seats to spare
+export const checkPassengers = (passengers: PassengerCounts): PassengerIssue | null => {
+  const grownUps = passengers.adult + passengers.senior;
+  if (grownUps < 1) return 'noAdult';
+  if (passengers.infantInLap > grownUps) return 'lapInfants';
+  if (countPassengers(passengers, rule => rule.seat) > MAX_SEATED_PASSENGERS) return 'tooManySeats';
+  return null;
+};
+
+// Hotels count seniors as adults and infants as children
+export const toHotelGuests = (passengers: PassengerCounts) => ({
+  adults: passengers.adult + passengers.senior,
+  children: passengers.child + passengers.infantInSeat + passengers.infantInLap
+});
+
+// Infants get into shows and tours free
+export const countEventTickets = (passengers: PassengerCounts) =>
+  passengers.adult + passengers.senior + passengers.child;
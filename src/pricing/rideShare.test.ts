@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { rideShareTrips } from '../data/travelData';
+import { priceRideShare } from './rideShare';
+
+describe('priceRideShare', () => {
+  it('adds distance and time to the base fare, then applies the surge to every ride', () => {
+    const breakdown = priceRideShare({ service: rideShareTrips[0], miles: 10, minutes: 20, rides: 2, timeOfDay: 'peak' });
+
+    // 5 + 10 × 1.50 + 20 × 0.25
+    expect(breakdown.perRide).toBe(25);
+    expect(breakdown.surgeMultiplier).toBe(1.5);
+    expect(breakdown.total).toBe(75);
+  });
+});
@@ -0,0 +1,83 @@
+import { Airport, FlightTripType, LineItem } from '../types';
+import { rideShareTrips } from '../data/travelData';
+import { HiltonProperty } from '../data/hiltonProperties';
+import { compactLineItems } from './lineItems';
+
+export type RideShareService = typeof rideShareTrips[number];
+export type RideTimeOfDay = keyof RideShareService['surgeMultipliers'];
+
+export interface RideSharePricingInput {
+  service: RideShareService;
+  miles: number;
+  minutes: number;
+  rides: number;
+  timeOfDay: RideTimeOfDay;
+}
+
+export interface RideSharePriceBreakdown {
+  perRide: number;       // Before surge
+  surgeMultiplier: number;
+  total: number;
+}
+
+// Typical airport-to-hotel trips; properties have no coordinates, so the distance can't be measured
+export const AIRPORT_TRANSFER_ESTIMATES = {
+  airportHotel: { miles: 3, minutes: 10 }, // Properties named for the airport
+  sameCity: { miles: 15, minutes: 35 }
+};
+
+export interface AirportTransferSuggestion {
+  airport: Airport;
+  property: HiltonProperty;
+  estimatedMiles: number;
+  estimatedMinutes: number;
+  numberOfRides: number;
+}
+
+export const priceRideShare = (input: RideSharePricingInput): RideSharePriceBreakdown => {
+  const perRide = input.service.basePrice +
+                  (input.service.pricePerMile * input.miles) +
+                  (input.service.pricePerMinute * input.minutes);
+
+  const surgeMultiplier = input.service.surgeMultipliers[input.timeOfDay];
+
+  return {
+    perRide,
+    surgeMultiplier,
+    total: Math.round(perRide * surgeMultiplier * input.rides * 100) / 100
+  };
+};
+
+/**
+ * Suggests rides between the arrival airport and the hotel: one each way on a
+ * round trip. Returns null when the airport does not serve the hotel's city.
+ */
+export const suggestAirportTransfer = (
+  airport: Airport | undefined,
+  property: HiltonProperty | undefined,
+  tripType: FlightTripType
+): AirportTransferSuggestion | null => {
+  if (!airport || !property) return null;
+  if (airport.city !== property.city || airport.country !== property.country) return null;
+
+  const estimate = /airport/i.test(property.name)
+    ? AIRPORT_TRANSFER_ESTIMATES.airportHotel
+    : AIRPORT_TRANSFER_ESTIMATES.sameCity;
+
+  return {
+    airport,
+    property,
+    estimatedMiles: estimate.miles,
+    estimatedMinutes: estimate.minutes,
+    numberOfRides: tripType === 'roundTrip' ? 2 : 1
+  };
+};
+
+export const rideShareLineItems = (breakdown: RideSharePriceBreakdown, rides: number): LineItem[] => {
+  const baseTotal = breakdown.perRide * rides;
+
+  return compactLineItems([
+    { label: { key: 'lineItem.rideShare.rides', count: rides }, amount: baseTotal, kind: 'base' },
+    { label: { key: 'lineItem.rideShare.surge' }, amount: breakdown.total - baseTotal, kind: 'seasonal' }
+  ]);
+};
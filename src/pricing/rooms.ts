@@ -0,0 +1,116 @@
+import { HotelRoom, RoomTypeId } from '../types';
+import { hiltonBrands } from '../data/hiltonBrands';
+
+export const ROOM_TYPE_IDS: RoomTypeId[] = ['king', 'doubleQueen', 'executive', 'suite'];
+
+// The most rooms a trip books at one property
+export const MAX_ROOMS = 20;
+
+export interface RoomType {
+  id: RoomTypeId;
+  rateMultiplier: number; // Applied to the property's base rate, which is for a standard king
+  maxOccupancy: number;   // Adults and children together
+}
+
+export interface RoomCatalog {
+  types: RoomType[];        // Cheapest first
+  includedAdults: number;   // Adults covered by the room rate
+  extraPersonCharge: number; // Per extra adult per night; children stay free
+}
+
+export const ROOM_CATALOGS: Record<string, RoomCatalog> = {
+  'Luxury': {
+    types: [
+      { id: 'king', rateMultiplier: 1, maxOccupancy: 3 },
+      { id: 'doubleQueen', rateMultiplier: 1.05, maxOccupancy: 4 },
+      { id: 'executive', rateMultiplier: 1.4, maxOccupancy: 3 },
+      { id: 'suite', rateMultiplier: 2.2, maxOccupancy: 5 }
+    ],
+    includedAdults: 2,
+    extraPersonCharge: 50
+  },
+  'Full Service': {
+    types: [
+      { id: 'king', rateMultiplier: 1, maxOccupancy: 3 },
+      { id: 'doubleQueen', rateMultiplier: 1.05, maxOccupancy: 4 },
+      { id: 'executive', rateMultiplier: 1.3, maxOccupancy: 3 },
+      { id: 'suite', rateMultiplier: 1.8, maxOccupancy: 5 }
+    ],
+    includedAdults: 2,
+    extraPersonCharge: 30
+  },
+  'Lifestyle': {
+    types: [
+      { id: 'king', rateMultiplier: 1, maxOccupancy: 2 },
+      { id: 'doubleQueen', rateMultiplier: 1.05, maxOccupancy: 4 },
+      { id: 'suite', rateMultiplier: 1.6, maxOccupancy: 4 }
+    ],
+    includedAdults: 2,
+    extraPersonCharge: 25
+  },
+  'All Suites': {
+    types: [
+      { id: 'king', rateMultiplier: 1, maxOccupancy: 4 },
+      { id: 'doubleQueen', rateMultiplier: 1.1, maxOccupancy: 6 },
+      { id: 'suite', rateMultiplier: 1.5, maxOccupancy: 6 }
+    ],
+    includedAdults: 2,
+    extraPersonCharge: 20
+  },
+  'Focused Service': {
+    types: [
+      { id: 'king', rateMultiplier: 1, maxOccupancy: 3 },
+      { id: 'doubleQueen', rateMultiplier: 1.05, maxOccupancy: 4 }
+    ],
+    includedAdults: 2,
+    extraPersonCharge: 15
+  },
+  'Timeshare': {
+    types: [
+      { id: 'king', rateMultiplier: 1, maxOccupancy: 4 },
+      { id: 'suite', rateMultiplier: 1.5, maxOccupancy: 8 }
+    ],
+    includedAdults: 4,
+    extraPersonCharge: 0
+  }
+};
+
+export interface RoomPricing {
+  rateMultiplier: number;
+  extraAdults: number; // Adults beyond those the rate includes
+}
+
+export const createRoom = (): HotelRoom => ({ type: 'king', adults: 1, children: 0 });
+
+// Brands outside the table are priced like full-service hotels
+export const getRoomCatalog = (brandId: string): RoomCatalog => {
+  const category = hiltonBrands.find(b => b.id === brandId)?.category;
+  return (category && ROOM_CATALOGS[category]) || ROOM_CATALOGS['Full Service'];
+};
+
+// A room type the property doesn't sell is booked as its cheapest room instead
+export const getRoomType = (catalog: RoomCatalog, id: RoomTypeId): RoomType =>
+  catalog.types.find(type => type.id === id) || catalog.types[0];
+
+export const exceedsOccupancy = (catalog: RoomCatalog, room: HotelRoom) =>
+  room.adults + room.children > getRoomType(catalog, room.type).maxOccupancy;
+
+export const toRoomPricing = (catalog: RoomCatalog, room: HotelRoom): RoomPricing => ({
+  rateMultiplier: getRoomType(catalog, room.type).rateMultiplier,
+  extraAdults: Math.max(0, room.adults - catalog.includedAdults)
+});
+
+const share = (total: number, parts: number, index: number) =>
+  Math.floor(total / parts) + (index < total % parts ? 1 : 0);
+
+// Spreads guests as evenly as the booked rooms allow, keeping an adult in every room
+export const spreadGuests = (rooms: HotelRoom[], guests: { adults: number; children: number }): HotelRoom[] =>
+  rooms.map((room, index) => ({
+    ...room,
+    adults: Math.max(1, share(guests.adults, rooms.length, index)),
+    children: share(guests.children, rooms.length, index)
+  }));
+
+export const countGuests = (rooms: HotelRoom[]) =>
+  rooms.reduce((sum, room) => ({ adults: sum.adults + room.adults, children: sum.children + room.children }),
+    { adults: 0, children: 0 });
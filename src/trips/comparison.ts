@@ -0,0 +1,71 @@
+import { CategoryCost, CostCategory, TripState } from '../types';
+import { COST_CATEGORIES } from '../pricing/lineItems';
+
+export const MIN_SCENARIOS = 2;
+export const MAX_SCENARIOS = 4;
+
+export interface Scenario {
+  id: string;
+  option: number; // Letter of its default name, counting from A = 0
+  name: string;
+  trip: TripState;
+  costs: Record<CostCategory, CategoryCost>;
+}
+
+export interface ScenarioTotals {
+  cash: number;
+  savings: number;
+  net: number;
+}
+
+export interface ScenarioComparisonResult {
+  totals: Record<string, ScenarioTotals>;
+  // Difference from the first scenario, per category and for the whole trip
+  deltas: Record<string, Record<CostCategory | 'total', { cash: number; net: number }>>;
+  cheapestCash: string | null;
+  cheapestNet: string | null;
+}
+
+export const summarizeCosts = (costs: Record<CostCategory, CategoryCost>): ScenarioTotals => {
+  const cash = COST_CATEGORIES.reduce((sum, category) => sum + costs[category].cashPrice, 0);
+  const savings = COST_CATEGORIES.reduce((sum, category) => sum + costs[category].pointsSavings, 0);
+  return { cash, savings, net: cash - savings };
+};
+
+const findCheapest = (scenarios: Scenario[], totals: Record<string, ScenarioTotals>, key: keyof ScenarioTotals) => {
+  const priced = scenarios.filter(s => totals[s.id].cash > 0);
+  if (priced.length < MIN_SCENARIOS) return null;
+  return priced.reduce((best, s) => totals[s.id][key] < totals[best.id][key] ? s : best).id;
+};
+
+export const compareScenarios = (scenarios: Scenario[]): ScenarioComparisonResult => {
+  const totals: Record<string, ScenarioTotals> = {};
+  scenarios.forEach(s => { totals[s.id] = summarizeCosts(s.costs); });
+
+  const baseline = scenarios[0];
+  const deltas: ScenarioComparisonResult['deltas'] = {};
+
+  scenarios.forEach(s => {
+    const delta = {} as ScenarioComparisonResult['deltas'][string];
+    COST_CATEGORIES.forEach(category => {
+      const cost = s.costs[category];
+      const base = baseline.costs[category];
+      delta[category] = {
+        cash: cost.cashPrice - base.cashPrice,
+        net: (cost.cashPrice - cost.pointsSavings) - (base.cashPrice - base.pointsSavings)
+      };
+    });
+    delta.total = {
+      cash: totals[s.id].cash - totals[baseline.id].cash,
+      net: totals[s.id].net - totals[baseline.id].net
+    };
+    deltas[s.id] = delta;
+  });
+
+  return {
+    totals,
+    deltas,
+    cheapestCash: findCheapest(scenarios, totals, 'cash'),
+    cheapestNet: findCheapest(scenarios, totals, 'net')
+  };
+};
@@ -0,0 +1,101 @@
+import { FlightDetails, HotelDetails } from '../types';
+import { expandedHiltonProperties } from '../data/hiltonProperties';
+import { priceHotelStay } from '../pricing/hotel';
+import { priceFlight, resolveFlightSegments } from '../pricing/flight';
+import { getRoomCatalog, toRoomPricing } from '../pricing/rooms';
+import { addDays } from '../utils/dates';
+
+// Days either side of the chosen dates a flexible search scans
+export const FLEXIBLE_WINDOW_DAYS = 14;
+
+export const FLEXIBLE_RESULTS = 5;
+
+export interface FlexibleDateOption {
+  shift: number; // Days moved from the chosen dates
+  checkIn: string;
+  checkOut: string;
+  departDate: string;
+  returnDate: string;
+  hotelCost: number;
+  flightCost: number;
+  total: number;
+}
+
+export interface FlexibleDateSearch {
+  current: FlexibleDateOption;
+  options: FlexibleDateOption[]; // Cheapest first, at most FLEXIBLE_RESULTS
+}
+
+const shiftDate = (date: string, days: number) => date ? addDays(date, days) : date;
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Moves the outbound, return and any multi-city segments together
+export const shiftFlightDates = (flight: FlightDetails, shift: number): FlightDetails => ({
+  ...flight,
+  departDate: shiftDate(flight.departDate, shift),
+  returnDate: shiftDate(flight.returnDate, shift),
+  segments: flight.segments.map(segment => ({ ...segment, date: shiftDate(segment.date, shift) }))
+});
+
+/**
+ * Prices the hotel and flight with every date moved by `shift` days, so the
+ * stay length and the gap between flights and hotel never change. Parts of
+ * the trip that don't depend on dates are left out of the total.
+ */
+export const priceShiftedDates = (hotel: HotelDetails, flight: FlightDetails, shift: number, today: Date): FlexibleDateOption => {
+  const checkIn = shiftDate(hotel.checkIn, shift);
+  const checkOut = shiftDate(hotel.checkOut, shift);
+  const shiftedFlight = shiftFlightDates(flight, shift);
+  const { departDate, returnDate } = shiftedFlight;
+
+  const property = expandedHiltonProperties.find(p => p.id === hotel.property);
+  const roomCatalog = property && getRoomCatalog(property.brandId);
+  const hotelCost = property && roomCatalog ? priceHotelStay({
+    basePrice: property.basePrice,
+    checkIn,
+    checkOut,
+    rooms: hotel.rooms.map(room => toRoomPricing(roomCatalog, room)),
+    extraPersonCharge: roomCatalog.extraPersonCharge,
+    city: property.city,
+    state: property.state,
+    country: property.country,
+    fees: property.fees,
+    parkCar: hotel.parkCar
+  }).total : 0;
+
+  const segments = resolveFlightSegments(shiftedFlight);
+  const flightCost = segments && departDate ? priceFlight({
+    segments,
+    passengers: flight.passengers,
+    today
+  }).total : 0;
+
+  return { shift, checkIn, checkOut, departDate, returnDate, hotelCost, flightCost, total: hotelCost + flightCost };
+};
+
+// Null until the trip has a priced hotel stay or a dated flight to move
+export const searchFlexibleDates = (
+  hotel: HotelDetails,
+  flight: FlightDetails,
+  { windowDays = FLEXIBLE_WINDOW_DAYS, today = new Date() }: { windowDays?: number; today?: Date } = {}
+): FlexibleDateSearch | null => {
+  const current = priceShiftedDates(hotel, flight, 0, today);
+  if (current.total <= 0) return null;
+
+  // Never suggest travelling before today
+  const earliest = toIsoDate(today);
+  const options: FlexibleDateOption[] = [];
+  for (let shift = -windowDays; shift <= windowDays; shift++) {
+    const option = shift === 0 ? current : priceShiftedDates(hotel, flight, shift, today);
+    const starts = [option.checkIn, option.departDate].filter(Boolean);
+    if (starts.every(date => date >= earliest)) options.push(option);
+  }
+
+  return {
+    current,
+    options: options
+      .sort((a, b) => a.total - b.total || Math.abs(a.shift) - Math.abs(b.shift))
+      .slice(0, FLEXIBLE_RESULTS)
+  };
+};
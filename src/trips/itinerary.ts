@@ -0,0 +1,113 @@
+import { CarRentalDetails, FlightDetails, HotelDetails, ItineraryLeg, TripState } from '../types';
+import { expandedHiltonProperties } from '../data/hiltonProperties';
+import { majorAirports } from '../data/travelData';
+import { TaxLocation } from '../pricing/jurisdictions';
+import { createRoom } from '../pricing/rooms';
+import { daysBetween } from '../utils/dates';
+import { createId } from '../utils/storage';
+
+// Stops a trip can hold after the first
+export const MAX_LEGS = 9;
+
+// The parts of a trip every stop has its own of
+export type StopCategory = 'hotel' | 'flight' | 'carRental';
+
+export const STOP_CATEGORIES: StopCategory[] = ['hotel', 'flight', 'carRental'];
+
+export interface ItineraryStop {
+  hotel: HotelDetails;
+  flight: FlightDetails;
+  carRental: CarRentalDetails | null;
+}
+
+export type ItineraryIssueKind = 'gap' | 'overlap' | 'flightDate' | 'disconnected';
+
+export interface ItineraryIssue {
+  kind: ItineraryIssueKind;
+  leg: number;    // Index into the stops, 1 for the second stop
+  nights: number; // Length of a gap or overlap; 0 otherwise
+}
+
+// The first stop lives on the trip itself, so every stop can be read the same way
+export const getStops = (trip: Pick<TripState, 'hotel' | 'flight' | 'carRental' | 'legs'>): ItineraryStop[] => [
+  { hotel: trip.hotel, flight: trip.flight, carRental: trip.carRental },
+  ...trip.legs
+];
+
+// The airport a stop flies into, the last segment's for a multi-city ticket, else one serving its hotel's city
+export const getStopAirport = (stop: ItineraryStop) => {
+  const { flight } = stop;
+  const lastSegment = flight.tripType === 'multiCity' ? flight.segments[flight.segments.length - 1] : undefined;
+  const arrival = lastSegment ? lastSegment.destination : flight.destination;
+  if (arrival) return arrival;
+  const city = expandedHiltonProperties.find(p => p.id === stop.hotel.property)?.city;
+  return majorAirports.find(a => a.city === city)?.code || '';
+};
+
+/**
+ * A new stop continuing from the last one: a one-way flight on its check-out
+ * date, with the same travellers, class and rooms.
+ */
+export const createLeg = (previous: ItineraryStop): ItineraryLeg => ({
+  id: createId(),
+  hotel: {
+    ...previous.hotel,
+    brand: '',
+    property: '',
+    checkIn: previous.hotel.checkOut,
+    checkOut: '',
+    rooms: previous.hotel.rooms.length ? previous.hotel.rooms : [createRoom()],
+    rateType: 'cash',
+    pointsAndMoney: false
+  },
+  flight: {
+    ...previous.flight,
+    origin: getStopAirport(previous),
+    destination: '',
+    departDate: previous.hotel.checkOut,
+    returnDate: '',
+    tripType: 'oneWay',
+    segments: []
+  },
+  carRental: null
+});
+
+// Cars are taxed where they're picked up: at the hotel, else the arrival airport
+export const getPickUpLocation = (hotel: HotelDetails, flight: FlightDetails): TaxLocation | undefined => {
+  const property = expandedHiltonProperties.find(p => p.id === hotel.property);
+  if (property) return { city: property.city, state: property.state, country: property.country };
+  const airport = majorAirports.find(a => a.code === flight.destination);
+  return airport ? { city: airport.city, country: airport.country } : undefined;
+};
+
+/**
+ * Checks each stop against the one before it: nights left without a hotel,
+ * nights booked twice, a connecting flight outside the change-over window,
+ * and a flight that doesn't leave from where the previous stop arrived.
+ * Stops without dates or airports are skipped until they're filled in.
+ */
+export const checkItinerary = (stops: ItineraryStop[]): ItineraryIssue[] =>
+  stops.slice(1).flatMap((stop, index) => {
+    const previous = stops[index];
+    const leg = index + 1;
+    const issues: ItineraryIssue[] = [];
+
+    if (previous.hotel.checkOut && stop.hotel.checkIn) {
+      const nights = daysBetween(previous.hotel.checkOut, stop.hotel.checkIn);
+      if (nights > 0) issues.push({ kind: 'gap', leg, nights });
+      if (nights < 0) issues.push({ kind: 'overlap', leg, nights: -nights });
+    }
+
+    const { departDate, origin } = stop.flight;
+    if (departDate && ((previous.hotel.checkOut && departDate < previous.hotel.checkOut) ||
+                       (stop.hotel.checkIn && departDate > stop.hotel.checkIn))) {
+      issues.push({ kind: 'flightDate', leg, nights: 0 });
+    }
+
+    // Any airport in the same city connects
+    const cityOf = (code: string) => majorAirports.find(a => a.code === code)?.city;
+    const arrival = getStopAirport(previous);
+    if (origin && arrival && cityOf(origin) !== cityOf(arrival)) issues.push({ kind: 'disconnected', leg, nights: 0 });
+
+    return issues;
+  });
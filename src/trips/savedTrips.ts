@@ -0,0 +1,90 @@
+import { TripState } from '../types';
+import {
+  TripMigration,
+  migrateItinerary,
+  migratePassengerCount,
+  migrateRoomCount,
+  sanitizeTrip
+} from './tripState';
+import { VersionedStore, createId, readVersioned, writeVersioned } from '../utils/storage';
+
+export const SAVED_TRIPS_STORAGE_KEY = 'hilton-calculator:saved-trips';
+
+export const SAVED_TRIPS_SCHEMA_VERSION = 4;
+
+export interface SavedTrip {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  trip: TripState;
+}
+
+// Runs a trip migration over every saved trip, leaving the names and dates alone
+const migrateEach = (migrate: TripMigration) => (data: unknown) =>
+  Array.isArray(data)
+    ? data.map(entry => entry && typeof entry === 'object' ? { ...entry, trip: migrate(entry.trip) } : entry)
+    : data;
+
+const SAVED_TRIPS_STORE: VersionedStore = {
+  key: SAVED_TRIPS_STORAGE_KEY,
+  field: 'trips',
+  version: SAVED_TRIPS_SCHEMA_VERSION,
+  migrations: {
+    1: migrateEach(migrateRoomCount),
+    2: migrateEach(migrateItinerary),
+    3: migrateEach(migratePassengerCount)
+  }
+};
+
+const readEntry = (entry: unknown): SavedTrip | null => {
+  if (!entry || typeof entry !== 'object') return null;
+  const { id, name, createdAt, updatedAt, trip } = entry as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof name !== 'string') return null;
+
+  return {
+    id,
+    name,
+    createdAt: typeof createdAt === 'string' ? createdAt : new Date().toISOString(),
+    updatedAt: typeof updatedAt === 'string' ? updatedAt : new Date().toISOString(),
+    // Catalog or data changes may have invalidated parts of an old trip
+    trip: sanitizeTrip(trip).trip
+  };
+};
+
+export const loadSavedTrips = (storage?: Storage): SavedTrip[] => {
+  const trips = readVersioned(SAVED_TRIPS_STORE, storage);
+  return Array.isArray(trips)
+    ? trips.map(readEntry).filter((trip): trip is SavedTrip => trip !== null)
+    : [];
+};
+
+export const storeSavedTrips = (trips: SavedTrip[], storage?: Storage) =>
+  writeVersioned(SAVED_TRIPS_STORE, trips, storage);
+
+// `defaultName` is used when the name is blank
+export const addSavedTrip = (trips: SavedTrip[], name: string, trip: TripState, defaultName: string): SavedTrip[] => {
+  const now = new Date().toISOString();
+  return [{ id: createId(), name: name.trim() || defaultName, createdAt: now, updatedAt: now, trip }, ...trips];
+};
+
+export const updateSavedTrip = (trips: SavedTrip[], id: string, trip: TripState): SavedTrip[] =>
+  trips.map(saved => saved.id === id ? { ...saved, trip, updatedAt: new Date().toISOString() } : saved);
+
+export const renameSavedTrip = (trips: SavedTrip[], id: string, name: string): SavedTrip[] =>
+  trips.map(saved => saved.id === id && name.trim()
+    ? { ...saved, name: name.trim(), updatedAt: new Date().toISOString() }
+    : saved);
+
+// `copyName` names the copy after the original
+export const duplicateSavedTrip = (trips: SavedTrip[], id: string, copyName: (name: string) => string): SavedTrip[] => {
+  const index = trips.findIndex(saved => saved.id === id);
+  if (index === -1) return trips;
+
+  const now = new Date().toISOString();
+  const copy = { ...trips[index], id: createId(), name: copyName(trips[index].name), createdAt: now, updatedAt: now };
+  return [...trips.slice(0, index + 1), copy, ...trips.slice(index + 1)];
+};
+
+export const deleteSavedTrip = (trips: SavedTrip[], id: string): SavedTrip[] =>
+  trips.filter(saved => saved.id !== id);
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultTrip } from './tripState';
+import { TRIP_LINK_VERSION, decodeTrip, encodeTrip } from './shareLink';
+
+const encodeText = (text: string) =>
+  btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const encodePayload = (payload: unknown) => encodeText(JSON.stringify(payload));
+
+describe('decodeTrip', () => {
+  it('reads back an encoded trip', () => {
+    const trip = { ...createDefaultTrip(), hotel: { ...createDefaultTrip().hotel, checkIn: '2024-10-15' } };
+
+    expect(decodeTrip(encodeTrip(trip))).toEqual({ ok: true, trip, issues: [] });
+  });
+
+  it('rejects a link that is not an encoded payload', () => {
+    expect(decodeTrip('%%%')).toEqual({ ok: false, error: 'corrupted' });
+    expect(decodeTrip(encodeText('{"v": 1, "hotel":'))).toEqual({ ok: false, error: 'corrupted' });
+  });
+
+  it('rejects a payload without a usable version', () => {
+    expect(decodeTrip(encodePayload({ hotel: {} }))).toEqual({ ok: false, error: 'noVersion' });
+    expect(decodeTrip(encodePayload({ v: 0 }))).toEqual({ ok: false, error: 'noVersion' });
+    expect(decodeTrip(encodePayload({ v: 1.5 }))).toEqual({ ok: false, error: 'noVersion' });
+  });
+
+  it('rejects a payload from a newer version', () => {
+    expect(decodeTrip(encodePayload({ v: TRIP_LINK_VERSION + 1 }))).toEqual({ ok: false, error: 'newerVersion' });
+  });
+
+  it('migrates a first-version payload', () => {
+    const decoded = decodeTrip(encodePayload({ v: 1, hotel: { rooms: 2 }, flight: { passengers: 3 } }));
+
+    expect(decoded.ok).toBe(true);
+    if (!decoded.ok) return;
+    expect(decoded.trip.hotel.rooms).toHaveLength(2);
+    expect(decoded.trip.flight.passengers.adult).toBe(3);
+    expect(decoded.trip.legs).toEqual([]);
+    expect(decoded.issues).toEqual([]);
+  });
+
+  it('reports the fields a partial payload had to drop', () => {
+    const decoded = decodeTrip(encodePayload({ v: TRIP_LINK_VERSION, hotel: { checkIn: 'soon' } }));
+
+    expect(decoded).toEqual({ ok: true, trip: createDefaultTrip(), issues: ['hotel.checkIn'] });
+  });
+});
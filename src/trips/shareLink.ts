@@ -0,0 +1,70 @@
+import { TripState } from '../types';
+import { migrateItinerary, migratePassengerCount, migrateRoomCount, sanitizeTrip } from './tripState';
+
+// Bump when the payload shape changes and add a step to `migrations`
+export const TRIP_LINK_VERSION = 4;
+
+const TRIP_PARAM = 'trip';
+
+// Upgrades a payload from version N to N + 1
+const migrations: Record<number, (payload: Record<string, unknown>) => Record<string, unknown>> = {
+  1: migrateRoomCount,
+  2: migrateItinerary,
+  3: migratePassengerCount
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const encodeTrip = (trip: TripState) =>
+  toBase64Url(JSON.stringify({ v: TRIP_LINK_VERSION, ...trip }));
+
+// Why a link couldn't be opened; the calculator translates these
+export type TripLinkError = 'corrupted' | 'noVersion' | 'newerVersion';
+
+export type DecodedTrip =
+  | { ok: true; trip: TripState; issues: string[] }
+  | { ok: false; error: TripLinkError };
+
+export const decodeTrip = (encoded: string): DecodedTrip => {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return { ok: false, error: 'corrupted' };
+  }
+
+  let version = typeof payload?.v === 'number' ? payload.v : NaN;
+  if (!Number.isInteger(version) || version < 1) {
+    return { ok: false, error: 'noVersion' };
+  }
+  if (version > TRIP_LINK_VERSION) {
+    return { ok: false, error: 'newerVersion' };
+  }
+
+  while (version < TRIP_LINK_VERSION) {
+    payload = migrations[version](payload);
+    version++;
+  }
+
+  const { trip, issues } = sanitizeTrip(payload);
+  return { ok: true, trip, issues };
+};
+
+export const readTripFromUrl = (hash = window.location.hash): DecodedTrip | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(TRIP_PARAM);
+  return encoded ? decodeTrip(encoded) : null;
+};
+
+export const buildShareUrl = (trip: TripState, location: Location = window.location) =>
+  `${location.origin}${location.pathname}${location.search}#${TRIP_PARAM}=${encodeTrip(trip)}`;
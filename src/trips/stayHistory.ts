@@ -0,0 +1,77 @@
+import { daysBetween } from '../utils/dates';
+import { VersionedStore, createId, readVersioned, writeVersioned } from '../utils/storage';
+
+export const STAY_HISTORY_STORAGE_KEY = 'hilton-calculator:stay-history';
+
+export const STAY_HISTORY_SCHEMA_VERSION = 1;
+
+export type StayStatus = 'completed' | 'planned';
+
+export interface RecordedStay {
+  id: string;
+  name: string;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  basePoints: number;
+  status: StayStatus;
+}
+
+const STAY_HISTORY_STORE: VersionedStore = {
+  key: STAY_HISTORY_STORAGE_KEY,
+  field: 'stays',
+  version: STAY_HISTORY_SCHEMA_VERSION
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const readEntry = (entry: unknown): RecordedStay | null => {
+  if (!entry || typeof entry !== 'object') return null;
+  const { id, name, checkIn, checkOut, nights, basePoints, status } = entry as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof name !== 'string') return null;
+  if (typeof checkIn !== 'string' || typeof checkOut !== 'string') return null;
+  if (!isCount(nights) || nights === 0 || !isCount(basePoints)) return null;
+  if (status !== 'completed' && status !== 'planned') return null;
+
+  return { id, name, checkIn, checkOut, nights, basePoints, status };
+};
+
+export const loadStayHistory = (storage?: Storage): RecordedStay[] => {
+  const stays = readVersioned(STAY_HISTORY_STORE, storage);
+  return Array.isArray(stays)
+    ? stays.map(readEntry).filter((stay): stay is RecordedStay => stay !== null)
+    : [];
+};
+
+export const storeStayHistory = (stays: RecordedStay[], storage?: Storage) =>
+  writeVersioned(STAY_HISTORY_STORE, stays, storage);
+
+// Stays are kept in check-in order; returns the list unchanged for an empty date range.
+// `defaultName` is used when the name is blank.
+export const addStay = (
+  stays: RecordedStay[],
+  stay: { name: string; checkIn: string; checkOut: string; basePoints: number; status: StayStatus },
+  defaultName: string
+): RecordedStay[] => {
+  const nights = daysBetween(stay.checkIn, stay.checkOut);
+  if (nights <= 0) return stays;
+
+  const next: RecordedStay = {
+    ...stay,
+    id: createId(),
+    name: stay.name.trim() || defaultName,
+    nights,
+    basePoints: Math.max(0, Math.round(stay.basePoints) || 0)
+  };
+  return [...stays, next].sort((a, b) => a.checkIn.localeCompare(b.checkIn));
+};
+
+export const setStayStatus = (stays: RecordedStay[], id: string, status: StayStatus): RecordedStay[] =>
+  stays.map(stay => stay.id === id ? { ...stay, status } : stay);
+
+export const deleteStay = (stays: RecordedStay[], id: string): RecordedStay[] =>
+  stays.filter(stay => stay.id !== id);
+
+export const isStayRecorded = (stays: RecordedStay[], stay: { name: string; checkIn: string; checkOut: string }) =>
+  stays.some(s => s.name === stay.name && s.checkIn === stay.checkIn && s.checkOut === stay.checkOut);
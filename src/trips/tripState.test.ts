@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultTrip, sanitizeTrip } from './tripState';
+
+describe('sanitizeTrip', () => {
+  it('falls back to the default trip for input that is not an object', () => {
+    [null, 'trip', 42, []].forEach(raw => {
+      expect(sanitizeTrip(raw)).toEqual({ trip: createDefaultTrip(), issues: [] });
+    });
+  });
+
+  it('fills a partial trip from the defaults without reporting the missing fields', () => {
+    const { trip, issues } = sanitizeTrip({ hotel: { checkIn: '2024-10-15', rateType: 'premiumReward' } });
+
+    expect(trip.hotel).toEqual({ ...createDefaultTrip().hotel, checkIn: '2024-10-15', rateType: 'premiumReward' });
+    expect(trip.flight).toEqual(createDefaultTrip().flight);
+    expect(issues).toEqual([]);
+  });
+
+  it('drops and reports every invalid field', () => {
+    const { trip, issues } = sanitizeTrip({
+      hotel: { checkIn: '2024-10-15', checkOut: '2024-10-14', rooms: [] },
+      flight: { origin: 'XXX', passengers: { adult: 0 }, segments: 'none' },
+      rideShare: { numberOfRides: 0 },
+      wallet: { balance: 1000, allocations: { hotel: 5000 } }
+    });
+
+    expect([...issues].sort()).toEqual([
+      'flight.origin',
+      'flight.passengers',
+      'flight.segments',
+      'hotel.checkOut',
+      'hotel.rooms',
+      'rideShare.numberOfRides',
+      'wallet.allocations.hotel'
+    ]);
+    expect(trip.hotel.checkIn).toBe('2024-10-15');
+    expect(trip.hotel.checkOut).toBe('');
+    expect(trip.flight.passengers).toEqual(createDefaultTrip().flight.passengers);
+    expect(trip.wallet.balance).toBe(1000);
+    expect(trip.wallet.allocations.hotel).toBe(0);
+  });
+
+  it('keeps stored leg IDs and replaces missing or repeated ones', () => {
+    const { hotel, flight } = createDefaultTrip();
+    const { trip } = sanitizeTrip({
+      legs: [{ id: 'paris', hotel, flight }, { id: 'paris', hotel, flight }, { hotel, flight }]
+    });
+
+    const ids = trip.legs.map(leg => leg.id);
+    expect(ids[0]).toBe('paris');
+    expect(new Set(ids).size).toBe(3);
+  });
+});
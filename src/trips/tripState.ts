@@ -0,0 +1,302 @@
+import { CarRentalDetails, FlightDetails, FlightSegment, HotelDetails, PassengerCounts, ItineraryLeg, TripState, PointsCategory } from '../types';
+import { hiltonBrands } from '../data/hiltonBrands';
+import { expandedHiltonProperties } from '../data/hiltonProperties';
+import { majorAirports, flightClasses, carRentals, rideShareTrips } from '../data/travelData';
+import { entertainmentByCity } from '../data/entertainmentData';
+import { POINTS_CATEGORIES, createWallet, setWalletBalance, allocatePoints } from '../points/wallet';
+import { ELITE_TIERS } from '../points/tiers';
+import { MAX_ROOMS, ROOM_TYPE_IDS, createRoom } from '../pricing/rooms';
+import { MAX_FLIGHT_SEGMENTS } from '../pricing/flight';
+import { MAX_SEATED_PASSENGERS, PASSENGER_TYPES, checkPassengers, createPassengers } from '../pricing/passengers';
+import { MAX_LEGS } from './itinerary';
+import { createId } from '../utils/storage';
+
+export const createDefaultTrip = (): TripState => ({
+  hotel: {
+    brand: '',
+    property: '',
+    checkIn: '',
+    checkOut: '',
+    rooms: [createRoom()],
+    rateType: 'cash',
+    pointsAndMoney: false,
+    parkCar: false
+  },
+  flight: {
+    origin: '',
+    destination: '',
+    departDate: '',
+    returnDate: '',
+    flightClass: 'economy',
+    passengers: createPassengers(),
+    tripType: 'roundTrip',
+    flightType: 'nonStop',
+    segments: []
+  },
+  carRental: {
+    company: '',
+    category: '',
+    days: 0
+  },
+  legs: [],
+  entertainment: {
+    city: '',
+    selectedEvents: [],
+    quantity: {}
+  },
+  rideShare: {
+    type: rideShareTrips[0].type,
+    estimatedMiles: 0,
+    estimatedMinutes: 0,
+    numberOfRides: 1,
+    timeOfDay: 'standard'
+  },
+  wallet: createWallet()
+});
+
+type RawRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as RawRecord : {};
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(new Date(value).getTime());
+
+/**
+ * Upgrades a raw trip from one stored shape to the next. Share links and saved
+ * trips version their payloads separately, so each runs these steps from its
+ * own `migrations`.
+ */
+export type TripMigration = (raw: unknown) => RawRecord;
+
+// Trips saved before room types stored a plain room count
+export const migrateRoomCount: TripMigration = raw => {
+  const trip = asRecord(raw);
+  const hotel = asRecord(trip.hotel);
+  return typeof hotel.rooms === 'number' && Number.isInteger(hotel.rooms) && hotel.rooms >= 1 && hotel.rooms <= MAX_ROOMS
+    ? { ...trip, hotel: { ...hotel, rooms: Array.from({ length: hotel.rooms }, createRoom) } }
+    : trip;
+};
+
+// Trips saved before multi-city itineraries had no later stops or flight segments
+export const migrateItinerary: TripMigration = raw => {
+  const trip = asRecord(raw);
+  const flight = asRecord(trip.flight);
+  return {
+    ...trip,
+    flight: { ...flight, segments: flight.segments ?? [] },
+    legs: trip.legs ?? []
+  };
+};
+
+// Trips saved before passenger types stored a plain count, read as adults
+export const migratePassengerCount: TripMigration = raw => {
+  const trip = asRecord(raw);
+  const upgradeFlight = (value: unknown) => {
+    const flight = asRecord(value);
+    return typeof flight.passengers === 'number'
+      ? { ...flight, passengers: { ...createPassengers(), adult: flight.passengers } }
+      : flight;
+  };
+  return {
+    ...trip,
+    flight: upgradeFlight(trip.flight),
+    legs: Array.isArray(trip.legs)
+      ? trip.legs.map(leg => leg && typeof leg === 'object' ? { ...leg, flight: upgradeFlight(leg.flight) } : leg)
+      : trip.legs
+  };
+};
+
+/**
+ * Rebuilds a trip from untrusted input (shared links, saved trips), falling back to
+ * defaults field by field. Every value that had to be dropped is reported in `issues`.
+ */
+export const sanitizeTrip = (raw: unknown): { trip: TripState; issues: string[] } => {
+  const defaults = createDefaultTrip();
+  const issues: string[] = [];
+  const input = asRecord(raw);
+
+  const pick = <T>(section: string, field: string, value: unknown, isValid: (v: unknown) => boolean, fallback: T): T => {
+    if (value === undefined || value === '') return fallback;
+    if (isValid(value)) return value as T;
+    issues.push(`${section}.${field}`);
+    return fallback;
+  };
+
+  const intInRange = (min: number, max: number) => (v: unknown) =>
+    typeof v === 'number' && Number.isInteger(v) && v >= min && v <= max;
+
+  const oneOf = (values: readonly unknown[]) => (v: unknown) => values.includes(v);
+
+  // Hotel, flight and car are read the same way for the first stop and every later one
+  const sanitizeHotel = (raw: unknown, section: string): HotelDetails => {
+    const hotelIn = asRecord(raw);
+    const checkIn = pick(section, 'checkIn', hotelIn.checkIn, isIsoDate, defaults.hotel.checkIn);
+    const roomsIn = hotelIn.rooms;
+    const rooms = Array.isArray(roomsIn) && roomsIn.length >= 1 && roomsIn.length <= MAX_ROOMS
+      ? roomsIn.map((value, index) => {
+          const roomIn = asRecord(value);
+          const room = createRoom();
+          return {
+            type: pick(section, `rooms.${index}.type`, roomIn.type, oneOf(ROOM_TYPE_IDS), room.type),
+            adults: pick(section, `rooms.${index}.adults`, roomIn.adults, intInRange(1, 8), room.adults),
+            children: pick(section, `rooms.${index}.children`, roomIn.children, intInRange(0, 8), room.children)
+          };
+        })
+      : pick(section, 'rooms', roomsIn, () => false, defaults.hotel.rooms); // Reported unless missing
+
+    return {
+      brand: pick(section, 'brand', hotelIn.brand, oneOf(hiltonBrands.map(b => b.id)), defaults.hotel.brand),
+      property: pick(section, 'property', hotelIn.property,
+        oneOf(expandedHiltonProperties.map(p => p.id)), defaults.hotel.property),
+      checkIn,
+      checkOut: pick(section, 'checkOut', hotelIn.checkOut,
+        v => isIsoDate(v) && (!checkIn || v > checkIn), defaults.hotel.checkOut),
+      rooms,
+      rateType: pick(section, 'rateType', hotelIn.rateType,
+        oneOf(['cash', 'standardReward', 'premiumReward']), defaults.hotel.rateType),
+      pointsAndMoney: pick(section, 'pointsAndMoney', hotelIn.pointsAndMoney,
+        v => typeof v === 'boolean', defaults.hotel.pointsAndMoney),
+      parkCar: pick(section, 'parkCar', hotelIn.parkCar, v => typeof v === 'boolean', defaults.hotel.parkCar)
+    };
+  };
+
+  const airportCodes = majorAirports.map(a => a.code);
+  const sanitizeFlight = (raw: unknown, section: string): FlightDetails => {
+    const flightIn = asRecord(raw);
+    const departDate = pick(section, 'departDate', flightIn.departDate, isIsoDate, defaults.flight.departDate);
+    const flightClass = pick(section, 'flightClass', flightIn.flightClass,
+      oneOf(flightClasses.map(fc => fc.id)), defaults.flight.flightClass);
+    const flightType = pick(section, 'flightType', flightIn.flightType,
+      oneOf(['nonStop', 'layover']), defaults.flight.flightType);
+
+    const passengersIn = asRecord(flightIn.passengers);
+    const counts = PASSENGER_TYPES.reduce((result, type) => ({
+      ...result,
+      [type]: pick(section, `passengers.${type}`, passengersIn[type],
+        intInRange(0, MAX_SEATED_PASSENGERS), defaults.flight.passengers[type])
+    }), {} as PassengerCounts);
+    const passengers = pick(section, 'passengers', counts,
+      v => !checkPassengers(v as PassengerCounts), defaults.flight.passengers);
+
+    // Segments past MAX_FLIGHT_SEGMENTS are dropped; bad fields fall back to the first flight's
+    const segmentsIn = pick<unknown[]>(section, 'segments', flightIn.segments, Array.isArray, []);
+    if (segmentsIn.length > MAX_FLIGHT_SEGMENTS) issues.push(`${section}.segments`);
+    const segments = segmentsIn.slice(0, MAX_FLIGHT_SEGMENTS).map((value, index): FlightSegment => {
+      const segmentIn = asRecord(value);
+      const field = `segments.${index}`;
+      return {
+        origin: pick(section, `${field}.origin`, segmentIn.origin, oneOf(airportCodes), ''),
+        destination: pick(section, `${field}.destination`, segmentIn.destination, oneOf(airportCodes), ''),
+        date: pick(section, `${field}.date`, segmentIn.date, isIsoDate, ''),
+        flightClass: pick(section, `${field}.flightClass`, segmentIn.flightClass,
+          oneOf(flightClasses.map(fc => fc.id)), flightClass),
+        flightType: pick(section, `${field}.flightType`, segmentIn.flightType,
+          oneOf(['nonStop', 'layover']), flightType)
+      };
+    });
+
+    return {
+      origin: pick(section, 'origin', flightIn.origin, oneOf(airportCodes), defaults.flight.origin),
+      destination: pick(section, 'destination', flightIn.destination, oneOf(airportCodes), defaults.flight.destination),
+      departDate,
+      returnDate: pick(section, 'returnDate', flightIn.returnDate,
+        v => isIsoDate(v) && (!departDate || v >= departDate), defaults.flight.returnDate),
+      flightClass,
+      passengers,
+      tripType: pick(section, 'tripType', flightIn.tripType,
+        oneOf(['oneWay', 'roundTrip', 'multiCity']), defaults.flight.tripType),
+      flightType,
+      segments
+    };
+  };
+
+  const sanitizeCarRental = (raw: unknown, section: string): CarRentalDetails => {
+    const carIn = asRecord(raw);
+    return {
+      company: pick(section, 'company', carIn.company,
+        oneOf(carRentals.map(r => r.company)), defaults.carRental.company),
+      category: pick(section, 'category', carIn.category,
+        oneOf(Object.keys(carRentals[0].categories)), defaults.carRental.category),
+      days: pick(section, 'days', carIn.days, intInRange(0, 90), defaults.carRental.days)
+    };
+  };
+
+  const hotel = sanitizeHotel(input.hotel, 'hotel');
+  const flight = sanitizeFlight(input.flight, 'flight');
+  const carRental = sanitizeCarRental(input.carRental, 'carRental');
+
+  // Later stops keep their stored IDs unless missing or repeated; stops past MAX_LEGS are dropped
+  const legsIn = Array.isArray(input.legs) ? input.legs : [];
+  if (input.legs !== undefined && (!Array.isArray(input.legs) || input.legs.length > MAX_LEGS)) issues.push('legs');
+  const legIds = new Set<string>();
+  const legs = legsIn.slice(0, MAX_LEGS).map((value, index): ItineraryLeg => {
+    const legIn = asRecord(value);
+    const id = typeof legIn.id === 'string' && legIn.id && !legIds.has(legIn.id) ? legIn.id : createId();
+    legIds.add(id);
+    return {
+      id,
+      hotel: sanitizeHotel(legIn.hotel, `legs.${index}.hotel`),
+      flight: sanitizeFlight(legIn.flight, `legs.${index}.flight`),
+      carRental: legIn.carRental == null ? null : sanitizeCarRental(legIn.carRental, `legs.${index}.carRental`)
+    };
+  });
+
+  // Entertainment follows the selected property's city
+  const entertainmentIn = asRecord(input.entertainment);
+  const city = expandedHiltonProperties.find(p => p.id === hotel.property)?.city || '';
+  const cityEventIds = (entertainmentByCity[city] || []).map(e => e.id);
+  const requestedEvents = Array.isArray(entertainmentIn.selectedEvents) ? entertainmentIn.selectedEvents : [];
+  const selectedEvents = requestedEvents.filter((id): id is string => cityEventIds.includes(id as string));
+  if (selectedEvents.length < requestedEvents.length) issues.push('entertainment.selectedEvents');
+
+  // Events without a quantity stay unset, so they keep defaulting to a ticket per traveller
+  const quantityIn = asRecord(entertainmentIn.quantity);
+  const quantity = selectedEvents.reduce((acc, id) => {
+    const value = pick<number | undefined>('entertainment', `quantity.${id}`, quantityIn[id], intInRange(1, 50), undefined);
+    if (value !== undefined) acc[id] = value;
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Ride share
+  const rideIn = asRecord(input.rideShare);
+  const numberInRange = (min: number, max: number) => (v: unknown) =>
+    typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max;
+
+  const rideShare = {
+    type: pick('rideShare', 'type', rideIn.type, oneOf(rideShareTrips.map(r => r.type)), defaults.rideShare.type),
+    estimatedMiles: pick('rideShare', 'estimatedMiles', rideIn.estimatedMiles, numberInRange(0, 500), defaults.rideShare.estimatedMiles),
+    estimatedMinutes: pick('rideShare', 'estimatedMinutes', rideIn.estimatedMinutes, intInRange(0, 600), defaults.rideShare.estimatedMinutes),
+    numberOfRides: pick('rideShare', 'numberOfRides', rideIn.numberOfRides, intInRange(1, 50), defaults.rideShare.numberOfRides),
+    timeOfDay: pick('rideShare', 'timeOfDay', rideIn.timeOfDay,
+      oneOf(['standard', 'peak', 'event']), defaults.rideShare.timeOfDay)
+  };
+
+  // Wallet: allocations are re-applied through the wallet helpers so they never exceed the balance
+  const walletIn = asRecord(input.wallet);
+  const allocationsIn = asRecord(walletIn.allocations);
+  let wallet = setWalletBalance(createWallet(),
+    pick('wallet', 'balance', walletIn.balance, intInRange(0, 100_000_000), 0));
+  POINTS_CATEGORIES.forEach((category: PointsCategory) => {
+    const points = pick('wallet', `allocations.${category}`, allocationsIn[category], intInRange(0, wallet.balance), 0);
+    wallet = allocatePoints(wallet, category, points);
+  });
+  wallet.mode = pick('wallet', 'mode', walletIn.mode, oneOf(['manual', 'optimized']), wallet.mode);
+  wallet.tier = pick('wallet', 'tier', walletIn.tier, oneOf(ELITE_TIERS), wallet.tier);
+  wallet.baselineCents = pick('wallet', 'baselineCents', walletIn.baselineCents, numberInRange(0, 10), wallet.baselineCents);
+
+  return {
+    trip: {
+      hotel,
+      flight,
+      carRental,
+      legs,
+      entertainment: { city, selectedEvents, quantity },
+      rideShare,
+      wallet
+    },
+    issues
+  };
+};
@@ -1,8 +1,13 @@
+import { MessageKey } from './i18n/messages/en';
+import { MessageParams, PluralKey } from './i18n/translate';
+
 export interface Airport {
   code: string;
   name: string;
   city: string;
   country: string;
+  latitude: number;
+  longitude: number;
 }
 
 export interface FlightClass {
@@ -20,6 +25,7 @@ export interface CarRental {
     luxury: number;
     suv: number;
   };
+  honorsPointsPerDollar: number; // 0 when the company is not a Hilton Honors partner
 }
 
 export interface Entertainment {
@@ -40,4 +46,151 @@ export interface HiltonBrand {
   category: string;
   basePrice: number;
   pointsPerDollar: number;
-}
\ No newline at end of file
+}
+
+// What a property charges on top of the room rate, in US dollars
+export interface PropertyFees {
+  resortFee: number;      // Per room night; 0 when the property has none
+  destinationFee: number; // Per room night
+  parking: {
+    self?: number;        // Per night for one car; absent when not offered
+    valet?: number;
+  };
+  waivedOnAwardStays: {
+    resortFee: boolean;
+    destinationFee: boolean;
+  };
+}
+
+export type EliteTier = 'member' | 'silver' | 'gold' | 'diamond' | 'lifetimeDiamond';
+
+export type PointsCategory = 'hotel' | 'flight' | 'carRental' | 'entertainment';
+
+// Ride share earns points with Lyft but cannot be paid for with them
+export type CostCategory = PointsCategory | 'rideShare';
+
+export type LineItemKind = 'base' | 'seasonal' | 'discount' | 'fee' | 'tax' | 'points';
+
+// Translated when rendered; `count` picks the plural form of `key`
+export type LineItemLabel =
+  | { key: MessageKey; params?: MessageParams }
+  | { key: PluralKey; count: number; params?: MessageParams };
+
+export interface LineItem {
+  label: LineItemLabel;
+  amount: number; // Negative for discounts and points
+  kind: LineItemKind;
+}
+
+export type EarningSource = 'base' | 'eliteBonus' | 'lyft' | 'carRentalPartner';
+
+export interface PointsEarning {
+  points: number;
+  source: EarningSource;
+}
+
+export interface CategoryCost {
+  cashPrice: number;
+  pointsSavings: number;
+  pointsUsed: number;
+  redeemableValue: number; // Most dollars points are allowed to cover
+  pointsEarned: number;
+  lineItems: LineItem[];
+  earnings: PointsEarning[]; // Honors points earned on the cash paid
+}
+
+export interface PointsWallet {
+  balance: number;
+  allocations: Record<PointsCategory, number>;
+  mode: 'manual' | 'optimized';
+  tier: EliteTier;
+  baselineCents: number; // Value per point a redemption should beat
+}
+
+export type HotelRateType = 'cash' | 'standardReward' | 'premiumReward';
+
+export type RoomTypeId = 'king' | 'doubleQueen' | 'executive' | 'suite';
+
+export interface HotelRoom {
+  type: RoomTypeId;
+  adults: number;
+  children: number;
+}
+
+export interface HotelDetails {
+  brand: string;
+  property: string;
+  checkIn: string;
+  checkOut: string;
+  rooms: HotelRoom[];
+  rateType: HotelRateType;
+  pointsAndMoney: boolean; // Top up a short points balance with cash
+  parkCar: boolean;
+}
+
+export type FlightTripType = 'oneWay' | 'roundTrip' | 'multiCity';
+
+export type FlightType = 'nonStop' | 'layover';
+
+// A further flight on a multi-city or open-jaw ticket
+export interface FlightSegment {
+  origin: string;
+  destination: string;
+  date: string;
+  flightClass: string;
+  flightType: FlightType;
+}
+
+export type PassengerType = 'adult' | 'senior' | 'child' | 'infantInSeat' | 'infantInLap';
+
+export type PassengerCounts = Record<PassengerType, number>;
+
+export interface FlightDetails {
+  origin: string;
+  destination: string;
+  departDate: string;
+  returnDate: string;
+  flightClass: string;
+  passengers: PassengerCounts;
+  tripType: FlightTripType;
+  flightType: FlightType;
+  segments: FlightSegment[]; // Flights after the first, priced only on multi-city trips
+}
+
+export interface CarRentalDetails {
+  company: string;
+  category: string;
+  days: number;
+}
+
+export interface EntertainmentDetails {
+  city: string;
+  selectedEvents: string[];
+  quantity: Record<string, number>;
+}
+
+export interface RideShareDetails {
+  type: string;
+  estimatedMiles: number;
+  estimatedMinutes: number;
+  numberOfRides: number;
+  timeOfDay: 'standard' | 'peak' | 'event';
+}
+
+// A later stop on a multi-city trip: the flight there, the stay and an optional car
+export interface ItineraryLeg {
+  id: string;
+  hotel: HotelDetails;
+  flight: FlightDetails;
+  carRental: CarRentalDetails | null;
+}
+
+export interface TripState {
+  hotel: HotelDetails;
+  flight: FlightDetails;
+  carRental: CarRentalDetails;
+  legs: ItineraryLeg[]; // Stops after the first, in travel order
+  entertainment: EntertainmentDetails;
+  rideShare: RideShareDetails;
+  wallet: PointsWallet;
+}
@@ -0,0 +1,21 @@
+export const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Whole days from `start` to `end` (ISO dates), rounded up; 0 when either date is missing
+export const daysBetween = (start: string, end: string) => {
+  if (!start || !end) return 0;
+  return Math.ceil((new Date(end).getTime() - new Date(start).getTime()) / MS_PER_DAY);
+};
+
+// ISO date `days` after `date`; dates are read and written in UTC so they never shift a day
+export const addDays = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+// ISO date of every night from check-in up to, but not including, check-out
+export const eachNight = (checkIn: string, checkOut: string): string[] =>
+  Array.from({ length: Math.max(0, daysBetween(checkIn, checkOut) || 0) }, (_, i) => addDays(checkIn, i));
+
+// ISO date of every day in a month (0-based, as Date uses)
+export const eachDayOfMonth = (year: number, month: number): string[] => {
+  const days = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Array.from({ length: days }, (_, i) => new Date(Date.UTC(year, month, i + 1)).toISOString().slice(0, 10));
+};
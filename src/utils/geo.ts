@@ -0,0 +1,17 @@
+export const EARTH_RADIUS_MILES = 3958.8;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle distance between two points in statute miles (haversine formula)
+export const greatCircleMiles = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+};
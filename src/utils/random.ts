@@ -0,0 +1,34 @@
+// FNV-1a hash, used to turn a readable seed string into a 32-bit PRNG seed
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast PRNG returning floats in [0, 1), same sequence for the same seed
+export const createSeededRandom = (seed: number | string) => {
+  let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const pickOne = <T>(items: readonly T[], random: () => number) =>
+  items[Math.floor(random() * items.length)];
+
+// Fisher-Yates shuffle that leaves the input untouched
+export const shuffle = <T>(items: readonly T[], random: () => number) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
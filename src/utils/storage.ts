@@ -0,0 +1,50 @@
+// Unique enough to tell saved records apart
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A localStorage entry shaped `{ version, [field]: data }`. Bump `version`
+ * when the stored shape changes and add a step to `migrations`, which
+ * upgrades the data from version N to N + 1.
+ */
+export interface VersionedStore {
+  key: string;
+  field: string;
+  version: number;
+  migrations?: Record<number, (data: unknown) => unknown>;
+}
+
+/**
+ * The stored data, migrated to the current version. Null when there is
+ * nothing usable: no entry, bad JSON, a version that isn't a whole number
+ * of at least 1 or is newer than this build, a missing migration, or
+ * storage that can't be read.
+ */
+export const readVersioned = (store: VersionedStore, storage?: Storage): unknown => {
+  try {
+    const saved = JSON.parse((storage ?? window.localStorage).getItem(store.key) || 'null');
+    if (!saved || typeof saved !== 'object') return null;
+
+    const { version } = saved;
+    if (!Number.isInteger(version) || version < 1 || version > store.version) return null;
+
+    let data: unknown = saved[store.field];
+    for (let step: number = version; step < store.version; step++) {
+      const migrate = store.migrations?.[step];
+      if (!migrate) return null;
+      data = migrate(data);
+    }
+    return data;
+  } catch {
+    return null;
+  }
+};
+
+// False when storage is full or unavailable; the app keeps working from memory
+export const writeVersioned = (store: VersionedStore, data: unknown, storage?: Storage): boolean => {
+  try {
+    (storage ?? window.localStorage).setItem(store.key, JSON.stringify({ version: store.version, [store.field]: data }));
+    return true;
+  } catch {
+    return false;
+  }
+};